@@ -0,0 +1,126 @@
+import { GameConfig } from './config';
+import { symbolName, t } from './i18n';
+
+/**
+ * Accessibility
+ * Screen-reader announcements through ARIA live regions, text descriptions
+ * of results, focus trapping for modal panels and the reduced-motion
+ * preference (OS setting, or ?reducedMotion=1|0 to override it).
+ */
+
+// ============================================
+// ANNOUNCEMENTS
+// ============================================
+export interface Announcer {
+  /**
+   * Read `message` out on screen readers. Assertive interrupts current
+   * speech; keep it for results.
+   */
+  announce: (message: string, politeness?: 'polite' | 'assertive') => void;
+  // Remove the live regions
+  dispose: () => void;
+}
+
+function createLiveRegion(container: HTMLElement, politeness: 'polite' | 'assertive'): HTMLElement {
+  const region = document.createElement('div');
+  region.className = 'sr-only';
+  region.setAttribute('aria-live', politeness);
+  region.setAttribute('aria-atomic', 'true');
+  region.setAttribute('role', politeness === 'assertive' ? 'alert' : 'status');
+  container.appendChild(region);
+  return region;
+}
+
+// Live regions in `container`; each game announces its own table
+export function createAnnouncer(container: HTMLElement = document.body): Announcer {
+  const politeRegion = createLiveRegion(container, 'polite');
+  const assertiveRegion = createLiveRegion(container, 'assertive');
+  const pending = new Set<number>();
+
+  return {
+    announce(message, politeness = 'polite') {
+      const region = politeness === 'assertive' ? assertiveRegion : politeRegion;
+      // Clear first so repeating the same text is announced again
+      region.textContent = '';
+      const timer = window.setTimeout(() => {
+        pending.delete(timer);
+        region.textContent = message;
+      }, 50);
+      pending.add(timer);
+    },
+
+    dispose() {
+      pending.forEach((timer) => clearTimeout(timer));
+      politeRegion.remove();
+      assertiveRegion.remove();
+    },
+  };
+}
+
+/**
+ * Text summary of a result, grouped by symbol: "Result: Crown: 3, Spade: 2, Heart: 1".
+ */
+export function describeResult(diceValues: number[]): string {
+  const counts = new Map<number, number>();
+  diceValues.forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1));
+  const parts = [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0] - b[0])
+    .map(([value, count]) => t('a11y.symbolCount', { symbol: symbolName(value), count }));
+  return t('a11y.result', { summary: parts.join(', ') });
+}
+
+// ============================================
+// FOCUS
+// ============================================
+const FOCUSABLE = 'button:not([disabled]), input:not([disabled]), select:not([disabled]), [href], [tabindex]:not([tabindex="-1"])';
+
+/**
+ * Keep Tab/Shift+Tab focus inside `container` and focus its first control.
+ * Returns a function that releases the trap and restores the previous focus.
+ */
+export function trapFocus(container: HTMLElement): () => void {
+  const previous = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+
+  const onKeyDown = (event: KeyboardEvent) => {
+    if (event.key !== 'Tab') return;
+    const focusable = [...container.querySelectorAll<HTMLElement>(FOCUSABLE)];
+    if (focusable.length === 0) return;
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    if (event.shiftKey && document.activeElement === first) {
+      event.preventDefault();
+      last.focus();
+    } else if (!event.shiftKey && document.activeElement === last) {
+      event.preventDefault();
+      first.focus();
+    }
+  };
+
+  container.addEventListener('keydown', onKeyDown);
+  container.querySelector<HTMLElement>(FOCUSABLE)?.focus();
+
+  return () => {
+    container.removeEventListener('keydown', onKeyDown);
+    previous?.focus();
+  };
+}
+
+// ============================================
+// REDUCED MOTION
+// ============================================
+const motionQuery = window.matchMedia('(prefers-reduced-motion: reduce)');
+
+export function prefersReducedMotion(): boolean {
+  return GameConfig.reducedMotion ?? motionQuery.matches;
+}
+
+// The class switches off CSS animations (see style.css)
+function applyReducedMotion(): void {
+  document.documentElement.classList.toggle('reduced-motion', prefersReducedMotion());
+}
+
+export function initReducedMotion(): () => void {
+  motionQuery.addEventListener('change', applyReducedMotion);
+  applyReducedMotion();
+  return () => motionQuery.removeEventListener('change', applyReducedMotion);
+}
@@ -0,0 +1,294 @@
+import { GameConfig } from './config';
+import { localizeAttribute } from './i18n';
+
+/**
+ * Sound Engine
+ * Web Audio playback for countdown ticks, dice rattle/impacts and the result
+ * sting. Sounds load from GameConfig.audio.files when configured; anything
+ * missing or undecodable is synthesised, so the game is never silent for
+ * lack of assets. Browsers keep the AudioContext suspended until the first
+ * user gesture; sounds requested before that are dropped, not queued.
+ */
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+export type SoundName = 'tick' | 'tickFinal' | 'rattle' | 'impact' | 'result';
+
+export const SOUND_NAMES: SoundName[] = ['tick', 'tickFinal', 'rattle', 'impact', 'result'];
+
+export interface PlayOptions {
+  // 0-1, multiplied with the master volume
+  volume?: number;
+  // Playback rate (pitch); 1 = as recorded
+  rate?: number;
+}
+
+interface AudioSettings {
+  volume: number;
+  muted: boolean;
+}
+
+const STORAGE_KEY = 'jhandi-munda:audio';
+
+// Simultaneous voices; further sounds are skipped until one ends
+const MAX_VOICES = 12;
+// The same sound retriggered within this window is skipped (e.g. both dice of a collision)
+const MIN_REPEAT_GAP_MS = 25;
+
+// ============================================
+// ENGINE STATE
+// ============================================
+let context: AudioContext | null = null;
+let masterGain: GainNode | null = null;
+const buffers = new Map<SoundName, AudioBuffer>();
+let activeVoices = 0;
+const lastPlayedAt = new Map<SoundName, number>();
+let settings: AudioSettings = loadSettings();
+const settingsListeners = new Set<(settings: AudioSettings) => void>();
+
+function loadSettings(): AudioSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const parsed: Partial<AudioSettings> = JSON.parse(raw);
+      return {
+        volume: typeof parsed.volume === 'number' ? Math.min(Math.max(parsed.volume, 0), 1) : GameConfig.audio.defaultVolume,
+        muted: parsed.muted === true,
+      };
+    }
+  } catch (err) {
+    console.error('[Audio] Failed to restore settings', err);
+  }
+  return { volume: GameConfig.audio.defaultVolume, muted: false };
+}
+
+function saveSettings(): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.error('[Audio] Failed to persist settings', err);
+  }
+  applyVolume();
+  settingsListeners.forEach((listener) => listener(settings));
+}
+
+function getContext(): AudioContext | null {
+  if (context) return context;
+  const AudioContextClass = window.AudioContext ?? (window as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+  if (!AudioContextClass) return null;
+
+  context = new AudioContextClass();
+  masterGain = context.createGain();
+  masterGain.connect(context.destination);
+  applyVolume();
+  return context;
+}
+
+function applyVolume(): void {
+  if (masterGain) masterGain.gain.value = settings.muted ? 0 : settings.volume;
+}
+
+// ============================================
+// SYNTHESIS
+// ============================================
+function createBuffer(ctx: BaseAudioContext, durationSec: number, render: (t: number) => number): AudioBuffer {
+  const length = Math.max(1, Math.floor(ctx.sampleRate * durationSec));
+  const buffer = ctx.createBuffer(1, length, ctx.sampleRate);
+  const data = buffer.getChannelData(0);
+  for (let i = 0; i < length; i++) {
+    data[i] = render(i / ctx.sampleRate);
+  }
+  return buffer;
+}
+
+const tone = (frequency: number, t: number) => Math.sin(2 * Math.PI * frequency * t);
+const noise = () => Math.random() * 2 - 1;
+
+/**
+ * Procedural stand-ins for each sound.
+ */
+function synthesize(ctx: BaseAudioContext, name: SoundName): AudioBuffer {
+  switch (name) {
+    case 'tick':
+      return createBuffer(ctx, 0.08, (t) => tone(1000, t) * Math.exp(-t * 60) * 0.5);
+    case 'tickFinal':
+      return createBuffer(ctx, 0.25, (t) => (tone(1500, t) + 0.5 * tone(3000, t)) * Math.exp(-t * 18) * 0.4);
+    case 'impact':
+      // Knock: a damped low thump plus a short click of noise
+      return createBuffer(ctx, 0.12, (t) => (tone(140, t) * 0.7 + noise() * Math.exp(-t * 200)) * Math.exp(-t * 40) * 0.6);
+    case 'rattle':
+      // Dice shaken in a cup: irregular clicks over ~0.4 s
+      return createBuffer(ctx, 0.45, (t) => {
+        const phase = (t * 23) % 1;
+        const click = phase < 0.15 ? Math.exp(-phase * 60) : 0;
+        return noise() * click * Math.exp(-t * 3) * 0.5;
+      });
+    case 'result':
+      // Rising major arpeggio (C5 E5 G5 C6)
+      return createBuffer(ctx, 0.9, (t) => {
+        const notes = [523.25, 659.25, 783.99, 1046.5];
+        return notes.reduce((sum, frequency, i) => {
+          const start = i * 0.1;
+          if (t < start) return sum;
+          return sum + tone(frequency, t - start) * Math.exp(-(t - start) * 4) * 0.18;
+        }, 0);
+      });
+  }
+}
+
+// ============================================
+// LOADING
+// ============================================
+async function loadSound(ctx: AudioContext, name: SoundName): Promise<AudioBuffer> {
+  const url = GameConfig.audio.files[name];
+  if (url) {
+    try {
+      const res = await fetch(url);
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      return await ctx.decodeAudioData(await res.arrayBuffer());
+    } catch (err) {
+      console.warn(`[Audio] Could not load ${url}, using synthesised ${name}`, err);
+    }
+  }
+  return synthesize(ctx, name);
+}
+
+/**
+ * Load (or synthesise) every sound. Never rejects; `onLoaded` is called once
+ * per sound for loading-progress reporting.
+ */
+export async function preloadSounds(onLoaded: () => void): Promise<void> {
+  const ctx = getContext();
+  if (!ctx) {
+    console.warn('[Audio] Web Audio is not supported; sound is disabled');
+    SOUND_NAMES.forEach(() => onLoaded());
+    return;
+  }
+
+  await Promise.all(
+    SOUND_NAMES.map(async (name) => {
+      buffers.set(name, await loadSound(ctx, name));
+      onLoaded();
+    }),
+  );
+}
+
+/**
+ * Resume the AudioContext on the first user gesture (autoplay policy).
+ */
+export function initAudioUnlock(): () => void {
+  const unlock = () => {
+    const ctx = getContext();
+    if (!ctx || ctx.state !== 'suspended') {
+      removeListeners();
+      return;
+    }
+    ctx.resume().then(removeListeners, (err) => console.warn('[Audio] Resume failed', err));
+  };
+  const events = ['pointerdown', 'keydown', 'touchend'];
+  const removeListeners = () => events.forEach((event) => window.removeEventListener(event, unlock));
+  events.forEach((event) => window.addEventListener(event, unlock));
+  return removeListeners;
+}
+
+/**
+ * Close the AudioContext and drop decoded sounds; `preloadSounds` sets
+ * them up again.
+ */
+export function closeAudio(): void {
+  context?.close().catch((err) => console.warn('[Audio] Close failed', err));
+  context = null;
+  masterGain = null;
+  buffers.clear();
+  activeVoices = 0;
+}
+
+// ============================================
+// PLAYBACK
+// ============================================
+export function playSound(name: SoundName, options: PlayOptions = {}): void {
+  const ctx = context;
+  const buffer = buffers.get(name);
+  if (!ctx || !masterGain || !buffer) return;
+  if (settings.muted || ctx.state !== 'running' || document.hidden) return;
+  if (activeVoices >= MAX_VOICES) return;
+  const now = performance.now();
+  if (now - (lastPlayedAt.get(name) ?? -Infinity) < MIN_REPEAT_GAP_MS) return;
+  lastPlayedAt.set(name, now);
+
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  source.playbackRate.value = options.rate ?? 1;
+
+  const gain = ctx.createGain();
+  gain.gain.value = Math.min(Math.max(options.volume ?? 1, 0), 1);
+  source.connect(gain).connect(masterGain);
+
+  activeVoices++;
+  source.onended = () => {
+    // Voices of a closed context may end after the count was reset
+    activeVoices = Math.max(0, activeVoices - 1);
+    source.disconnect();
+    gain.disconnect();
+  };
+  source.start();
+}
+
+// ============================================
+// SETTINGS
+// ============================================
+export function getAudioSettings(): AudioSettings {
+  return { ...settings };
+}
+
+export function setVolume(volume: number): void {
+  settings = { ...settings, volume: Math.min(Math.max(volume, 0), 1) };
+  saveSettings();
+}
+
+export function setSoundMuted(muted: boolean): void {
+  settings = { ...settings, muted };
+  saveSettings();
+}
+
+export function onAudioSettingsChange(listener: (settings: AudioSettings) => void): () => void {
+  settingsListeners.add(listener);
+  return () => {
+    settingsListeners.delete(listener);
+  };
+}
+
+// ============================================
+// SOUND CONTROLS
+// ============================================
+export function initSoundControls(container: HTMLElement): () => void {
+  container.innerHTML = '';
+
+  const muteButton = document.createElement('button');
+  muteButton.type = 'button';
+  muteButton.className = 'sound-toggle';
+  muteButton.addEventListener('click', () => setSoundMuted(!settings.muted));
+
+  const slider = document.createElement('input');
+  slider.type = 'range';
+  slider.className = 'sound-volume';
+  slider.min = '0';
+  slider.max = '100';
+  localizeAttribute(slider, 'aria-label', 'sound.volume');
+  slider.addEventListener('input', () => {
+    setVolume(Number(slider.value) / 100);
+    if (settings.muted && settings.volume > 0) setSoundMuted(false);
+  });
+
+  const render = () => {
+    muteButton.textContent = settings.muted || settings.volume === 0 ? '🔇' : '🔊';
+    localizeAttribute(muteButton, 'title', settings.muted ? 'sound.unmute' : 'sound.mute');
+    muteButton.setAttribute('aria-pressed', String(settings.muted));
+    slider.value = String(Math.round(settings.volume * 100));
+  };
+
+  container.append(muteButton, slider);
+  render();
+  return onAudioSettingsChange(render);
+}
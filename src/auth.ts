@@ -0,0 +1,330 @@
+import { GameConfig } from './config';
+import { localize, localizeAttribute, setPlainText } from './i18n';
+import { trapFocus } from './a11y';
+
+/**
+ * Authenticated Sessions
+ * Holds the session token and keeps it fresh. A token can arrive in the URL
+ * fragment (#token=...&expiresIn=...), from the host page (setAuthToken over
+ * the embed protocol, see hostBridge.ts), or from the login form. transport.ts
+ * attaches it to requests (header) and to the event stream (query, since
+ * EventSource cannot send headers).
+ */
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+export type SessionStatus = 'anonymous' | 'authenticated' | 'expired';
+
+export interface Session {
+  token: string;
+  // Epoch ms; null = unknown (never refreshed proactively)
+  expiresAt: number | null;
+}
+
+// POST /auth/login and /auth/refresh response
+interface TokenResponse {
+  token: string;
+  expiresAt?: number;
+  // Seconds from now
+  expiresIn?: number;
+}
+
+type SessionListener = (status: SessionStatus, session: Session | null) => void;
+
+const STORAGE_KEY = 'jhandi-munda:session';
+
+// ============================================
+// SESSION STORE
+// ============================================
+let session: Session | null = null;
+let status: SessionStatus = 'anonymous';
+let refreshTimeout: number | null = null;
+let refreshInFlight: Promise<boolean> | null = null;
+const listeners = new Set<SessionListener>();
+
+export function getSession(): Session | null {
+  return session;
+}
+
+export function getSessionStatus(): SessionStatus {
+  return status;
+}
+
+export function getAuthToken(): string | null {
+  return status === 'authenticated' ? session?.token ?? null : null;
+}
+
+export function onSessionChange(listener: SessionListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function setStatus(next: SessionStatus): void {
+  status = next;
+  listeners.forEach((listener) => listener(status, session));
+}
+
+/**
+ * Expiry from an explicit value, or from the `exp` claim when the token is a JWT.
+ */
+function resolveExpiry(token: string, expiresAt?: number, expiresIn?: number): number | null {
+  if (typeof expiresAt === 'number' && Number.isFinite(expiresAt)) return expiresAt;
+  if (typeof expiresIn === 'number' && Number.isFinite(expiresIn)) return Date.now() + expiresIn * 1000;
+
+  const payload = token.split('.')[1];
+  if (!payload) return null;
+  try {
+    const claims = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof claims.exp === 'number' ? claims.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+export function setSession(token: string, expiresAt?: number, expiresIn?: number): void {
+  const expiry = resolveExpiry(token, expiresAt, expiresIn);
+  if (expiry !== null && expiry <= Date.now()) {
+    console.warn('[Auth] Ignoring token that has already expired');
+    return;
+  }
+
+  session = { token, expiresAt: expiry };
+  try {
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+  } catch (err) {
+    console.error('[Auth] Failed to persist session', err);
+  }
+  scheduleRefresh();
+  console.log(`[Auth] Session set${expiry ? `, expires ${new Date(expiry).toISOString()}` : ''}`);
+  setStatus('authenticated');
+}
+
+export function clearSession(): void {
+  session = null;
+  cancelRefresh();
+  sessionStorage.removeItem(STORAGE_KEY);
+  setStatus('anonymous');
+}
+
+/**
+ * Mark the session as expired (refresh failed or the backend refused it).
+ */
+export function expireSession(): void {
+  if (status === 'expired') return;
+  console.warn('[Auth] Session expired');
+  session = null;
+  cancelRefresh();
+  sessionStorage.removeItem(STORAGE_KEY);
+  setStatus('expired');
+}
+
+// ============================================
+// REFRESH
+// ============================================
+function cancelRefresh(): void {
+  if (refreshTimeout !== null) {
+    clearTimeout(refreshTimeout);
+    refreshTimeout = null;
+  }
+}
+
+// Longest delay setTimeout supports (~24.8 days); longer ones fire at once
+const MAX_TIMEOUT_MS = 0x7fffffff;
+
+function scheduleRefresh(): void {
+  cancelRefresh();
+  if (!session?.expiresAt) return;
+
+  const delay = Math.max(0, session.expiresAt - Date.now() - GameConfig.auth.refreshLeadMs);
+  refreshTimeout = window.setTimeout(() => {
+    refreshTimeout = null;
+    // A long-lived token outlasts one timer: wait again until it is due
+    if (delay > MAX_TIMEOUT_MS) {
+      scheduleRefresh();
+      return;
+    }
+    refreshSession();
+  }, Math.min(delay, MAX_TIMEOUT_MS));
+}
+
+async function requestToken(path: string, init: RequestInit): Promise<TokenResponse> {
+  // Plain fetch: these calls must not go through the 401 handling in apiFetch
+  const res = await fetch(`${GameConfig.backendUrl}${path}`, init);
+  if (!res.ok) throw new Error(`${path} failed: ${res.status}`);
+  const data: TokenResponse = await res.json();
+  if (typeof data?.token !== 'string' || data.token === '') throw new Error(`${path} returned no token`);
+  return data;
+}
+
+/**
+ * Exchange the current token for a fresh one. Concurrent callers share one
+ * request. Resolves false (and expires the session) when the refresh fails.
+ */
+export function refreshSession(): Promise<boolean> {
+  if (refreshInFlight) return refreshInFlight;
+  const current = session;
+  if (!current) return Promise.resolve(false);
+
+  refreshInFlight = requestToken('/auth/refresh', {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${current.token}` },
+  })
+    .then((data) => {
+      setSession(data.token, data.expiresAt, data.expiresIn);
+      return true;
+    })
+    .catch((err) => {
+      console.error('[Auth] Token refresh failed', err);
+      expireSession();
+      return false;
+    })
+    .finally(() => {
+      refreshInFlight = null;
+    });
+  return refreshInFlight;
+}
+
+export async function login(username: string, password: string, chatId: number | null = GameConfig.chatId): Promise<void> {
+  const data = await requestToken('/auth/login', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username, password, chatId }),
+  });
+  setSession(data.token, data.expiresAt, data.expiresIn);
+}
+
+// ============================================
+// TOKEN SOURCES
+// ============================================
+
+/**
+ * Read a token from the URL fragment and strip it so it is not bookmarked or
+ * shared. Falls back to the session persisted for this tab.
+ */
+function restoreSession(): void {
+  const fragment = new URLSearchParams(window.location.hash.slice(1));
+  const token = fragment.get('token') || fragment.get('access_token');
+  if (token) {
+    const expiresIn = Number(fragment.get('expiresIn') || fragment.get('expires_in')) || undefined;
+    ['token', 'access_token', 'expiresIn', 'expires_in'].forEach((key) => fragment.delete(key));
+    const url = new URL(window.location.href);
+    url.hash = fragment.toString();
+    window.history.replaceState(null, '', url);
+    setSession(token, undefined, expiresIn);
+    return;
+  }
+
+  try {
+    const raw = sessionStorage.getItem(STORAGE_KEY);
+    if (!raw) return;
+    const stored: Session = JSON.parse(raw);
+    if (typeof stored?.token === 'string') {
+      setSession(stored.token, stored.expiresAt ?? undefined);
+    }
+  } catch (err) {
+    console.error('[Auth] Failed to restore session', err);
+  }
+}
+
+/**
+ * Restore a saved session. Returns a function that stops the token refresh
+ * timer (the session itself stays in this tab's storage).
+ */
+export function initAuth(): () => void {
+  restoreSession();
+  return cancelRefresh;
+}
+
+// ============================================
+// LOGIN FORM
+// ============================================
+
+/**
+ * Sign-in form in `loginPanel` (each game has its own, signing in to the
+ * shared session). Returns a function that stops following the session.
+ */
+export function initLoginForm(loginPanel: HTMLElement, getChatId: () => number | null): () => void {
+  let releaseFocus: (() => void) | null = null;
+  loginPanel.innerHTML = '';
+
+  const form = document.createElement('form');
+  form.className = 'login-form';
+
+  const heading = document.createElement('h2');
+  heading.className = 'login-title';
+  // Unique per game: the panel's id carries its game's prefix
+  heading.id = `${loginPanel.id}-title`;
+  localize(heading, 'auth.title');
+
+  const message = document.createElement('p');
+  message.className = 'login-message';
+
+  const username = document.createElement('input');
+  username.name = 'username';
+  localizeAttribute(username, 'placeholder', 'auth.username');
+  username.autocomplete = 'username';
+  username.required = true;
+
+  const password = document.createElement('input');
+  password.name = 'password';
+  password.type = 'password';
+  localizeAttribute(password, 'placeholder', 'auth.password');
+  password.autocomplete = 'current-password';
+  password.required = true;
+
+  const submit = document.createElement('button');
+  submit.type = 'submit';
+  submit.className = 'login-submit';
+  localize(submit, 'auth.submit');
+
+  form.addEventListener('submit', async (event) => {
+    event.preventDefault();
+    submit.disabled = true;
+    setPlainText(message, '');
+    try {
+      await login(username.value, password.value, getChatId());
+      password.value = '';
+    } catch (err) {
+      console.error('[Auth] Login failed', err);
+      localize(message, 'auth.failed');
+    } finally {
+      submit.disabled = false;
+    }
+  });
+
+  form.append(heading, message, username, password, submit);
+  loginPanel.appendChild(form);
+  loginPanel.setAttribute('role', 'dialog');
+  loginPanel.setAttribute('aria-modal', 'true');
+  loginPanel.setAttribute('aria-labelledby', heading.id);
+  message.setAttribute('role', 'alert');
+
+  function renderLoginForm(): void {
+    const needsLogin = status === 'expired' || (GameConfig.auth.required && status === 'anonymous');
+    loginPanel.classList.toggle('hidden', !needsLogin);
+
+    // Keyboard users land in the form and cannot tab out behind it
+    if (needsLogin && !releaseFocus) {
+      releaseFocus = trapFocus(loginPanel);
+    } else if (!needsLogin && releaseFocus) {
+      releaseFocus();
+      releaseFocus = null;
+    }
+  }
+
+  const stopSessionSync = onSessionChange((next) => {
+    if (next === 'expired') localize(message, 'auth.expired');
+    else setPlainText(message, '');
+    renderLoginForm();
+  });
+  renderLoginForm();
+
+  return () => {
+    stopSessionSync();
+    releaseFocus?.();
+    releaseFocus = null;
+  };
+}
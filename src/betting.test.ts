@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { calculatePayout } from './betting';
+import { VARIANTS } from './variants';
+
+describe('calculatePayout', () => {
+  // stake 10 on the spade (1); [variant, dice, matches, returned]
+  it.each([
+    ['jhandi-munda', [2, 3, 4, 5, 6, 2], 0, 0],
+    ['jhandi-munda', [1, 2, 3, 4, 5, 6], 1, 0],
+    ['jhandi-munda', [1, 1, 3, 4, 5, 6], 2, 30],
+    ['jhandi-munda', [1, 1, 1, 1, 1, 1], 6, 70],
+    ['crown-anchor', [2, 3, 4], 0, 0],
+    ['crown-anchor', [1, 3, 4], 1, 20],
+    ['crown-anchor', [1, 1, 1], 3, 40],
+    ['sic-bo-2', [5, 6], 0, 0],
+    ['sic-bo-2', [1, 6], 1, 20],
+    ['sic-bo-2', [1, 1], 2, 30],
+  ])('%s: %j pays %i matches as %i', (id, dice, matches, returned) => {
+    const { lines } = calculatePayout({ 1: 10 }, dice, VARIANTS[id].payout);
+    expect(lines).toEqual([{ value: 1, stake: 10, matches, returned, net: returned - 10 }]);
+  });
+
+  it('totals several stakes, sorted by symbol, and skips empty ones', () => {
+    const breakdown = calculatePayout({ 6: 5, 3: 20, 2: 0, 4: 10 }, [3, 3, 3, 6, 6, 1], VARIANTS['jhandi-munda'].payout);
+    expect(breakdown.lines.map(({ value, returned }) => [value, returned])).toEqual([
+      [3, 80],
+      [4, 0],
+      [6, 15],
+    ]);
+    expect(breakdown).toMatchObject({ totalStake: 35, totalReturned: 95, net: 60 });
+  });
+
+  it('returns an empty breakdown without stakes', () => {
+    expect(calculatePayout({}, [1, 2, 3, 4, 5, 6], VARIANTS['jhandi-munda'].payout)).toEqual({
+      lines: [],
+      totalStake: 0,
+      totalReturned: 0,
+      net: 0,
+    });
+  });
+});
@@ -0,0 +1,379 @@
+import { GameConfig, symbols } from './config';
+import { formatNumber, localize, localizeAttribute, onLocaleChange, setPlainText, symbolMessage, t } from './i18n';
+import { setFaceImage, type ThemeManifest } from './theme';
+import { apiFetch } from './transport';
+import { getTableVariant, type PayoutRule } from './variants';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+// Stake per symbol value (1-6)
+export type Stakes = Record<number, number>;
+
+export interface BetRequest {
+  chatId: number | null;
+  // Null while the round is only scheduled; the backend resolves it from chatId + startAt
+  roundId: string | null;
+  startAt: number;
+  stakes: Stakes;
+}
+
+export interface BetReceipt {
+  betId: string;
+  accepted: boolean;
+  message?: string;
+}
+
+/**
+ * Backend bet submission. Swap implementations with setBetClient()
+ * (e.g. to point the board at a local mock server).
+ */
+export interface BetClient {
+  placeBets(request: BetRequest): Promise<BetReceipt>;
+}
+
+export interface SymbolPayout {
+  value: number;
+  stake: number;
+  matches: number;
+  // Amount returned to the player (stake + winnings), 0 on a loss
+  returned: number;
+  net: number;
+}
+
+export interface PayoutBreakdown {
+  lines: SymbolPayout[];
+  totalStake: number;
+  totalReturned: number;
+  net: number;
+}
+
+interface BettingWindow {
+  roundId: string | null;
+  startAt: number;
+  endAt: number;
+}
+
+interface BettingBoardOptions {
+  container: HTMLElement;
+  getServerTime: () => number;
+  // Table the bets are for (its variant's payout rule settles them)
+  getChatId: () => number | null;
+  getTheme: () => ThemeManifest;
+}
+
+export interface BettingBoard {
+  // Open (or keep open) the board for a round window
+  open: (roundWindow: BettingWindow) => void;
+  lock: () => void;
+  // Settle the placed stakes against the revealed dice; null when nothing was placed
+  settle: (diceValues: number[]) => PayoutBreakdown | null;
+  close: () => void;
+  // Close betting and stop following language changes (see unmount in main.ts)
+  dispose: () => void;
+}
+
+// ============================================
+// PAYOUT CALCULATION
+// ============================================
+
+/**
+ * Symbol-count payout: a symbol wins when it shows on at least
+ * `rule.minMatches` dice and pays stake x match count, with the stake
+ * returned on top (classic Jhandi Munda needs two matches).
+ */
+export function calculatePayout(stakes: Stakes, diceValues: number[], rule: PayoutRule): PayoutBreakdown {
+  const lines: SymbolPayout[] = [];
+  let totalStake = 0;
+  let totalReturned = 0;
+
+  Object.entries(stakes).forEach(([key, stake]) => {
+    if (!(stake > 0)) return;
+    const value = Number(key);
+    const matches = diceValues.filter((v) => v === value).length;
+    const returned = matches >= rule.minMatches ? stake + stake * matches : 0;
+
+    lines.push({ value, stake, matches, returned, net: returned - stake });
+    totalStake += stake;
+    totalReturned += returned;
+  });
+
+  lines.sort((a, b) => a.value - b.value);
+  return { lines, totalStake, totalReturned, net: totalReturned - totalStake };
+}
+
+// ============================================
+// BET CLIENT
+// ============================================
+
+export function createHttpBetClient(baseUrl: string): BetClient {
+  return {
+    async placeBets(request: BetRequest): Promise<BetReceipt> {
+      const res = await apiFetch(`${baseUrl}/bets`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+      });
+      if (!res.ok) throw new Error(`Bet submission failed: ${res.status}`);
+      return res.json();
+    },
+  };
+}
+
+let betClient: BetClient = createHttpBetClient(GameConfig.betting.apiUrl);
+
+export function setBetClient(client: BetClient): void {
+  betClient = client;
+}
+
+// ============================================
+// BETTING BOARD
+// ============================================
+
+/**
+ * Build a betting board in `options.container`; each game has its own.
+ */
+export function createBettingBoard(options: BettingBoardOptions): BettingBoard {
+  const { container: board, getServerTime, getChatId } = options;
+  const symbolButtons: Map<number, HTMLButtonElement> = new Map();
+  const chipButtons: HTMLButtonElement[] = [];
+
+  let bettingState: 'closed' | 'open' | 'submitting' | 'placed' | 'locked' = 'closed';
+  let currentWindow: BettingWindow | null = null;
+  let selectedChip = GameConfig.betting.chips[0];
+  let draftStakes: Stakes = {};
+  let placedStakes: Stakes = {};
+  let lockTimeout: number | null = null;
+
+  board.innerHTML = '';
+
+  const grid = document.createElement('div');
+  grid.className = 'bet-grid';
+  Object.keys(symbols).forEach((key) => {
+    const value = Number(key);
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = 'bet-symbol';
+    button.addEventListener('click', () => addStake(value));
+
+    const img = document.createElement('img');
+    setFaceImage(img, value, options.getTheme());
+    const name = symbolMessage(value);
+    localizeAttribute(img, 'alt', name.key, name.params);
+    button.appendChild(img);
+
+    const stake = document.createElement('span');
+    stake.className = 'bet-symbol-stake';
+    button.appendChild(stake);
+
+    grid.appendChild(button);
+    symbolButtons.set(value, button);
+  });
+
+  const controls = document.createElement('div');
+  controls.className = 'bet-controls';
+  GameConfig.betting.chips.forEach((amount) => {
+    const chip = document.createElement('button');
+    chip.type = 'button';
+    chip.className = 'bet-chip';
+    chip.textContent = formatNumber(amount);
+    chip.addEventListener('click', () => {
+      selectedChip = amount;
+      render();
+    });
+    controls.appendChild(chip);
+    chipButtons.push(chip);
+  });
+
+  const clearButton = document.createElement('button');
+  clearButton.type = 'button';
+  clearButton.className = 'bet-action bet-clear';
+  localize(clearButton, 'bet.clear');
+  clearButton.addEventListener('click', () => {
+    draftStakes = {};
+    render();
+  });
+  controls.appendChild(clearButton);
+
+  const placeButton = document.createElement('button');
+  placeButton.type = 'button';
+  placeButton.className = 'bet-action bet-place';
+  localize(placeButton, 'bet.place');
+  placeButton.addEventListener('click', () => {
+    submitBets();
+  });
+  controls.appendChild(placeButton);
+
+  const boardStatus = document.createElement('p');
+  boardStatus.className = 'bet-status';
+
+  board.append(grid, controls, boardStatus);
+
+  /**
+   * Stakes survive the round.scheduled -> round.started transition of the
+   * same window.
+   */
+  function openBetting(roundWindow: BettingWindow): void {
+    const isSameWindow = currentWindow !== null && currentWindow.startAt === roundWindow.startAt;
+    if (!isSameWindow) {
+      draftStakes = {};
+      placedStakes = {};
+      bettingState = 'open';
+    } else if (bettingState === 'closed' || bettingState === 'locked') {
+      bettingState = Object.keys(placedStakes).length > 0 ? 'placed' : 'open';
+    }
+    currentWindow = roundWindow;
+
+    if (getServerTime() >= roundWindow.endAt) {
+      lockBetting();
+      return;
+    }
+    scheduleLock(roundWindow.endAt);
+    render();
+  }
+
+  function lockBetting(): void {
+    clearLockTimeout();
+    if (bettingState === 'closed') return;
+    bettingState = 'locked';
+    render();
+  }
+
+  // By the table's payout rule
+  function settleBets(diceValues: number[]): PayoutBreakdown | null {
+    const rule = getTableVariant(getChatId()).payout;
+    const breakdown = Object.keys(placedStakes).length > 0 ? calculatePayout(placedStakes, diceValues, rule) : null;
+    closeBetting();
+    return breakdown;
+  }
+
+  function closeBetting(): void {
+    clearLockTimeout();
+    bettingState = 'closed';
+    currentWindow = null;
+    draftStakes = {};
+    placedStakes = {};
+    render();
+  }
+
+  function addStake(value: number): void {
+    if (bettingState !== 'open') return;
+    const next = (draftStakes[value] || 0) + selectedChip;
+    if (next > GameConfig.betting.maxStakePerSymbol) return;
+    draftStakes = { ...draftStakes, [value]: next };
+    render();
+  }
+
+  async function submitBets(): Promise<void> {
+    if (bettingState !== 'open' || !currentWindow) return;
+    if (Object.keys(draftStakes).length === 0) return;
+
+    const request: BetRequest = {
+      chatId: getChatId(),
+      roundId: currentWindow.roundId,
+      startAt: currentWindow.startAt,
+      stakes: draftStakes,
+    };
+    const submittedWindow = currentWindow;
+    bettingState = 'submitting';
+    render();
+
+    try {
+      const receipt = await betClient.placeBets(request);
+      // Round moved on while the request was in flight
+      if (currentWindow?.startAt !== submittedWindow.startAt) return;
+      if (!receipt.accepted) {
+        console.warn('[Betting] Bets rejected:', receipt.message);
+        bettingState = getServerTime() < submittedWindow.endAt ? 'open' : 'locked';
+        render(receipt.message || t('bet.rejected'));
+        return;
+      }
+      console.log(`[Betting] Bets placed: ${receipt.betId}`);
+      placedStakes = request.stakes;
+      draftStakes = {};
+      bettingState = getServerTime() < submittedWindow.endAt ? 'placed' : 'locked';
+      render();
+    } catch (err) {
+      console.error('[Betting] Failed to place bets', err);
+      if (currentWindow?.startAt !== submittedWindow.startAt) return;
+      bettingState = getServerTime() < submittedWindow.endAt ? 'open' : 'locked';
+      render(t('bet.failed'));
+    }
+  }
+
+  function scheduleLock(endAt: number): void {
+    clearLockTimeout();
+    lockTimeout = window.setTimeout(() => {
+      lockTimeout = null;
+      lockBetting();
+    }, Math.max(0, endAt - getServerTime()));
+  }
+
+  function clearLockTimeout(): void {
+    if (lockTimeout !== null) {
+      clearTimeout(lockTimeout);
+      lockTimeout = null;
+    }
+  }
+
+  function render(errorMessage?: string): void {
+    board.classList.toggle('hidden', bettingState === 'closed');
+    board.classList.toggle('locked', bettingState !== 'open');
+
+    const shownStakes = bettingState === 'open' ? draftStakes : placedStakes;
+    symbolButtons.forEach((button, value) => {
+      const stake = shownStakes[value] || 0;
+      button.disabled = bettingState !== 'open';
+      button.classList.toggle('has-stake', stake > 0);
+    });
+    renderAmounts();
+
+    chipButtons.forEach((chip, i) => {
+      chip.classList.toggle('selected', GameConfig.betting.chips[i] === selectedChip);
+      chip.disabled = bettingState !== 'open';
+    });
+
+    const hasDraft = Object.keys(draftStakes).length > 0;
+    placeButton.disabled = bettingState !== 'open' || !hasDraft;
+    clearButton.disabled = bettingState !== 'open' || !hasDraft;
+
+    if (errorMessage) {
+      setPlainText(boardStatus, errorMessage);
+    } else if (bettingState === 'submitting') {
+      localize(boardStatus, 'bet.placing');
+    } else if (bettingState === 'placed') {
+      localize(boardStatus, 'bet.placed');
+    } else if (bettingState === 'locked') {
+      localize(boardStatus, 'bet.closed');
+    } else {
+      localize(boardStatus, 'bet.prompt');
+    }
+  }
+
+  // Chip and stake amounts in the current locale's digits
+  function renderAmounts(): void {
+    const shownStakes = bettingState === 'open' ? draftStakes : placedStakes;
+    symbolButtons.forEach((button, value) => {
+      const stake = shownStakes[value] || 0;
+      button.querySelector('.bet-symbol-stake')!.textContent = stake > 0 ? formatNumber(stake) : '';
+    });
+    chipButtons.forEach((chip, i) => {
+      chip.textContent = formatNumber(GameConfig.betting.chips[i]);
+    });
+  }
+
+  render();
+  const stopLocaleSync = onLocaleChange(renderAmounts);
+
+  return {
+    open: openBetting,
+    lock: lockBetting,
+    settle: settleBets,
+    close: closeBetting,
+    dispose: () => {
+      stopLocaleSync();
+      closeBetting();
+    },
+  };
+}
@@ -0,0 +1,312 @@
+import * as THREE from 'three';
+
+/**
+ * Camera Rig
+ * Places the camera on a sphere around a target point. The home pose frames
+ * the whole table (see updateCameraPosition in main.ts); players can orbit it
+ * by dragging and zoom by pinching or scrolling, within limits, and double-tap
+ * a die to fly in on it (again to fly back). A roll plays a short camera swing
+ * and the result brings the camera home. Moves ease over time and keep the
+ * render loop running only while they last.
+ */
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+export interface CameraPose {
+  target: THREE.Vector3;
+  distance: number;
+  // Sideways angle around the target (radians, 0 = straight on)
+  azimuth: number;
+  // Angle above the table's front (radians, 0 = straight on)
+  elevation: number;
+}
+
+export interface CameraRigOptions {
+  camera: THREE.PerspectiveCamera;
+  // Objects a double tap can focus (the dice)
+  getFocusTargets: () => THREE.Object3D[];
+  // Render every frame until the returned function is called (see renderLoop.ts)
+  hold: () => () => void;
+  invalidate: () => void;
+  // Animation speed factor (replays can run slower or faster)
+  getRate: () => number;
+  // Skip the roll swing and make moves instant
+  reducedMotion: () => boolean;
+}
+
+export interface CameraRig {
+  // Framing that shows the whole table; followed at once unless the player moved away
+  setHomeDistance: (distance: number) => void;
+  getHomeDistance: () => number;
+  isHome: () => boolean;
+  returnHome: () => void;
+  // Camera swing over a roll of `durationMs` (at rate 1)
+  playRollPath: (durationMs: number) => void;
+  // Handle pointer input on `element`; returns a function that stops
+  attach: (element: HTMLElement, accepts: (target: EventTarget | null) => boolean) => () => void;
+  // Stop any move in progress
+  stop: () => void;
+}
+
+const MAX_AZIMUTH = THREE.MathUtils.degToRad(35);
+const MAX_ELEVATION = THREE.MathUtils.degToRad(30);
+// Radians per screen width dragged
+const ORBIT_SPEED = Math.PI * 0.6;
+// Zoom limits: closest (a die's focus distance) and furthest (relative to home)
+const MIN_DISTANCE = 5;
+const MAX_DISTANCE_FACTOR = 1.3;
+const FOCUS_DISTANCE = 6;
+const MOVE_MS = 600;
+// Roll swing: sideways and upwards at its peak, and how much closer it comes
+const ROLL_AZIMUTH = THREE.MathUtils.degToRad(18);
+const ROLL_ELEVATION = THREE.MathUtils.degToRad(14);
+const ROLL_DOLLY = 0.15;
+// A tap moves less than this (px); two within DOUBLE_TAP_MS make a double tap
+const TAP_SLOP = 10;
+const DOUBLE_TAP_MS = 300;
+
+function easeInOutCubic(t: number): number {
+  return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+}
+
+// ============================================
+// CAMERA RIG
+// ============================================
+export function createCameraRig(options: CameraRigOptions): CameraRig {
+  const { camera, getFocusTargets, hold, invalidate, getRate, reducedMotion } = options;
+
+  let homeDistance = camera.position.length() || 1;
+  const pose: CameraPose = { target: new THREE.Vector3(), distance: homeDistance, azimuth: 0, elevation: 0 };
+  // The player (or a focus) moved the camera off its home framing
+  let away = false;
+  let moveGeneration = 0;
+  let release: (() => void) | null = null;
+
+  const raycaster = new THREE.Raycaster();
+  const offset = new THREE.Vector3();
+
+  function apply(): void {
+    const { target, distance, azimuth, elevation } = pose;
+    offset.set(
+      distance * Math.sin(azimuth) * Math.cos(elevation),
+      distance * Math.sin(elevation),
+      distance * Math.cos(azimuth) * Math.cos(elevation)
+    );
+    camera.position.copy(target).add(offset);
+    camera.lookAt(target);
+    invalidate();
+  }
+
+  function clampPose(): void {
+    pose.azimuth = THREE.MathUtils.clamp(pose.azimuth, -MAX_AZIMUTH, MAX_AZIMUTH);
+    pose.elevation = THREE.MathUtils.clamp(pose.elevation, -MAX_ELEVATION, MAX_ELEVATION);
+    pose.distance = THREE.MathUtils.clamp(pose.distance, MIN_DISTANCE, homeDistance * MAX_DISTANCE_FACTOR);
+  }
+
+  function homePose(): CameraPose {
+    return { target: new THREE.Vector3(), distance: homeDistance, azimuth: 0, elevation: 0 };
+  }
+
+  function stop(): void {
+    moveGeneration++;
+    release?.();
+    release = null;
+  }
+
+  /**
+   * Drive the pose over `durationMs` (scaled by the rate): `frame` gets the
+   * progress 0-1 and sets the pose.
+   */
+  function animate(durationMs: number, frame: (progress: number) => void): void {
+    stop();
+    if (reducedMotion() || durationMs <= 0) {
+      frame(1);
+      apply();
+      return;
+    }
+    const generation = moveGeneration;
+    release = hold();
+    let elapsed = 0;
+    let lastTime = performance.now();
+    function step(currentTime: number): void {
+      if (generation !== moveGeneration) return;
+      elapsed = Math.min(elapsed + (currentTime - lastTime) * getRate(), durationMs);
+      lastTime = currentTime;
+      frame(elapsed / durationMs);
+      apply();
+      if (elapsed < durationMs) {
+        requestAnimationFrame(step);
+      } else {
+        release?.();
+        release = null;
+      }
+    }
+    requestAnimationFrame(step);
+  }
+
+  function moveTo(next: CameraPose): void {
+    const from: CameraPose = { ...pose, target: pose.target.clone() };
+    animate(MOVE_MS, (progress) => {
+      const t = easeInOutCubic(progress);
+      pose.target.lerpVectors(from.target, next.target, t);
+      pose.distance = THREE.MathUtils.lerp(from.distance, next.distance, t);
+      pose.azimuth = THREE.MathUtils.lerp(from.azimuth, next.azimuth, t);
+      pose.elevation = THREE.MathUtils.lerp(from.elevation, next.elevation, t);
+    });
+  }
+
+  function returnHome(): void {
+    if (!away && !release) return;
+    away = false;
+    moveTo(homePose());
+  }
+
+  // Fly in on the die under a screen point, or home if already in close
+  function focusAt(clientX: number, clientY: number, element: HTMLElement): void {
+    if (away) {
+      returnHome();
+      return;
+    }
+    const rect = element.getBoundingClientRect();
+    const pointer = new THREE.Vector2(
+      ((clientX - rect.left) / rect.width) * 2 - 1,
+      -((clientY - rect.top) / rect.height) * 2 + 1
+    );
+    raycaster.setFromCamera(pointer, camera);
+    const [hit] = raycaster.intersectObjects(getFocusTargets(), false);
+    if (!hit) return;
+    away = true;
+    moveTo({ target: hit.object.getWorldPosition(new THREE.Vector3()), distance: FOCUS_DISTANCE, azimuth: 0, elevation: 0 });
+  }
+
+  function playRollPath(durationMs: number): void {
+    // The player is looking at something; leave the camera with them
+    if (away || reducedMotion()) return;
+    const side = Math.random() < 0.5 ? -1 : 1;
+    animate(durationMs, (progress) => {
+      const swing = Math.sin(progress * Math.PI);
+      pose.target.set(0, 0, 0);
+      pose.azimuth = side * ROLL_AZIMUTH * swing;
+      pose.elevation = ROLL_ELEVATION * swing;
+      pose.distance = homeDistance * (1 - ROLL_DOLLY * swing);
+    });
+  }
+
+  function setHomeDistance(distance: number): void {
+    homeDistance = distance;
+    if (away) {
+      clampPose();
+    } else if (!release) {
+      Object.assign(pose, homePose());
+    }
+    apply();
+  }
+
+  function attach(element: HTMLElement, accepts: (target: EventTarget | null) => boolean): () => void {
+    const pointers = new Map<number, { x: number; y: number }>();
+    let downAt: { x: number; y: number } | null = null;
+    let lastTap: { time: number; x: number; y: number } | null = null;
+    let pinchDistance: number | null = null;
+
+    const spread = () => {
+      const [a, b] = [...pointers.values()];
+      return Math.hypot(a.x - b.x, a.y - b.y);
+    };
+
+    const takeControl = () => {
+      stop();
+      away = true;
+    };
+
+    const onPointerDown = (event: PointerEvent) => {
+      if (!accepts(event.target)) return;
+      pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+      if (pointers.size === 1) downAt = { x: event.clientX, y: event.clientY };
+      if (pointers.size === 2) {
+        pinchDistance = spread();
+        downAt = null;
+      }
+    };
+
+    const onPointerMove = (event: PointerEvent) => {
+      const previous = pointers.get(event.pointerId);
+      if (!previous) return;
+      const current = { x: event.clientX, y: event.clientY };
+      pointers.set(event.pointerId, current);
+
+      if (pointers.size === 2 && pinchDistance) {
+        const next = spread();
+        if (next > 0) {
+          takeControl();
+          pose.distance *= pinchDistance / next;
+          pinchDistance = next;
+          clampPose();
+          apply();
+        }
+        return;
+      }
+      if (pointers.size !== 1) return;
+      // Small jitter stays a tap
+      if (downAt && Math.hypot(current.x - downAt.x, current.y - downAt.y) < TAP_SLOP) return;
+      downAt = null;
+      takeControl();
+      pose.azimuth -= ((current.x - previous.x) / element.clientWidth) * ORBIT_SPEED;
+      pose.elevation += ((current.y - previous.y) / element.clientWidth) * ORBIT_SPEED;
+      clampPose();
+      apply();
+    };
+
+    const onPointerUp = (event: PointerEvent) => {
+      if (!pointers.delete(event.pointerId)) return;
+      if (pointers.size < 2) pinchDistance = null;
+      if (!downAt || pointers.size > 0 || event.type === 'pointercancel') return;
+
+      const now = performance.now();
+      const isDoubleTap =
+        lastTap !== null &&
+        now - lastTap.time < DOUBLE_TAP_MS &&
+        Math.hypot(event.clientX - lastTap.x, event.clientY - lastTap.y) < TAP_SLOP * 3;
+      if (isDoubleTap) {
+        lastTap = null;
+        focusAt(event.clientX, event.clientY, element);
+      } else {
+        lastTap = { time: now, x: event.clientX, y: event.clientY };
+      }
+      downAt = null;
+    };
+
+    const onWheel = (event: WheelEvent) => {
+      if (!accepts(event.target)) return;
+      event.preventDefault();
+      takeControl();
+      pose.distance *= Math.exp(event.deltaY * 0.001);
+      clampPose();
+      apply();
+    };
+
+    element.addEventListener('pointerdown', onPointerDown);
+    window.addEventListener('pointermove', onPointerMove);
+    window.addEventListener('pointerup', onPointerUp);
+    window.addEventListener('pointercancel', onPointerUp);
+    element.addEventListener('wheel', onWheel, { passive: false });
+
+    return () => {
+      element.removeEventListener('pointerdown', onPointerDown);
+      window.removeEventListener('pointermove', onPointerMove);
+      window.removeEventListener('pointerup', onPointerUp);
+      window.removeEventListener('pointercancel', onPointerUp);
+      element.removeEventListener('wheel', onWheel);
+    };
+  }
+
+  return {
+    setHomeDistance,
+    getHomeDistance: () => homeDistance,
+    isHome: () => !away,
+    returnHome,
+    playRollPath,
+    attach,
+    stop,
+  };
+}
@@ -0,0 +1,158 @@
+import { GameConfig } from './config';
+import { getIntlTag, onLocaleChange } from './i18n';
+
+/**
+ * Table Clock
+ * Wall clock in the table's time zone. It runs on the synced server time, so
+ * a device with a wrong clock still shows the right time.
+ */
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+export interface ClockOptions {
+  // IANA time zone, e.g. 'Asia/Thimphu'
+  timeZone: string;
+  showSeconds: boolean;
+  showDate: boolean;
+  // Short zone name (e.g. 'GMT+6') under the time
+  showTimeZone: boolean;
+  hour12: boolean;
+}
+
+export interface TableClockOptions {
+  getServerTime: () => number;
+  // Table whose time zone is shown
+  getChatId: () => number | null;
+}
+
+export interface TableClock {
+  // Rebuild the formatter after the table, locale or clock options change
+  refresh: () => void;
+  stop: () => void;
+}
+
+export interface ClockReading {
+  time: string;
+  date: string | null;
+  zone: string | null;
+}
+
+const FALLBACK_TIME_ZONE = 'UTC';
+
+// ============================================
+// TIME ZONES
+// ============================================
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Zone for a table: ?tz= in the URL, then the table's entry in
+ * VITE_TABLE_TIMEZONES, then the deployment default.
+ */
+export function getTableTimeZone(chatId: number | null): string {
+  const { timeZoneOverride, tableTimeZones, timeZone } = GameConfig.clock;
+  const candidate = timeZoneOverride ?? (chatId !== null ? tableTimeZones[chatId] : undefined) ?? timeZone;
+  if (isValidTimeZone(candidate)) return candidate;
+  console.warn(`[Clock] Unknown time zone "${candidate}", using ${FALLBACK_TIME_ZONE}`);
+  return FALLBACK_TIME_ZONE;
+}
+
+// ============================================
+// FORMATTING
+// ============================================
+
+/**
+ * Build a formatter for `options` in `locale`. Formatters are comparatively
+ * expensive to create; build once per option change, not per tick.
+ */
+export function createClockFormatter(locale: string, options: ClockOptions): (time: number) => ClockReading {
+  const timeFormat = new Intl.DateTimeFormat(locale, {
+    timeZone: options.timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    second: options.showSeconds ? '2-digit' : undefined,
+    hourCycle: options.hour12 ? 'h12' : 'h23',
+  });
+  const dateFormat = options.showDate
+    ? new Intl.DateTimeFormat(locale, { timeZone: options.timeZone, weekday: 'short', day: 'numeric', month: 'short' })
+    : null;
+  const zoneFormat = options.showTimeZone
+    ? new Intl.DateTimeFormat(locale, { timeZone: options.timeZone, timeZoneName: 'short' })
+    : null;
+
+  return (time) => ({
+    time: timeFormat.format(time),
+    date: dateFormat ? dateFormat.format(time) : null,
+    zone: zoneFormat?.formatToParts(time).find((part) => part.type === 'timeZoneName')?.value ?? null,
+  });
+}
+
+// ============================================
+// CLOCK DISPLAY
+// ============================================
+
+/**
+ * Start a clock in `container` (a game's header). Ticking every second also
+ * picks up offset corrections from time sync.
+ */
+export function createTableClock(container: HTMLElement, options: TableClockOptions): TableClock {
+  const { getServerTime, getChatId } = options;
+  const timeElement = container.querySelector<HTMLElement>('.clock-time')!;
+  const dateElement = document.createElement('div');
+  dateElement.className = 'clock-date';
+  const zoneElement = document.createElement('div');
+  zoneElement.className = 'clock-zone';
+  container.append(dateElement, zoneElement);
+
+  let format: ((time: number) => ClockReading) | null = null;
+  let tickTimeout: number | null = null;
+
+  function getClockOptions(): ClockOptions {
+    const { showSeconds, showDate, showTimeZone, hour12 } = GameConfig.clock;
+    return { timeZone: getTableTimeZone(getChatId()), showSeconds, showDate, showTimeZone, hour12 };
+  }
+
+  function renderClock(): void {
+    if (!format) return;
+    const reading = format(getServerTime());
+    timeElement.textContent = reading.time;
+    dateElement.textContent = reading.date ?? '';
+    dateElement.hidden = reading.date === null;
+    zoneElement.textContent = reading.zone ?? '';
+    zoneElement.hidden = reading.zone === null;
+  }
+
+  // Render, then wake up just after the next second boundary of server time
+  function tick(): void {
+    renderClock();
+    tickTimeout = window.setTimeout(tick, 1000 - (getServerTime() % 1000) + 20);
+  }
+
+  function refresh(): void {
+    const clockOptions = getClockOptions();
+    format = createClockFormatter(getIntlTag(), clockOptions);
+    container.title = clockOptions.timeZone;
+    if (tickTimeout !== null) clearTimeout(tickTimeout);
+    tick();
+  }
+
+  refresh();
+  const stopLocaleSync = onLocaleChange(refresh);
+
+  return {
+    refresh,
+    stop() {
+      stopLocaleSync();
+      if (tickTimeout !== null) clearTimeout(tickTimeout);
+      tickTimeout = null;
+      format = null;
+    },
+  };
+}
@@ -0,0 +1,188 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createClockSync, estimateOffset, pickBestSample, type ClockSyncOptions } from './clockSync';
+
+// The server's clock runs this far ahead of ours
+const TRUE_OFFSET = 2500;
+
+// One-way delays of a request (uplink, downlink) in ms
+type Latency = [number, number];
+
+/**
+ * A simulated network: the local clock only moves when a request travels,
+ * and each sample takes the next latency from the script (the last repeats).
+ * `null` makes that request fail.
+ */
+function createNetwork(script: (Latency | null)[]) {
+  let local = 1_000_000;
+  let requests = 0;
+  const sample = async (): Promise<number> => {
+    const latency = script[Math.min(requests++, script.length - 1)];
+    if (!latency) throw new Error('offline');
+    const [up, down] = latency;
+    local += up;
+    const serverTime = local + TRUE_OFFSET;
+    local += down;
+    return serverTime;
+  };
+  return {
+    options: (extra: Partial<ClockSyncOptions> = {}): ClockSyncOptions => ({ sample, now: () => local, sampleGapMs: 0, ...extra }),
+    advance: (ms: number) => {
+      local += ms;
+    },
+    now: () => local,
+  };
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('estimateOffset', () => {
+  it.each<[string, Latency, number]>([
+    ['symmetric', [40, 40], 0],
+    ['slow uplink', [90, 10], 40],
+    ['slow downlink', [10, 90], -40],
+    ['instant', [0, 0], 0],
+  ])('assumes the midpoint on a %s round trip', (_, [up, down], error) => {
+    const sample = estimateOffset(1000, 1000 + up + TRUE_OFFSET, 1000 + up + down);
+    expect(sample).toEqual({ offsetMs: TRUE_OFFSET + error, roundTripMs: up + down, takenAt: 1000 + up + down });
+    // The error never exceeds half the round trip
+    expect(Math.abs(error)).toBeLessThanOrEqual(sample.roundTripMs / 2);
+  });
+
+  it('treats a clock that went backwards as an instant round trip', () => {
+    expect(estimateOffset(1000, 5000, 990).roundTripMs).toBe(0);
+  });
+});
+
+describe('pickBestSample', () => {
+  it('picks the shortest round trip, the first of equals', () => {
+    const samples = [
+      { offsetMs: 10, roundTripMs: 80, takenAt: 1 },
+      { offsetMs: 20, roundTripMs: 30, takenAt: 2 },
+      { offsetMs: 30, roundTripMs: 30, takenAt: 3 },
+      { offsetMs: 40, roundTripMs: 200, takenAt: 4 },
+    ];
+    expect(pickBestSample(samples)).toBe(samples[1]);
+    expect(pickBestSample([])).toBeNull();
+  });
+});
+
+describe('createClockSync', () => {
+  it('finds the offset exactly over a symmetric link', async () => {
+    const network = createNetwork([[25, 25]]);
+    const clock = createClockSync(network.options());
+    expect(await clock.sync()).toBe(true);
+    expect(clock.getOffset()).toBe(TRUE_OFFSET);
+    expect(clock.getServerTime()).toBe(network.now() + TRUE_OFFSET);
+    expect(clock.getStats()).toMatchObject({ roundTripMs: 50, uncertaintyMs: 25, syncCount: 1 });
+  });
+
+  it('stays within its uncertainty over an asymmetric link', async () => {
+    const network = createNetwork([[120, 20]]);
+    const clock = createClockSync(network.options());
+    await clock.sync();
+    const { offsetMs, uncertaintyMs } = clock.getStats();
+    expect(offsetMs).toBe(TRUE_OFFSET + 50);
+    expect(Math.abs(offsetMs - TRUE_OFFSET)).toBeLessThanOrEqual(uncertaintyMs!);
+  });
+
+  it('keeps the lowest-latency sample of a jittery burst', async () => {
+    const network = createNetwork([
+      [180, 40],
+      [60, 300],
+      [12, 8],
+      [90, 90],
+      [35, 5],
+    ]);
+    const clock = createClockSync(network.options());
+    await clock.sync();
+    // [12, 8]: a 20ms round trip, 2ms off
+    expect(clock.getStats()).toMatchObject({ offsetMs: TRUE_OFFSET + 2, roundTripMs: 20, uncertaintyMs: 10 });
+  });
+
+  it('skips failed samples and reports a burst where all fail', async () => {
+    const network = createNetwork([null, [30, 10], null, null, null, null]);
+    const clock = createClockSync(network.options({ samplesPerSync: 3 }));
+    expect(await clock.sync()).toBe(true);
+    expect(clock.getStats()).toMatchObject({ offsetMs: TRUE_OFFSET + 10, roundTripMs: 40 });
+
+    expect(await clock.sync()).toBe(false);
+    expect(clock.getStats()).toMatchObject({ offsetMs: TRUE_OFFSET + 10, syncCount: 1 });
+  });
+
+  it('shares one burst between overlapping sync calls', async () => {
+    const network = createNetwork([[10, 10]]);
+    const sample = vi.fn(network.options().sample);
+    const clock = createClockSync(network.options({ sample, samplesPerSync: 2 }));
+    const [first, second] = await Promise.all([clock.sync(), clock.sync()]);
+    expect([first, second]).toEqual([true, true]);
+    expect(sample).toHaveBeenCalledTimes(2);
+  });
+
+  it('slews towards a small correction and steps over a large one', async () => {
+    const network = createNetwork([[10, 10], [30, 10], [10, 10]]);
+    const clock = createClockSync(network.options({ samplesPerSync: 1, maxSlewMsPerSec: 100, stepThresholdMs: 1000 }));
+    await clock.sync();
+    expect(clock.getOffset()).toBe(TRUE_OFFSET);
+
+    // The second sample reads 10ms high; the applied offset gets there at 100ms/s
+    await clock.sync();
+    expect(clock.getStats()).toMatchObject({ targetOffsetMs: TRUE_OFFSET + 10 });
+    network.advance(50);
+    expect(clock.getOffset()).toBe(TRUE_OFFSET + 5);
+    network.advance(1000);
+    expect(clock.getOffset()).toBe(TRUE_OFFSET + 10);
+
+    clock.reset();
+    expect(clock.getOffset()).toBe(0);
+    await clock.sync();
+    expect(clock.getOffset()).toBe(TRUE_OFFSET);
+  });
+
+  describe('observe()', () => {
+    it('takes the highest lower bound before the first sync', () => {
+      const network = createNetwork([[10, 10]]);
+      const clock = createClockSync(network.options());
+      // Stamped 200ms ago, then 50ms ago, then 400ms ago
+      clock.observe(network.now() + TRUE_OFFSET - 200);
+      expect(clock.getOffset()).toBe(TRUE_OFFSET - 200);
+      clock.observe(network.now() + TRUE_OFFSET - 50);
+      expect(clock.getOffset()).toBe(TRUE_OFFSET - 50);
+      clock.observe(network.now() + TRUE_OFFSET - 400);
+      expect(clock.getOffset()).toBe(TRUE_OFFSET - 50);
+      expect(clock.getStats()).toMatchObject({ uncertaintyMs: null, syncCount: 0 });
+    });
+
+    it('gives way to the first measurement at once', async () => {
+      const network = createNetwork([[10, 10]]);
+      const clock = createClockSync(network.options());
+      clock.observe(network.now() + TRUE_OFFSET - 300);
+      await clock.sync();
+      expect(clock.getOffset()).toBe(TRUE_OFFSET);
+    });
+
+    it('after a sync, only corrects an estimate that is provably too low', async () => {
+      // The server really runs 100ms further ahead than the skewed burst suggests
+      const network = createNetwork([[0, 200]]);
+      const clock = createClockSync(network.options({ samplesPerSync: 1 }));
+      await clock.sync();
+      expect(clock.getStats()).toMatchObject({ targetOffsetMs: TRUE_OFFSET - 100, uncertaintyMs: 100 });
+
+      // Within the uncertainty: no change
+      clock.observe(network.now() + TRUE_OFFSET - 10);
+      expect(clock.getStats().targetOffsetMs).toBe(TRUE_OFFSET - 100);
+
+      // Ahead of everything the sync allows: slew towards it
+      clock.observe(network.now() + TRUE_OFFSET + 50);
+      expect(clock.getStats().targetOffsetMs).toBe(TRUE_OFFSET + 50);
+      expect(clock.getOffset()).toBe(TRUE_OFFSET - 100);
+    });
+  });
+});
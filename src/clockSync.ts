@@ -0,0 +1,228 @@
+/**
+ * Server Clock Synchronisation
+ * NTP-style offset estimation: each sample measures the round trip to a
+ * server-time endpoint and assumes the server read its clock half way
+ * through. The lowest-latency sample of a burst wins (it has the smallest
+ * error bound), and the applied offset slews towards new estimates instead
+ * of jumping, so running countdowns do not skip.
+ */
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+export interface ClockSyncOptions {
+  // Fetch the server's current time (ms since epoch)
+  sample: () => Promise<number>;
+  // Local clock; injectable for simulation
+  now?: () => number;
+  // Wait between samples in a burst (ms)
+  sampleGapMs?: number;
+  // Samples per sync burst; a function is read before each sample, so an
+  // expensive sample source can cut the burst short
+  samplesPerSync?: number | (() => number);
+  // Fastest the applied offset may move towards a new estimate (ms per second)
+  maxSlewMsPerSec?: number;
+  // Larger corrections are applied at once rather than slewed (ms)
+  stepThresholdMs?: number;
+}
+
+export interface ClockSample {
+  // Estimated server - local offset (ms)
+  offsetMs: number;
+  roundTripMs: number;
+  takenAt: number;
+}
+
+export interface ClockSyncStats {
+  // Offset currently applied by getOffset()
+  offsetMs: number;
+  // Best estimate the applied offset is slewing towards
+  targetOffsetMs: number;
+  // Half the best round trip: the true offset is within ± this (ms)
+  uncertaintyMs: number | null;
+  roundTripMs: number | null;
+  // Local clock drift against the server, from successive syncs (ms per minute)
+  driftMsPerMin: number | null;
+  syncCount: number;
+  lastSyncAt: number | null;
+}
+
+export interface ClockSync {
+  // Run one burst of samples; resolves false when every sample failed
+  sync: () => Promise<boolean>;
+  // Passive sample: a server timestamp seen in an event (latency unknown)
+  observe: (serverNow: number) => void;
+  getOffset: () => number;
+  getServerTime: () => number;
+  getStats: () => ClockSyncStats;
+  reset: () => void;
+}
+
+// Syncs kept for the drift estimate
+const MAX_SYNC_HISTORY = 10;
+
+// ============================================
+// ESTIMATION
+// ============================================
+
+/**
+ * Offset from one request: the server read its clock somewhere between
+ * `sentAt` and `receivedAt`; assume the midpoint.
+ */
+export function estimateOffset(sentAt: number, serverTime: number, receivedAt: number): ClockSample {
+  const roundTripMs = Math.max(0, receivedAt - sentAt);
+  return {
+    offsetMs: serverTime + roundTripMs / 2 - receivedAt,
+    roundTripMs,
+    takenAt: receivedAt,
+  };
+}
+
+/**
+ * The sample with the shortest round trip has the tightest error bound.
+ */
+export function pickBestSample(samples: ClockSample[]): ClockSample | null {
+  return samples.reduce<ClockSample | null>(
+    (best, sample) => (best === null || sample.roundTripMs < best.roundTripMs ? sample : best),
+    null,
+  );
+}
+
+/**
+ * Least-squares slope of offset over time, in ms per minute.
+ */
+function estimateDrift(history: ClockSample[]): number | null {
+  if (history.length < 2) return null;
+  const meanT = history.reduce((sum, s) => sum + s.takenAt, 0) / history.length;
+  const meanO = history.reduce((sum, s) => sum + s.offsetMs, 0) / history.length;
+  let numerator = 0;
+  let denominator = 0;
+  history.forEach((s) => {
+    numerator += (s.takenAt - meanT) * (s.offsetMs - meanO);
+    denominator += (s.takenAt - meanT) ** 2;
+  });
+  return denominator > 0 ? (numerator / denominator) * 60000 : null;
+}
+
+// ============================================
+// CLOCK SYNC
+// ============================================
+export function createClockSync(options: ClockSyncOptions): ClockSync {
+  const now = options.now ?? (() => Date.now());
+  const sampleGapMs = options.sampleGapMs ?? 150;
+  const { samplesPerSync = 5 } = options;
+  const burstSize = typeof samplesPerSync === 'function' ? samplesPerSync : () => samplesPerSync;
+  const maxSlewMsPerSec = options.maxSlewMsPerSec ?? 100;
+  const stepThresholdMs = options.stepThresholdMs ?? 1000;
+
+  // Applied offset at `slewFrom`, moving towards `targetOffset`
+  let appliedOffset = 0;
+  let slewFrom = now();
+  let targetOffset = 0;
+  let best: ClockSample | null = null;
+  let history: ClockSample[] = [];
+  let inFlight: Promise<boolean> | null = null;
+  // Highest passive lower bound seen before the first measurement
+  let passiveBound: number | null = null;
+
+  function getOffset(): number {
+    const elapsedSec = Math.max(0, now() - slewFrom) / 1000;
+    const maxStep = elapsedSec * maxSlewMsPerSec;
+    const remaining = targetOffset - appliedOffset;
+    return Math.abs(remaining) <= maxStep ? targetOffset : appliedOffset + Math.sign(remaining) * maxStep;
+  }
+
+  function setTarget(offset: number, step: boolean): void {
+    // Freeze the slew at its current position before changing course
+    appliedOffset = getOffset();
+    slewFrom = now();
+    targetOffset = offset;
+    if (step || Math.abs(offset - appliedOffset) > stepThresholdMs) {
+      appliedOffset = offset;
+    }
+  }
+
+  async function takeSample(): Promise<ClockSample | null> {
+    const sentAt = now();
+    try {
+      const serverTime = await options.sample();
+      return estimateOffset(sentAt, serverTime, now());
+    } catch (err) {
+      console.warn('[TimeSync] Sample failed', err);
+      return null;
+    }
+  }
+
+  async function runBurst(): Promise<boolean> {
+    const samples: ClockSample[] = [];
+    for (let i = 0; i < burstSize(); i++) {
+      if (i > 0) await new Promise((resolve) => setTimeout(resolve, sampleGapMs));
+      const sample = await takeSample();
+      if (sample) samples.push(sample);
+    }
+
+    const burstBest = pickBestSample(samples);
+    if (!burstBest) return false;
+
+    // The first measurement replaces the passive guess outright
+    setTarget(burstBest.offsetMs, best === null);
+    best = burstBest;
+    history = [...history, burstBest].slice(-MAX_SYNC_HISTORY);
+    console.log(
+      `[TimeSync] Offset ${Math.round(burstBest.offsetMs)}ms ±${Math.round(burstBest.roundTripMs / 2)}ms ` +
+        `(best of ${samples.length})`,
+    );
+    return true;
+  }
+
+  return {
+    sync() {
+      // Overlapping bursts would skew each other's round trips
+      if (!inFlight) {
+        inFlight = runBurst().finally(() => {
+          inFlight = null;
+        });
+      }
+      return inFlight;
+    },
+
+    observe(serverNow: number) {
+      // The server stamped this before it travelled to us, so it only proves
+      // the offset is at least serverNow - now. Before any measurement the
+      // highest such bound is the best we have (later, slower events must not
+      // pull it back down); afterwards, it corrects only an estimate that is too low.
+      const lowerBound = serverNow - now();
+      if (best === null) {
+        if (passiveBound === null || lowerBound > passiveBound) {
+          passiveBound = lowerBound;
+          setTarget(lowerBound, true);
+        }
+      } else if (lowerBound > targetOffset + best.roundTripMs / 2) {
+        setTarget(lowerBound, false);
+      }
+    },
+
+    getOffset,
+
+    getServerTime: () => now() + getOffset(),
+
+    getStats: () => ({
+      offsetMs: getOffset(),
+      targetOffsetMs: targetOffset,
+      uncertaintyMs: best ? best.roundTripMs / 2 : null,
+      roundTripMs: best ? best.roundTripMs : null,
+      driftMsPerMin: estimateDrift(history),
+      syncCount: history.length,
+      lastSyncAt: best ? best.takenAt : null,
+    }),
+
+    reset() {
+      appliedOffset = 0;
+      targetOffset = 0;
+      slewFrom = now();
+      best = null;
+      history = [];
+      passiveBound = null;
+    },
+  };
+}
@@ -1,15 +1,63 @@
+import type { SoundName } from './audio';
+import type { TransportKind } from './transport';
+
 /**
  * Game Configuration
  * Values are loaded from environment variables with sensible defaults
  */
 const backendUrl = (import.meta.env.VITE_BACKEND_URL || 'http://localhost:3000').replace(/\/+$/, '');
 
+/**
+ * Parse a chat/table id. Returns null for anything that is not an integer.
+ */
+export function parseChatId(value: string | number | null | undefined): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) ? parsed : null;
+}
+
+const urlParams = new URLSearchParams(window.location.search);
+
+// Table selection: ?chatId= in the URL wins over VITE_CHAT_ID
+const initialChatId = parseChatId(urlParams.get('chatId')) ?? parseChatId(import.meta.env.VITE_CHAT_ID);
+
+// Offline simulator: ?simulator=1 in the URL or VITE_SIMULATOR=true
+const simulatorEnabled = urlParams.has('simulator')
+  ? urlParams.get('simulator') !== '0'
+  : import.meta.env.VITE_SIMULATOR === 'true';
+
+// Event stream transports, most preferred first: ?transport=websocket,poll or VITE_TRANSPORTS
+const transportKinds: TransportKind[] = ['sse', 'websocket', 'poll'];
+const transportOrder = (urlParams.get('transport') || import.meta.env.VITE_TRANSPORTS || 'sse,websocket,poll')
+  .split(',')
+  .map((kind) => kind.trim())
+  .filter((kind): kind is TransportKind => (transportKinds as string[]).includes(kind));
+
+// Per-table settings: "42=Asia/Kathmandu,7=Asia/Kolkata"
+function parseTableMap(value: string): Record<number, string> {
+  const entries: Record<number, string> = {};
+  value.split(',').forEach((entry) => {
+    const [chatId, setting] = entry.split('=').map((part) => part.trim());
+    const id = parseChatId(chatId);
+    if (id !== null && setting) entries[id] = setting;
+  });
+  return entries;
+}
+
+function numberParam(name: string, fallback: number): number {
+  const value = Number(urlParams.get(name));
+  return urlParams.has(name) && Number.isFinite(value) ? value : fallback;
+}
+
 export const GameConfig = {
   // Application title
   appTitle: 'Jhandi Munda',
 
-  // Backend URL for SSE and API (single-tenant)
+  // Backend URL for SSE and API
   backendUrl,
+
+  // Table a game follows unless mount() is given one (null = accept events for any table)
+  chatId: initialChatId,
   
   // Roll animation duration (ms)
   rollDuration: 2500,
@@ -17,19 +65,167 @@ export const GameConfig = {
   // Seconds to show result after dice reveal
   resultDisplayDuration: 5,
   
-  // Target values for each dice (1-6)
+  // Resting values for each dice (1-6) before a game hears its first result
   // 1=Spade, 2=Club, 3=Flag, 4=Crown, 5=Heart, 6=Diamond
   targetValues: [1, 2, 3, 4, 5, 6] as number[],
+
+  // Game variants (see variants.ts)
+  variants: {
+    // Deployment default
+    variant: import.meta.env.VITE_GAME_VARIANT || 'jhandi-munda',
+    // Tables running other games
+    tableVariants: parseTableMap(import.meta.env.VITE_TABLE_VARIANTS || ''),
+    // ?variant= wins over both
+    variantOverride: urlParams.get('variant'),
+  },
   
-  // Current round ID (set by backend)
-  currentRoundId: null as string | null,
-  
-  // Server time offset (serverNow - clientNow)
-  serverTimeOffset: 0,
+  // Server clock sync (see clockSync.ts)
+  timeSync: {
+    // Re-measure this often to follow drift (ms)
+    intervalMs: 30000,
+    // Round trips per measurement; the fastest one is used
+    samplesPerSync: 5,
+    // Sample a lightweight GET /time ({ serverNow }) instead of /rounds/current.
+    // Opt-in (VITE_TIME_ENDPOINT=true): backends need not serve it; the simulator does
+    timeEndpoint: import.meta.env.VITE_TIME_ENDPOINT === 'true' || simulatorEnabled,
+  },
   
-  // SSE reconnection settings
-  reconnectDelay: 2000,
-  maxReconnectAttempts: 10,
+  // Event stream reconnection (see getReconnectDelay)
+  reconnect: {
+    baseDelayMs: 1000,
+    maxDelayMs: 30000,
+    jitter: 0.5,
+    // Kiosks must recover on their own: after the ramp-up, retry once a minute forever
+    tailAfterAttempts: 10,
+    tailDelayMs: 60000,
+    maxAttempts: null as number | null,
+    // Wait for resumed (replayed) events before cross-checking with the snapshot (ms)
+    resumeSyncDelayMs: 1500,
+  },
+
+  // Session tokens (see auth.ts)
+  auth: {
+    // Require sign-in before connecting (otherwise tokens are optional)
+    required: import.meta.env.VITE_AUTH_REQUIRED === 'true',
+    // Refresh this long before the token expires (ms)
+    refreshLeadMs: 60000,
+    // Query parameter carrying the token on the event stream
+    tokenParam: 'access_token',
+  },
+
+  // Event stream transport negotiation
+  transport: {
+    order: transportOrder.length > 0 ? transportOrder : transportKinds,
+    // A transport that has not opened by then is abandoned for the next one
+    openTimeoutMs: 8000,
+    // Snapshot polling interval for the last-resort transport
+    pollIntervalMs: 2000,
+  },
+
+  // Presentation (settable by an embedding host page)
+  // Theme id a game starts with; its manifest is <themes.baseUrl>/<id>.json (see theme.ts)
+  theme: urlParams.get('theme') || 'default',
+  // Empty = detect (saved choice, then browser languages); see i18n.ts
+  locale: urlParams.get('locale') || '',
+  muted: urlParams.get('muted') === '1',
+
+  // Sound effects (see audio.ts)
+  audio: {
+    // Optional recorded sounds; anything not listed is synthesised
+    files: {} as Partial<Record<SoundName, string>>,
+    // Until the player changes it (then persisted in localStorage)
+    defaultVolume: 0.7,
+    // Countdown ticks during the last seconds
+    tickSeconds: 5,
+    // Impact speed (units/s) that plays at full volume
+    fullImpactSpeed: 12,
+  },
+
+  // Theme manifests (see theme.ts)
+  themes: {
+    baseUrl: (import.meta.env.VITE_THEME_BASE_URL || '/themes').replace(/\/+$/, ''),
+  },
+
+  // Image loading (see loadImageWithRetry in theme.ts)
+  assets: {
+    // Attempts after the first; the pause doubles each time
+    retries: 2,
+    retryDelayMs: 500,
+    // An image that has not loaded by then counts as failed
+    timeoutMs: 10000,
+  },
+
+  // Rendering (see renderLoop.ts)
+  performance: {
+    // Frames slower than this miss the budget (40 fps)
+    frameBudgetMs: 25,
+    // Frames of a roll measured before deciding
+    windowFrames: 60,
+    upgradeAfterWindows: 10,
+    // ?quality=high|medium|low pins a level; otherwise it adapts, starting where it last settled
+    quality: urlParams.get('quality'),
+  },
+
+  // Header clock (see clock.ts)
+  clock: {
+    // Deployment time zone (IANA name)
+    timeZone: import.meta.env.VITE_CLOCK_TIMEZONE || 'Asia/Thimphu',
+    // Zones for tables in other markets
+    tableTimeZones: parseTableMap(import.meta.env.VITE_TABLE_TIMEZONES || ''),
+    // ?tz= wins over both
+    timeZoneOverride: urlParams.get('tz'),
+    showSeconds: urlParams.get('clockSeconds') === '1',
+    showDate: urlParams.get('clockDate') === '1',
+    showTimeZone: urlParams.get('clockZone') === '1',
+    // 24-hour unless ?clock12h=1
+    hour12: urlParams.get('clock12h') === '1',
+  },
+
+  // null = follow the OS prefers-reduced-motion setting; ?reducedMotion=1|0 overrides
+  reducedMotion: urlParams.has('reducedMotion') ? urlParams.get('reducedMotion') !== '0' : null,
+
+  // Embedding in a host page's iframe (see hostBridge.ts)
+  embed: {
+    // Host origins allowed to send commands ('*' = any); the game's own origin always is
+    allowedOrigins: (import.meta.env.VITE_EMBED_ORIGINS || '')
+      .split(',')
+      .map((origin) => origin.trim().replace(/\/+$/, ''))
+      .filter(Boolean),
+  },
+
+  // Betting board
+  betting: {
+    // Bet API base URL (point at a mock server for local testing)
+    apiUrl: (import.meta.env.VITE_BET_API_URL || backendUrl).replace(/\/+$/, ''),
+    // Stake chip denominations
+    chips: [10, 50, 100, 500],
+    maxStakePerSymbol: 5000,
+  },
+
+  // Round history panel
+  history: {
+    // Rounds kept in localStorage per table
+    maxEntries: 200,
+    // Rounds listed in the panel
+    visibleRounds: 20,
+    // Rounds requested from the backend on connect
+    backfillLimit: 50,
+  },
+
+  // In-page backend for running without the live server
+  // (schedule overridable via ?simLeadMs=, ?simRoundMs=, ?simIdleMs=, ?simCancelRate=, ?simSeed=)
+  simulator: {
+    enabled: simulatorEnabled,
+    // Announcement -> round start (ms)
+    leadMs: numberParam('simLeadMs', 5000),
+    // Round start -> result (ms)
+    roundMs: numberParam('simRoundMs', 10000),
+    // Result -> next announcement (ms)
+    idleMs: numberParam('simIdleMs', 6000),
+    // Share of rounds cancelled instead of revealed (0-1)
+    cancelRate: numberParam('simCancelRate', 0.1),
+    seed: urlParams.get('simSeed') || 'jhandi-munda',
+  },
 };
 
 // Symbol definitions with type safety
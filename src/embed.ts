@@ -0,0 +1,218 @@
+import {
+  EMBED_PROTOCOL_VERSION,
+  HOST_SOURCE,
+  isWidgetMessage,
+  type HostCommand,
+  type WidgetEvents,
+  type WidgetState,
+  type WidgetTopic,
+} from './embedProtocol';
+
+/**
+ * Jhandi Munda Embed SDK
+ * Host-page library (built with `npm run build:embed`) that mounts the game
+ * in an iframe and talks to it over the embed protocol:
+ *
+ *   const table = mountJhandiMunda(el, { src: 'https://dice.example.com', chatId: 42 });
+ *   table.on('roundResult', (result) => console.log(result.diceValues));
+ *
+ * The game only accepts commands from origins in its VITE_EMBED_ORIGINS.
+ */
+
+export type { WidgetEvents, WidgetState, WidgetTopic, WidgetRoundResult } from './embedProtocol';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+export interface EmbedOptions {
+  // URL the game is served from
+  src: string;
+  chatId?: number;
+  theme?: string;
+  locale?: string;
+  muted?: boolean;
+  // Session token handed to the game once it loads
+  authToken?: string;
+  // CSS sizes; `aspectRatio` keeps height in step with the container width
+  width?: string;
+  height?: string;
+  aspectRatio?: number;
+  title?: string;
+  // Reject requests the widget has not answered within this time (ms)
+  requestTimeoutMs?: number;
+}
+
+export interface EmbeddedTable {
+  readonly iframe: HTMLIFrameElement;
+  // Resolves once the widget has answered its first command
+  ready: Promise<void>;
+  on: <T extends WidgetTopic>(topic: T, listener: (payload: WidgetEvents[T]) => void) => () => void;
+  getState: () => Promise<WidgetState>;
+  setChatId: (chatId: number) => Promise<void>;
+  setTheme: (theme: string) => Promise<void>;
+  setLocale: (locale: string) => Promise<void>;
+  setMuted: (muted: boolean) => Promise<void>;
+  setAuthToken: (token: string, expiresAt?: number) => Promise<void>;
+  resize: (width: string, height: string) => void;
+  destroy: () => void;
+}
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timer: number;
+}
+
+type Listener = (payload: never) => void;
+
+// ============================================
+// MOUNT
+// ============================================
+export function mountJhandiMunda(container: HTMLElement, options: EmbedOptions): EmbeddedTable {
+  const src = new URL(options.src, window.location.href);
+  if (options.chatId !== undefined) src.searchParams.set('chatId', String(options.chatId));
+  const widgetOrigin = src.origin;
+  const requestTimeoutMs = options.requestTimeoutMs ?? 10000;
+
+  const iframe = document.createElement('iframe');
+  iframe.src = src.toString();
+  iframe.title = options.title ?? 'Jhandi Munda';
+  iframe.allow = 'autoplay';
+  iframe.style.border = '0';
+  iframe.style.display = 'block';
+  iframe.style.width = options.width ?? '100%';
+  iframe.style.height = options.height ?? '600px';
+  container.appendChild(iframe);
+
+  const listeners = new Map<WidgetTopic, Set<Listener>>();
+  const pending = new Map<string, PendingRequest>();
+  let nextRequestId = 1;
+  let loaded = false;
+  let destroyed = false;
+
+  function request(command: HostCommand): Promise<unknown> {
+    if (destroyed) return Promise.reject(new Error('Widget has been destroyed'));
+    const requestId = `req-${nextRequestId++}`;
+    return new Promise((resolve, reject) => {
+      const timer = window.setTimeout(() => {
+        pending.delete(requestId);
+        reject(new Error(`${command.type} timed out`));
+      }, requestTimeoutMs);
+      pending.set(requestId, { resolve, reject, timer });
+      iframe.contentWindow?.postMessage({ ...command, source: HOST_SOURCE, requestId }, widgetOrigin);
+    });
+  }
+
+  function onMessage(event: MessageEvent): void {
+    if (event.source !== iframe.contentWindow || event.origin !== widgetOrigin) return;
+    if (!isWidgetMessage(event.data)) return;
+    const message = event.data;
+
+    if (message.type === 'ready' && message.version !== EMBED_PROTOCOL_VERSION) {
+      console.warn(`[Embed] Widget speaks protocol v${message.version}, SDK expects v${EMBED_PROTOCOL_VERSION}`);
+    } else if (message.type === 'event') {
+      listeners.get(message.topic)?.forEach((listener) => (listener as (payload: unknown) => void)(message.payload));
+    } else if (message.type === 'response') {
+      const request = pending.get(message.requestId);
+      if (!request) return;
+      pending.delete(message.requestId);
+      clearTimeout(request.timer);
+      if (message.ok) request.resolve(message.result);
+      else request.reject(new Error(message.error));
+    }
+  }
+  window.addEventListener('message', onMessage);
+
+  // Apply the initial settings once the game has loaded
+  const ready = new Promise<void>((resolve, reject) => {
+    iframe.addEventListener(
+      'load',
+      () => {
+        loaded = true;
+        const setup: Promise<unknown>[] = [];
+        if (options.authToken) setup.push(request({ type: 'setAuthToken', token: options.authToken }));
+        if (options.theme) setup.push(request({ type: 'setTheme', theme: options.theme }));
+        if (options.locale) setup.push(request({ type: 'setLocale', locale: options.locale }));
+        if (options.muted !== undefined) setup.push(request({ type: 'setMuted', muted: options.muted }));
+        const topics = [...listeners.keys()];
+        if (topics.length > 0) setup.push(request({ type: 'subscribe', topics }));
+        setup.push(request({ type: 'getState' }));
+        Promise.all(setup).then(() => resolve(), reject);
+      },
+      { once: true },
+    );
+  });
+  // Hosts that never await `ready` must not see an unhandled rejection; the
+  // promise still rejects for those that do
+  ready.catch(() => {});
+
+  let resizeObserver: ResizeObserver | null = null;
+  if (options.aspectRatio) {
+    const ratio = options.aspectRatio;
+    resizeObserver = new ResizeObserver(() => {
+      iframe.style.height = `${Math.round(iframe.clientWidth / ratio)}px`;
+    });
+    resizeObserver.observe(container);
+  }
+
+  return {
+    iframe,
+    ready,
+
+    on(topic, listener) {
+      let topicListeners = listeners.get(topic);
+      if (!topicListeners) {
+        topicListeners = new Set();
+        listeners.set(topic, topicListeners);
+        // Before load the subscription is sent with the initial setup
+        if (loaded) {
+          request({ type: 'subscribe', topics: [topic] }).catch(() => undefined);
+        }
+      }
+      topicListeners.add(listener as Listener);
+
+      return () => {
+        topicListeners!.delete(listener as Listener);
+        if (topicListeners!.size === 0) {
+          listeners.delete(topic);
+          request({ type: 'unsubscribe', topics: [topic] }).catch(() => undefined);
+        }
+      };
+    },
+
+    getState: () => request({ type: 'getState' }) as Promise<WidgetState>,
+    setChatId: async (chatId) => {
+      await request({ type: 'setChatId', chatId });
+    },
+    setTheme: async (theme) => {
+      await request({ type: 'setTheme', theme });
+    },
+    setLocale: async (locale) => {
+      await request({ type: 'setLocale', locale });
+    },
+    setMuted: async (muted) => {
+      await request({ type: 'setMuted', muted });
+    },
+    setAuthToken: async (token, expiresAt) => {
+      await request({ type: 'setAuthToken', token, expiresAt });
+    },
+
+    resize(width, height) {
+      iframe.style.width = width;
+      iframe.style.height = height;
+    },
+
+    destroy() {
+      destroyed = true;
+      window.removeEventListener('message', onMessage);
+      resizeObserver?.disconnect();
+      pending.forEach((request) => {
+        clearTimeout(request.timer);
+        request.reject(new Error('Widget has been destroyed'));
+      });
+      pending.clear();
+      listeners.clear();
+      iframe.remove();
+    },
+  };
+}
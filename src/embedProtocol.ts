@@ -0,0 +1,89 @@
+/**
+ * Embed Protocol
+ * postMessage messages between a host page and the game running in an
+ * iframe. Shared by the host SDK (embed.ts) and the in-game bridge
+ * (hostBridge.ts); kept free of game imports so the SDK build stays small.
+ */
+
+// Tags every message so unrelated postMessage traffic is ignored
+export const HOST_SOURCE = 'jhandi-munda-host';
+export const WIDGET_SOURCE = 'jhandi-munda-widget';
+
+export const EMBED_PROTOCOL_VERSION = 1;
+
+// ============================================
+// SHARED TYPES
+// ============================================
+export interface WidgetState {
+  state: string;
+  chatId: number | null;
+  roundId: string | null;
+  targetValues: number[];
+  // Game variant id (see variants.ts)
+  variant: string;
+  connected: boolean;
+  session: string;
+}
+
+export interface WidgetRoundResult {
+  roundId: string;
+  chatId: number | null;
+  diceValues: number[];
+}
+
+// Topics a host can subscribe to
+export interface WidgetEvents {
+  state: WidgetState;
+  roundResult: WidgetRoundResult;
+}
+
+export type WidgetTopic = keyof WidgetEvents;
+
+// ============================================
+// HOST -> WIDGET
+// ============================================
+export type HostCommand =
+  | { type: 'subscribe'; topics: WidgetTopic[] }
+  | { type: 'unsubscribe'; topics: WidgetTopic[] }
+  | { type: 'getState' }
+  | { type: 'setChatId'; chatId: number }
+  | { type: 'setTheme'; theme: string }
+  | { type: 'setLocale'; locale: string }
+  | { type: 'setMuted'; muted: boolean }
+  | { type: 'setAuthToken'; token: string; expiresAt?: number; expiresIn?: number };
+
+export type HostMessage = HostCommand & {
+  source: typeof HOST_SOURCE;
+  // Echoed in the response so the host can match replies to requests
+  requestId?: string;
+};
+
+// ============================================
+// WIDGET -> HOST
+// ============================================
+export type WidgetMessage = { source: typeof WIDGET_SOURCE } & (
+  | { type: 'ready'; version: number }
+  | { type: 'event'; topic: WidgetTopic; payload: WidgetEvents[WidgetTopic] }
+  | { type: 'response'; requestId: string; ok: true; result?: unknown }
+  | { type: 'response'; requestId: string; ok: false; error: string }
+);
+
+const HOST_COMMANDS: HostCommand['type'][] = [
+  'subscribe',
+  'unsubscribe',
+  'getState',
+  'setChatId',
+  'setTheme',
+  'setLocale',
+  'setMuted',
+  'setAuthToken',
+];
+
+export function isHostMessage(data: unknown): data is HostMessage {
+  const message = data as HostMessage;
+  return message?.source === HOST_SOURCE && HOST_COMMANDS.includes(message.type);
+}
+
+export function isWidgetMessage(data: unknown): data is WidgetMessage {
+  return (data as WidgetMessage)?.source === WIDGET_SOURCE;
+}
@@ -0,0 +1,79 @@
+/**
+ * Game Events
+ * Typed emitter for integrators: the same events are delivered to `on()`
+ * handlers and dispatched on `window` as DOM CustomEvents named
+ * `jhandi-munda:<event>` (payload in `event.detail`).
+ */
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+export interface GameEventMap {
+  roundScheduled: { chatId: number | null; startAt: number; endAt: number };
+  roundStarted: { chatId: number | null; roundId: string; startAt: number; endAt: number };
+  result: { chatId: number | null; roundId: string; diceValues: number[] };
+  cancelled: { chatId: number | null; roundId: string | null };
+  connection: { connected: boolean; status: string };
+}
+
+export type GameEventName = keyof GameEventMap;
+
+export type GameEventHandler<K extends GameEventName> = (payload: GameEventMap[K]) => void;
+
+export interface GameEventEmitter {
+  on: <K extends GameEventName>(name: K, handler: GameEventHandler<K>) => () => void;
+  once: <K extends GameEventName>(name: K, handler: GameEventHandler<K>) => () => void;
+  off: <K extends GameEventName>(name: K, handler: GameEventHandler<K>) => void;
+  emit: <K extends GameEventName>(name: K, payload: GameEventMap[K]) => void;
+}
+
+export const DOM_EVENT_PREFIX = 'jhandi-munda:';
+
+// ============================================
+// EMITTER
+// ============================================
+export function createGameEventEmitter(target: EventTarget | null = window): GameEventEmitter {
+  const handlers = new Map<GameEventName, Set<GameEventHandler<never>>>();
+
+  const off = <K extends GameEventName>(name: K, handler: GameEventHandler<K>) => {
+    handlers.get(name)?.delete(handler as GameEventHandler<never>);
+  };
+
+  const on = <K extends GameEventName>(name: K, handler: GameEventHandler<K>) => {
+    let set = handlers.get(name);
+    if (!set) {
+      set = new Set();
+      handlers.set(name, set);
+    }
+    set.add(handler as GameEventHandler<never>);
+    return () => off(name, handler);
+  };
+
+  return {
+    on,
+    off,
+
+    once(name, handler) {
+      const unsubscribe = on(name, (payload) => {
+        unsubscribe();
+        handler(payload);
+      });
+      return unsubscribe;
+    },
+
+    emit(name, payload) {
+      // A throwing integrator handler must not break the game loop
+      [...(handlers.get(name) ?? [])].forEach((handler) => {
+        try {
+          (handler as GameEventHandler<typeof name>)(payload);
+        } catch (err) {
+          console.error(`[Events] ${name} handler failed`, err);
+        }
+      });
+      target?.dispatchEvent(new CustomEvent(`${DOM_EVENT_PREFIX}${name}`, { detail: payload }));
+    },
+  };
+}
+
+// Every game on the page emits here (each game's handle also has its own)
+export const gameEvents = createGameEventEmitter();
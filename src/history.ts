@@ -0,0 +1,337 @@
+import { GameConfig, symbols } from './config';
+import { formatNumber, formatTime, localize, localizeAttribute, onLocaleChange, symbolMessage, type MessageKey } from './i18n';
+import { parseRoundRecord, type RoundRecord } from './protocol';
+import { setFaceImage, type ThemeManifest } from './theme';
+import { apiFetch } from './transport';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+export interface HistoryEntry {
+  roundId: string;
+  diceValues: number[];
+  // Server time the result was revealed (ms)
+  revealedAt: number;
+}
+
+export interface SymbolStats {
+  value: number;
+  // Total dice showing this symbol across all rounds
+  appearances: number;
+  // Rounds in which the symbol showed at least once
+  roundsHit: number;
+  // Share of all dice thrown that showed this symbol (0-1)
+  frequency: number;
+  // Consecutive most-recent rounds containing the symbol
+  currentStreak: number;
+  longestStreak: number;
+  // Rounds since the symbol last showed (null = never seen)
+  roundsSinceSeen: number | null;
+}
+
+export interface HistoryPanelOptions {
+  // Replay a listed round by id
+  onReplay?: (roundId: string) => void;
+  // Replay a round from a local JSON export
+  onReplayFile?: (file: File) => void;
+  getTheme: () => ThemeManifest;
+}
+
+export interface RoundHistory {
+  // Switch to a table, restoring whatever was persisted for it
+  load: (chatId: number | null) => void;
+  record: (entry: HistoryEntry) => void;
+  // Fill gaps (first visit, missed results while offline) from the backend
+  backfill: (url: string) => Promise<void>;
+  getEntries: () => HistoryEntry[];
+  // Stop following language changes
+  dispose: () => void;
+}
+
+// Backfill response from GET /rounds/history (each round is checked as a round record)
+interface HistoryResponse {
+  rounds: { diceValues?: unknown }[];
+}
+
+const STORAGE_PREFIX = 'jhandi-munda:history';
+const COLLAPSED_KEY = 'jhandi-munda:history-collapsed';
+
+function isValidEntry(entry: HistoryEntry): boolean {
+  return (
+    typeof entry?.roundId === 'string' &&
+    typeof entry.revealedAt === 'number' &&
+    Array.isArray(entry.diceValues) &&
+    entry.diceValues.length > 0 &&
+    entry.diceValues.every((v) => Number.isInteger(v) && v >= 1 && v <= 6)
+  );
+}
+
+// ============================================
+// STATISTICS
+// ============================================
+
+/**
+ * Per-symbol frequency and streak statistics. Entries are newest first.
+ */
+export function computeSymbolStats(history: HistoryEntry[]): SymbolStats[] {
+  const totalDice = history.reduce((sum, e) => sum + e.diceValues.length, 0);
+
+  return Object.keys(symbols).map((key) => {
+    const value = Number(key);
+    let appearances = 0;
+    let roundsHit = 0;
+    let currentStreak = 0;
+    let longestStreak = 0;
+    let runningStreak = 0;
+    let roundsSinceSeen: number | null = null;
+    let streakBroken = false;
+
+    history.forEach((entry, i) => {
+      const count = entry.diceValues.filter((v) => v === value).length;
+      appearances += count;
+
+      if (count > 0) {
+        roundsHit++;
+        runningStreak++;
+        longestStreak = Math.max(longestStreak, runningStreak);
+        if (roundsSinceSeen === null) roundsSinceSeen = i;
+        if (!streakBroken) currentStreak = runningStreak;
+      } else {
+        runningStreak = 0;
+        streakBroken = true;
+      }
+    });
+
+    return {
+      value,
+      appearances,
+      roundsHit,
+      frequency: totalDice > 0 ? appearances / totalDice : 0,
+      currentStreak,
+      longestStreak,
+      roundsSinceSeen,
+    };
+  });
+}
+
+// ============================================
+// HISTORY STORE AND PANEL
+// ============================================
+
+/**
+ * A game's round history: the rounds of its table (persisted per table in
+ * localStorage) and the collapsible panel showing them in `container`.
+ */
+export function createRoundHistory(container: HTMLElement, options: HistoryPanelOptions): RoundHistory {
+  let entries: HistoryEntry[] = [];
+  let storageKey = `${STORAGE_PREFIX}:default`;
+  let tableChatId: number | null = null;
+
+  function load(chatId: number | null): void {
+    tableChatId = chatId;
+    storageKey = `${STORAGE_PREFIX}:${chatId ?? 'default'}`;
+    entries = [];
+    try {
+      const raw = localStorage.getItem(storageKey);
+      if (raw) {
+        const parsed: HistoryEntry[] = JSON.parse(raw);
+        entries = Array.isArray(parsed) ? parsed.filter(isValidEntry) : [];
+      }
+    } catch (err) {
+      console.error('[History] Failed to restore history', err);
+    }
+    renderHistory();
+  }
+
+  function persistHistory(): void {
+    try {
+      localStorage.setItem(storageKey, JSON.stringify(entries));
+    } catch (err) {
+      console.error('[History] Failed to persist history', err);
+    }
+  }
+
+  function mergeEntries(incoming: HistoryEntry[]): boolean {
+    const known = new Set(entries.map((e) => e.roundId));
+    const fresh = incoming.filter((e) => isValidEntry(e) && !known.has(e.roundId));
+    if (fresh.length === 0) return false;
+
+    entries = [...entries, ...fresh]
+      .sort((a, b) => b.revealedAt - a.revealedAt)
+      .slice(0, GameConfig.history.maxEntries);
+    return true;
+  }
+
+  function record(entry: HistoryEntry): void {
+    if (mergeEntries([entry])) {
+      persistHistory();
+      renderHistory();
+    }
+  }
+
+  async function backfill(url: string): Promise<void> {
+    const requestedKey = storageKey;
+    try {
+      const res = await apiFetch(url, { cache: 'no-store' });
+      if (!res.ok) throw new Error(`History failed: ${res.status}`);
+      const data: HistoryResponse = await res.json();
+      // Table switched while the request was in flight
+      if (requestedKey !== storageKey) return;
+
+      // Rounds without a result (running or cancelled) are not history
+      const incoming = (data.rounds || [])
+        .filter((round) => Array.isArray(round?.diceValues) && round.diceValues.length > 0)
+        .map((round) => parseRoundRecord(round, 'history round', tableChatId))
+        .filter((round): round is RoundRecord => round !== null)
+        .map((round) => ({ roundId: round.id, diceValues: round.diceValues, revealedAt: round.endAt }));
+      if (mergeEntries(incoming)) {
+        persistHistory();
+        renderHistory();
+      }
+    } catch (err) {
+      console.error('[History] Failed to backfill', err);
+    }
+  }
+
+  // Panel
+  container.innerHTML = '';
+
+  const toggle = document.createElement('button');
+  toggle.type = 'button';
+  toggle.className = 'history-toggle';
+  localize(toggle, 'history.toggle');
+  toggle.addEventListener('click', () => {
+    const collapsed = !container.classList.contains('collapsed');
+    container.classList.toggle('collapsed', collapsed);
+    localStorage.setItem(COLLAPSED_KEY, collapsed ? '1' : '0');
+  });
+
+  const body = document.createElement('div');
+  body.className = 'history-body';
+
+  const roundCountLabel = document.createElement('p');
+  roundCountLabel.className = 'history-heading';
+
+  const statsTable = document.createElement('table');
+  statsTable.className = 'history-stats';
+  const headRow = statsTable.createTHead().insertRow();
+  headRow.appendChild(document.createElement('th'));
+  const columns: (MessageKey | null)[] = ['history.count', null, 'history.streak', 'history.best', 'history.since'];
+  columns.forEach((key) => {
+    const th = document.createElement('th');
+    if (key) localize(th, key);
+    else th.textContent = '%';
+    headRow.appendChild(th);
+  });
+  const statsBody = document.createElement('tbody');
+  statsTable.appendChild(statsBody);
+
+  const listHeading = document.createElement('p');
+  listHeading.className = 'history-heading';
+  localize(listHeading, 'history.lastRounds', { count: GameConfig.history.visibleRounds });
+
+  const roundsList = document.createElement('ol');
+  roundsList.className = 'history-rounds';
+
+  body.append(roundCountLabel, statsTable, listHeading, roundsList);
+
+  if (options.onReplayFile) {
+    const fileInput = document.createElement('input');
+    fileInput.type = 'file';
+    fileInput.accept = 'application/json,.json';
+    fileInput.hidden = true;
+    fileInput.addEventListener('change', () => {
+      const file = fileInput.files?.[0];
+      if (file) options.onReplayFile!(file);
+      fileInput.value = '';
+    });
+
+    const loadButton = document.createElement('button');
+    loadButton.type = 'button';
+    loadButton.className = 'history-load-replay';
+    localize(loadButton, 'history.loadReplay');
+    loadButton.addEventListener('click', () => fileInput.click());
+    body.append(loadButton, fileInput);
+  }
+  container.append(toggle, body);
+
+  // Collapsed unless the player opened it last time
+  container.classList.toggle('collapsed', localStorage.getItem(COLLAPSED_KEY) !== '0');
+
+  function createSymbolImage(value: number): HTMLImageElement {
+    const img = document.createElement('img');
+    setFaceImage(img, value, options.getTheme());
+    const name = symbolMessage(value);
+    localizeAttribute(img, 'alt', name.key, name.params);
+    localizeAttribute(img, 'title', name.key, name.params);
+    return img;
+  }
+
+  function renderHistory(): void {
+    localize(roundCountLabel, 'history.statistics', { count: entries.length });
+
+    statsBody.innerHTML = '';
+    computeSymbolStats(entries).forEach((stat) => {
+      const row = document.createElement('tr');
+      const symbolCell = document.createElement('td');
+      symbolCell.appendChild(createSymbolImage(stat.value));
+      row.appendChild(symbolCell);
+
+      [
+        formatNumber(stat.appearances),
+        formatNumber(Math.round(stat.frequency * 100)),
+        formatNumber(stat.currentStreak),
+        formatNumber(stat.longestStreak),
+        stat.roundsSinceSeen === null ? '–' : formatNumber(stat.roundsSinceSeen),
+      ].forEach((text) => {
+        const cell = document.createElement('td');
+        cell.textContent = text;
+        row.appendChild(cell);
+      });
+      statsBody.appendChild(row);
+    });
+
+    roundsList.innerHTML = '';
+    entries.slice(0, GameConfig.history.visibleRounds).forEach((entry) => {
+      const item = document.createElement('li');
+      item.className = 'history-round';
+
+      const meta = document.createElement('div');
+      meta.className = 'history-round-meta';
+      const id = document.createElement('span');
+      id.className = 'history-round-id';
+      id.textContent = entry.roundId;
+      id.title = entry.roundId;
+      const time = document.createElement('span');
+      time.textContent = formatTime(entry.revealedAt);
+      meta.append(id, time);
+
+      if (options.onReplay) {
+        const replayButton = document.createElement('button');
+        replayButton.type = 'button';
+        replayButton.className = 'history-replay';
+        localize(replayButton, 'history.replay');
+        replayButton.addEventListener('click', () => options.onReplay!(entry.roundId));
+        meta.appendChild(replayButton);
+      }
+
+      const faces = document.createElement('div');
+      faces.className = 'history-round-symbols';
+      entry.diceValues.forEach((value) => faces.appendChild(createSymbolImage(value)));
+
+      item.append(meta, faces);
+      roundsList.appendChild(item);
+    });
+  }
+
+  renderHistory();
+  const stopLocaleSync = onLocaleChange(renderHistory);
+
+  return {
+    load,
+    record,
+    backfill,
+    getEntries: () => entries,
+    dispose: stopLocaleSync,
+  };
+}
@@ -0,0 +1,145 @@
+import { GameConfig } from './config';
+import {
+  EMBED_PROTOCOL_VERSION,
+  WIDGET_SOURCE,
+  isHostMessage,
+  type HostCommand,
+  type HostMessage,
+  type WidgetEvents,
+  type WidgetMessage,
+  type WidgetState,
+  type WidgetTopic,
+} from './embedProtocol';
+
+/**
+ * Host Bridge
+ * The game's side of the embed protocol: accepts commands from the page
+ * embedding it (only from allow-listed origins) and forwards subscribed
+ * events back to it.
+ */
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+export interface HostBridgeHandlers {
+  getState: () => WidgetState;
+  setChatId: (chatId: number) => void;
+  setTheme: (theme: string) => void;
+  setLocale: (locale: string) => void;
+  setMuted: (muted: boolean) => void;
+  setAuthToken: (token: string, expiresAt?: number, expiresIn?: number) => void;
+}
+
+// ============================================
+// BRIDGE
+// ============================================
+let handlers: HostBridgeHandlers | null = null;
+// Origin of the host that talked to us; replies and events go only there
+let hostOrigin: string | null = null;
+const subscriptions = new Set<WidgetTopic>();
+
+export function isEmbedded(): boolean {
+  return window.parent !== window;
+}
+
+/**
+ * Whether `origin` may control this widget. Same-origin hosts always may;
+ * others must be listed in GameConfig.embed.allowedOrigins ('*' = any).
+ */
+export function isAllowedHostOrigin(origin: string): boolean {
+  if (origin === window.location.origin) return true;
+  const allowed = GameConfig.embed.allowedOrigins;
+  return allowed.includes('*') || allowed.includes(origin);
+}
+
+function post(message: WidgetMessage): void {
+  if (hostOrigin === null) return;
+  window.parent.postMessage(message, hostOrigin);
+}
+
+function runCommand(command: HostCommand): unknown {
+  const bridgeHandlers = handlers!;
+  switch (command.type) {
+    case 'subscribe':
+      command.topics.forEach((topic) => subscriptions.add(topic));
+      // A new state subscriber wants the current state right away
+      if (command.topics.includes('state')) emitToHost('state', bridgeHandlers.getState());
+      return undefined;
+    case 'unsubscribe':
+      command.topics.forEach((topic) => subscriptions.delete(topic));
+      return undefined;
+    case 'getState':
+      return bridgeHandlers.getState();
+    case 'setChatId':
+      bridgeHandlers.setChatId(command.chatId);
+      return undefined;
+    case 'setTheme':
+      bridgeHandlers.setTheme(command.theme);
+      return undefined;
+    case 'setLocale':
+      bridgeHandlers.setLocale(command.locale);
+      return undefined;
+    case 'setMuted':
+      bridgeHandlers.setMuted(command.muted);
+      return undefined;
+    case 'setAuthToken':
+      bridgeHandlers.setAuthToken(command.token, command.expiresAt, command.expiresIn);
+      return undefined;
+  }
+}
+
+function onMessage(event: MessageEvent): void {
+  if (event.source !== window.parent || !isHostMessage(event.data)) return;
+  if (!isAllowedHostOrigin(event.origin)) {
+    console.warn(`[Embed] Ignoring ${event.data.type} from non-allowed origin ${event.origin}`);
+    return;
+  }
+  if (hostOrigin !== event.origin) {
+    console.log(`[Embed] Host connected from ${event.origin}`);
+    hostOrigin = event.origin;
+  }
+
+  const message: HostMessage = event.data;
+  try {
+    const result = runCommand(message);
+    if (message.requestId) {
+      post({ source: WIDGET_SOURCE, type: 'response', requestId: message.requestId, ok: true, result });
+    }
+  } catch (err) {
+    console.error(`[Embed] ${message.type} failed`, err);
+    if (message.requestId) {
+      post({ source: WIDGET_SOURCE, type: 'response', requestId: message.requestId, ok: false, error: String(err) });
+    }
+  }
+}
+
+/**
+ * Start listening for host commands (no-op outside an iframe) and announce
+ * readiness to the embedding page when its origin is allowed. Returns a
+ * function that stops listening.
+ */
+export function initHostBridge(bridgeHandlers: HostBridgeHandlers): () => void {
+  if (!isEmbedded()) return () => {};
+  handlers = bridgeHandlers;
+  window.addEventListener('message', onMessage);
+  document.documentElement.classList.add('embedded');
+
+  const referrerOrigin = document.referrer ? new URL(document.referrer).origin : null;
+  if (referrerOrigin && isAllowedHostOrigin(referrerOrigin)) {
+    hostOrigin = referrerOrigin;
+    post({ source: WIDGET_SOURCE, type: 'ready', version: EMBED_PROTOCOL_VERSION });
+  }
+
+  return () => {
+    window.removeEventListener('message', onMessage);
+    document.documentElement.classList.remove('embedded');
+    handlers = null;
+    hostOrigin = null;
+    subscriptions.clear();
+  };
+}
+
+export function emitToHost<T extends WidgetTopic>(topic: T, payload: WidgetEvents[T]): void {
+  if (!subscriptions.has(topic)) return;
+  post({ source: WIDGET_SOURCE, type: 'event', topic, payload });
+}
@@ -0,0 +1,263 @@
+import { GameConfig } from './config';
+import { en } from './locales/en';
+import { dz } from './locales/dz';
+import { ne } from './locales/ne';
+import { hi } from './locales/hi';
+
+/**
+ * Internationalisation
+ * Message catalogs (src/locales), plural selection and locale-aware number
+ * and time formatting. Text set through `localize()` remembers its message
+ * key, so switching language re-translates what is already on screen.
+ */
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+export type Locale = 'en' | 'dz' | 'ne' | 'hi';
+
+export type MessageKey = keyof typeof en;
+
+// Forms by CLDR plural category; `{count}` selects the form
+export interface PluralMessage {
+  zero?: string;
+  one?: string;
+  two?: string;
+  few?: string;
+  many?: string;
+  other: string;
+}
+
+export type Message = string | PluralMessage;
+
+export type Catalog = Partial<Record<MessageKey, Message>>;
+
+export type MessageParams = Record<string, string | number>;
+
+interface LocaleInfo {
+  // Name shown in the language switcher, in the language itself
+  nativeName: string;
+  // BCP 47 tag handed to Intl for plurals and formatting
+  intlTag: string;
+  catalog: Catalog;
+}
+
+export const LOCALES: Record<Locale, LocaleInfo> = {
+  en: { nativeName: 'English', intlTag: 'en', catalog: en },
+  dz: { nativeName: 'རྫོང་ཁ', intlTag: 'dz-BT', catalog: dz },
+  ne: { nativeName: 'नेपाली', intlTag: 'ne-NP', catalog: ne },
+  hi: { nativeName: 'हिन्दी', intlTag: 'hi-IN', catalog: hi },
+};
+
+const DEFAULT_LOCALE: Locale = 'en';
+const STORAGE_KEY = 'jhandi-munda:locale';
+
+// ============================================
+// LOCALE STATE
+// ============================================
+let locale: Locale = DEFAULT_LOCALE;
+let pluralRules = new Intl.PluralRules(LOCALES[locale].intlTag);
+let numberFormat = new Intl.NumberFormat(LOCALES[locale].intlTag);
+const listeners = new Set<(locale: Locale) => void>();
+
+export function getLocale(): Locale {
+  return locale;
+}
+
+export function getIntlTag(): string {
+  return LOCALES[locale].intlTag;
+}
+
+export function onLocaleChange(listener: (locale: Locale) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Map a language tag ('ne-NP', 'hi', 'en-GB') to a supported locale.
+ */
+export function resolveLocale(tag: string | null | undefined): Locale | null {
+  if (!tag) return null;
+  const language = tag.trim().toLowerCase().split(/[-_]/)[0];
+  return language in LOCALES ? (language as Locale) : null;
+}
+
+/**
+ * Explicit choice (URL/host), then the player's saved choice, then the
+ * browser's preferred languages.
+ */
+export function detectLocale(): Locale {
+  const explicit = resolveLocale(GameConfig.locale);
+  if (explicit) return explicit;
+
+  const saved = resolveLocale(localStorage.getItem(STORAGE_KEY));
+  if (saved) return saved;
+
+  for (const language of navigator.languages ?? [navigator.language]) {
+    const detected = resolveLocale(language);
+    if (detected) return detected;
+  }
+  return DEFAULT_LOCALE;
+}
+
+/**
+ * Switch language and re-translate localized text. `persist` remembers the
+ * choice for later visits (used by the in-game switcher).
+ */
+export function setLocale(tag: string, persist = false): void {
+  const next = resolveLocale(tag);
+  if (!next) {
+    console.warn(`[i18n] Unsupported locale "${tag}", keeping ${locale}`);
+    return;
+  }
+  if (persist) localStorage.setItem(STORAGE_KEY, next);
+
+  const changed = next !== locale;
+  locale = next;
+  GameConfig.locale = next;
+  pluralRules = new Intl.PluralRules(LOCALES[next].intlTag);
+  numberFormat = new Intl.NumberFormat(LOCALES[next].intlTag);
+  document.documentElement.lang = LOCALES[next].intlTag;
+
+  if (!changed) return;
+  console.log(`[i18n] Locale set to ${next}`);
+  applyTranslations();
+  listeners.forEach((listener) => listener(next));
+}
+
+export function initI18n(): void {
+  setLocale(detectLocale());
+  applyTranslations();
+}
+
+// ============================================
+// MESSAGES
+// ============================================
+export function t(key: MessageKey, params: MessageParams = {}): string {
+  const message: Message = LOCALES[locale].catalog[key] ?? en[key];
+  let text: string;
+  if (typeof message === 'string') {
+    text = message;
+  } else {
+    const count = Number(params.count ?? 0);
+    text = message[pluralRules.select(count)] ?? message.other;
+  }
+  return text.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return typeof value === 'number' ? numberFormat.format(value) : value;
+  });
+}
+
+export function hasMessage(key: string): key is MessageKey {
+  return key in en;
+}
+
+/**
+ * Message for a dice symbol's name (the config's `symbols` keep English names).
+ */
+export function symbolMessage(value: number): { key: MessageKey; params?: MessageParams } {
+  const key = `symbol.${value}`;
+  return hasMessage(key) ? { key } : { key: 'symbol.unknown', params: { value } };
+}
+
+export function symbolName(value: number): string {
+  const { key, params } = symbolMessage(value);
+  return t(key, params);
+}
+
+// ============================================
+// FORMATTING
+// ============================================
+export function formatNumber(value: number): string {
+  return numberFormat.format(value);
+}
+
+export function formatTime(timestamp: number, options: Intl.DateTimeFormatOptions = { hour: '2-digit', minute: '2-digit' }): string {
+  return new Intl.DateTimeFormat(getIntlTag(), options).format(timestamp);
+}
+
+// ============================================
+// DOM
+// ============================================
+interface LocalizedAttribute {
+  key: MessageKey;
+  params?: MessageParams;
+}
+
+/**
+ * Set an element's text to a message and remember the key for re-translation.
+ */
+export function localize(element: HTMLElement, key: MessageKey, params?: MessageParams): void {
+  element.dataset.i18n = key;
+  if (params) element.dataset.i18nParams = JSON.stringify(params);
+  else delete element.dataset.i18nParams;
+  element.textContent = t(key, params);
+}
+
+/**
+ * Set an attribute (alt, title, placeholder, aria-label) to a message.
+ */
+export function localizeAttribute(element: HTMLElement, attribute: string, key: MessageKey, params?: MessageParams): void {
+  const attributes: Record<string, LocalizedAttribute> = JSON.parse(element.dataset.i18nAttrs ?? '{}');
+  attributes[attribute] = { key, params };
+  element.dataset.i18nAttrs = JSON.stringify(attributes);
+  element.setAttribute(attribute, t(key, params));
+}
+
+/**
+ * Set text that is not translated (e.g. a server message), dropping any
+ * message key the element carried.
+ */
+export function setPlainText(element: HTMLElement, text: string): void {
+  delete element.dataset.i18n;
+  delete element.dataset.i18nParams;
+  element.textContent = text;
+}
+
+/**
+ * Re-translate every localized element under `root`, including static
+ * markup tagged with data-i18n in index.html.
+ */
+export function applyTranslations(root: ParentNode = document): void {
+  root.querySelectorAll<HTMLElement>('[data-i18n]').forEach((element) => {
+    const key = element.dataset.i18n!;
+    if (!hasMessage(key)) return;
+    const params = element.dataset.i18nParams ? JSON.parse(element.dataset.i18nParams) : undefined;
+    element.textContent = t(key, params);
+  });
+
+  root.querySelectorAll<HTMLElement>('[data-i18n-attrs]').forEach((element) => {
+    const attributes: Record<string, LocalizedAttribute> = JSON.parse(element.dataset.i18nAttrs!);
+    Object.entries(attributes).forEach(([attribute, { key, params }]) => {
+      if (hasMessage(key)) element.setAttribute(attribute, t(key, params));
+    });
+  });
+}
+
+// ============================================
+// LANGUAGE SWITCHER
+// ============================================
+export function initLocaleSwitcher(container: HTMLElement): () => void {
+  container.innerHTML = '';
+
+  const select = document.createElement('select');
+  select.className = 'locale-select';
+  localizeAttribute(select, 'aria-label', 'locale.label');
+  (Object.keys(LOCALES) as Locale[]).forEach((code) => {
+    const option = document.createElement('option');
+    option.value = code;
+    option.textContent = LOCALES[code].nativeName;
+    option.lang = LOCALES[code].intlTag;
+    select.appendChild(option);
+  });
+  select.value = locale;
+  select.addEventListener('change', () => setLocale(select.value, true));
+
+  container.appendChild(select);
+  return onLocaleChange((next) => {
+    select.value = next;
+  });
+}
@@ -0,0 +1,72 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import { GameConfig } from './config';
+import { getResourceStats } from './lifecycle';
+import { mount, type GameHandle, type SceneRenderer } from './main';
+
+// Fast offline rounds, idle long enough for each reveal to land; jsdom loads
+// no images, so faces time out at once and are drawn
+Object.assign(GameConfig.simulator, { enabled: true, leadMs: 50, roundMs: 100, idleMs: 1000, cancelRate: 0 });
+Object.assign(GameConfig.assets, { retries: 0, timeoutMs: 10, retryDelayMs: 0 });
+GameConfig.rollDuration = 100;
+
+// Stands in for WebGL, which jsdom lacks
+function createTestRenderer({ canvas }: THREE.WebGLRendererParameters): SceneRenderer {
+  return {
+    domElement: canvas as HTMLCanvasElement,
+    shadowMap: { enabled: false, type: THREE.PCFSoftShadowMap } as THREE.WebGLShadowMap,
+    outputColorSpace: THREE.SRGBColorSpace,
+    setSize: () => {},
+    setPixelRatio: () => {},
+    render: () => {},
+    dispose: () => {},
+    forceContextLoss: () => {},
+  };
+}
+
+function createContainer(): HTMLElement {
+  const container = document.createElement('div');
+  document.body.appendChild(container);
+  return container;
+}
+
+function nextResult(game: GameHandle): Promise<number | null> {
+  return new Promise((resolve) => game.events.once('result', ({ chatId }) => resolve(chatId)));
+}
+
+describe('mount and unmount', () => {
+  it('runs two games on one page, each on its own table, and releases everything', async () => {
+    const first = await mount(createContainer(), { chatId: 1, createRenderer: createTestRenderer });
+    const second = await mount(createContainer(), { chatId: 2, createRenderer: createTestRenderer });
+
+    // Each game's ids, and the ARIA references to them, are its own
+    const ids = [...document.querySelectorAll('[id]')].map((element) => element.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(first.container.querySelector('.countdown-container')!.getAttribute('aria-labelledby')).toBe(
+      first.container.querySelector('.status-text')!.id
+    );
+
+    // A round on each, so dice, highlights, timers and connections are all live
+    expect(await Promise.all([nextResult(first), nextResult(second)])).toEqual([1, 2]);
+    expect(first.getState()).toMatchObject({ chatId: 1, connected: true });
+    expect(second.getState()).toMatchObject({ chatId: 2, connected: true });
+    expect(getResourceStats().materials).toBeGreaterThan(0);
+
+    first.unmount();
+    second.unmount();
+    expect(getResourceStats()).toEqual({ geometries: 0, materials: 0, textures: 0, cleanups: 0 });
+    expect(first.container.childElementCount).toBe(0);
+    expect(second.container.childElementCount).toBe(0);
+  }, 10000);
+
+  it('refuses a second game in the same container until the first is unmounted', async () => {
+    const container = createContainer();
+    const game = await mount(container, { chatId: 1, createRenderer: createTestRenderer });
+    await expect(mount(container, { createRenderer: createTestRenderer })).rejects.toThrow('already mounted');
+
+    game.unmount();
+    const again = await mount(container, { chatId: 1, createRenderer: createTestRenderer });
+    again.unmount();
+    expect(getResourceStats()).toEqual({ geometries: 0, materials: 0, textures: 0, cleanups: 0 });
+  });
+});
@@ -0,0 +1,103 @@
+import * as THREE from 'three';
+
+/**
+ * Lifecycle
+ * Bookkeeping for mount/unmount. A disposer collects what a mounted game
+ * must undo (listeners, subscriptions, module set-ups) and runs it in
+ * reverse order. Three.js geometries, materials and textures are counted
+ * from creation until their dispose() call, so a leak test can check that
+ * nothing outlives an unmount:
+ *
+ *   const game = await mountGame(el); game.unmount();
+ *   getResourceStats(); // all zeros
+ */
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+export interface Disposer {
+  // Run `cleanup` on dispose
+  add: (cleanup: () => void) => void;
+  // addEventListener, removed again on dispose
+  listen: <E extends Event>(target: EventTarget, type: string, listener: (event: E) => void) => void;
+  // Run every cleanup, newest first; the disposer can be reused afterwards
+  dispose: () => void;
+}
+
+export interface ResourceStats {
+  geometries: number;
+  materials: number;
+  textures: number;
+  // Cleanups registered with disposers and not yet run
+  cleanups: number;
+}
+
+type TrackedResource = THREE.BufferGeometry | THREE.Material | THREE.Texture;
+
+// ============================================
+// DISPOSER
+// ============================================
+let pendingCleanups = 0;
+
+export function createDisposer(): Disposer {
+  let cleanups: (() => void)[] = [];
+
+  const add = (cleanup: () => void) => {
+    cleanups.push(cleanup);
+    pendingCleanups++;
+  };
+
+  return {
+    add,
+
+    listen(target, type, listener) {
+      const handler = listener as EventListener;
+      target.addEventListener(type, handler);
+      add(() => target.removeEventListener(type, handler));
+    },
+
+    dispose() {
+      const pending = cleanups.reverse();
+      cleanups = [];
+      pendingCleanups -= pending.length;
+      pending.forEach((cleanup) => {
+        // One failing cleanup must not leave the rest behind
+        try {
+          cleanup();
+        } catch (err) {
+          console.error('[Lifecycle] Cleanup failed', err);
+        }
+      });
+    },
+  };
+}
+
+// ============================================
+// RESOURCE TRACKING
+// ============================================
+const liveResources = { geometries: 0, materials: 0, textures: 0 };
+
+function resourceKind(resource: TrackedResource): keyof typeof liveResources {
+  if (resource instanceof THREE.Texture) return 'textures';
+  if (resource instanceof THREE.Material) return 'materials';
+  return 'geometries';
+}
+
+/**
+ * Count `resource` as live until it is disposed.
+ */
+export function trackResource<T extends TrackedResource>(resource: T): T {
+  const kind = resourceKind(resource);
+  liveResources[kind]++;
+  const dispatcher = resource as unknown as THREE.EventDispatcher<{ dispose: object }>;
+  const onDispose = () => {
+    liveResources[kind]--;
+    dispatcher.removeEventListener('dispose', onDispose);
+  };
+  dispatcher.addEventListener('dispose', onDispose);
+  return resource;
+}
+
+export function getResourceStats(): ResourceStats {
+  return { ...liveResources, cleanups: pendingCleanups };
+}
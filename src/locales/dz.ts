@@ -0,0 +1,95 @@
+import type { Catalog } from '../i18n';
+
+/**
+ * Dzongkha messages. Dzongkha has no plural forms.
+ */
+export const dz: Catalog = {
+  'loading.text': 'ཆ་རྐྱེན་ བཀལ་དོ...',
+  'loading.progress': 'ཆ་རྐྱེན་ བཀལ་དོ... {percent}%',
+  'loading.failed': 'ཆ་རྐྱེན་ བཀལ་མ་ཚུགས། ཤོག་ལེབ་ ལོག་བཀལ།',
+  'loading.retry': 'ལོག་འབད',
+  'loading.dismiss': 'ཁ་བསྡམས',
+  'loading.degraded': 'པར་ལ་ལོ་ཅིག་ བཀལ་མ་ཚུགས། པར་རིས་ འཇམ་ཏོག་ཏོ་ སྟོན་དོ།',
+
+  'connection.connecting': 'མཐུད་དོ...',
+  'connection.connected': 'མཐུད་ཡོད',
+  'connection.disconnected': 'མཐུད་མེད',
+  'connection.lost': 'མཐུད་ལམ་ ཆད་སོང་',
+  'connection.offline': 'ཡོངས་འབྲེལ་མེད',
+  'connection.failed': 'མཐུད་མ་ཚུགས',
+  'connection.reconnecting': 'སྐར་ཆ་ {count} ནང་ ལོག་མཐུད་དོ...',
+  'connection.sessionExpired': 'ནང་འཛུལ་གྱི་དུས་ཚོད་ རྫོགས་ཡི',
+  'connection.signInRequired': 'ནང་འཛུལ་འབད་དགོ',
+
+  'round.starting': 'ཐེངས་ འགོ་བཙུགས་དོ',
+  'round.startingSoon': 'ཐེངས་ ཨ་ཙི་ཅིག་ལས་ འགོ་བཙུགས་འོང་...',
+  'round.rollingSoon': 'ཨ་ཙི་ཅིག་ལས་ ཤོ་འཕེན་འོང་...',
+  'round.startingIn': 'སྐར་ཆ་ {count} ནང་ ཐེངས་ འགོ་བཙུགས་འོང་',
+  'round.resultIn': 'སྐར་ཆ་ {count} ནང་ གྲུབ་འབྲས་ཐོན་འོང་',
+  'round.getReady': 'གྲ་སྒྲིག་འབད...',
+  'round.waitingForNext': 'ཤུལ་མའི་ཐེངས་ བསྒུག་དོ...',
+  'round.waitingForResult': 'གྲུབ་འབྲས་ བསྒུག་དོ...',
+  'round.switchingTable': 'ཅོག་ཙེ་ སོར་དོ...',
+
+  'result.round': 'ཐེངས་ཀྱི་ གྲུབ་འབྲས',
+  'result.last': 'ཧེ་མམ་གྱི་ གྲུབ་འབྲས',
+  'result.replayOf': 'ཐེངས་ {roundId} ལོག་སྟོན',
+  'result.betLine': '{symbol} ×{matches} · བཙུགས་ {stake} · {outcome}',
+  'result.won': '{amount} རྒྱལ་ཡི',
+  'result.lost': '{amount} ཕམ་ཡི',
+  'result.even': 'ཁེ་ཕམ་མེད',
+  'result.count': '×{count}',
+
+  'symbol.1': 'སི་པེཌ',
+  'symbol.2': 'ཀ་ལབ',
+  'symbol.3': 'དར་ཆ',
+  'symbol.4': 'ཅོད་པཎ',
+  'symbol.5': 'ཧཱཊ',
+  'symbol.6': 'ཌའི་མཎ',
+  'symbol.unknown': 'ཤོ་ {value}',
+
+  'bet.clear': 'བསལ',
+  'bet.place': 'བཙུགས',
+  'bet.placing': 'བཙུགས་དོ...',
+  'bet.placed': 'བཙུགས་ཡི། ལཱ་ཐོབ་ཤོག!',
+  'bet.closed': 'བཙུགས་ནི་ བསྡམས་ཡི',
+  'bet.prompt': 'བཙུགས་ནི་ལུ་ རྟགས་ཅིག་ ཨེབ',
+  'bet.rejected': 'བཙུགས་ནི་ ངོས་ལེན་མ་འབད',
+  'bet.failed': 'བཙུགས་མ་ཚུགས། ལོག་འབད་རྩོལ་བསྐྱེད།',
+
+  'history.toggle': 'ལོ་རྒྱུས',
+  'history.statistics': 'གྲངས་ཐོ་ · ཐེངས་ {count}',
+  'history.lastRounds': 'མཇུག་གི་ཐེངས་ {count}',
+  'history.count': 'གྱངས་ཁ',
+  'history.streak': 'རྒྱུན་མཐུད',
+  'history.best': 'ལེགས་ཤོས',
+  'history.since': 'བར་མཚམས',
+  'history.replay': 'ལོག་སྟོན',
+  'history.loadReplay': 'ལོག་སྟོན་ཡིག་སྣོད་ བཀལ…',
+
+  'replay.title': 'ལོག་སྟོན་ · {roundId} · སྐར་ཆ་ {seconds}',
+  'replay.play': 'གཏང',
+  'replay.pause': 'བཀག',
+  'replay.step': 'གོ་རིམ',
+  'replay.restart': 'ལོག་འགོ་བཙུགས',
+  'replay.export': 'ཕྱིར་འདྲེན',
+  'replay.exit': 'ཕྱིར་ཐོན',
+
+  'auth.title': 'ནང་འཛུལ',
+  'auth.username': 'ལག་ལེན་པའི་མིང',
+  'auth.password': 'ཆོག་ཡིག',
+  'auth.submit': 'ནང་འཛུལ',
+  'auth.failed': 'ནང་འཛུལ་མ་ཚུགས། ཁ་གསལ་ཞིབ་དཔྱད་འབད་དེ་ ལོག་འབད།',
+  'auth.expired': 'ནང་འཛུལ་གྱི་དུས་ཚོད་ རྫོགས་ཡི། ལོག་ནང་འཛུལ་འབད།',
+
+  'sound.volume': 'སྒྲ་ཤུགས',
+  'sound.mute': 'སྒྲ་བཀག',
+  'sound.unmute': 'སྒྲ་གཏང',
+  'locale.label': 'སྐད་ཡིག',
+
+  'a11y.roundScheduled': 'ཐེངས་གསརཔ་ སྐར་ཆ་ {count} ནང་ འགོ་བཙུགས་འོང་',
+  'a11y.roundStarted': 'ཐེངས་ འགོ་བཙུགས་ཡི། སྐར་ཆ་ {count} ནང་ གྲུབ་འབྲས་ཐོན་འོང་',
+  'a11y.roundCancelled': 'ཐེངས་ ཆ་མེད་བཏང་ཡི',
+  'a11y.result': 'གྲུབ་འབྲས: {summary}',
+  'a11y.symbolCount': '{symbol}: {count}',
+};
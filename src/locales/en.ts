@@ -0,0 +1,126 @@
+/**
+ * English messages. This catalog defines every message key; the other
+ * locales may leave keys out and fall back to it.
+ */
+export const en = {
+  // Loading screen
+  'loading.text': 'Loading assets...',
+  'loading.progress': 'Loading assets... {percent}%',
+  'loading.failed': 'Failed to load assets. Please refresh.',
+  'loading.retry': 'Retry',
+  'loading.dismiss': 'Dismiss',
+  'loading.degraded': 'Some images could not be loaded. Showing simplified graphics.',
+
+  // Connection status
+  'connection.connecting': 'Connecting...',
+  'connection.connected': 'Connected',
+  'connection.disconnected': 'Disconnected',
+  'connection.lost': 'Connection lost',
+  'connection.offline': 'Offline',
+  'connection.failed': 'Connection failed',
+  'connection.reconnecting': {
+    one: 'Reconnecting in {count} second...',
+    other: 'Reconnecting in {count} seconds...',
+  },
+  'connection.sessionExpired': 'Session expired',
+  'connection.signInRequired': 'Sign in required',
+
+  // Round countdown and waiting states
+  'round.starting': 'Starting Round',
+  'round.startingSoon': 'Round starting soon...',
+  'round.rollingSoon': 'Rolling soon...',
+  'round.startingIn': {
+    one: 'Round starting in {count} second',
+    other: 'Round starting in {count} seconds',
+  },
+  'round.resultIn': {
+    one: 'Result in {count} second',
+    other: 'Result in {count} seconds',
+  },
+  'round.getReady': 'Get ready...',
+  'round.waitingForNext': 'Waiting for next round...',
+  'round.waitingForResult': 'Waiting for result...',
+  'round.switchingTable': 'Switching table...',
+
+  // Result overlay
+  'result.round': 'Round Result',
+  'result.last': 'Last Result',
+  'result.replayOf': 'Replay of round {roundId}',
+  'result.betLine': '{symbol} ×{matches} · stake {stake} · {outcome}',
+  'result.won': 'You won {amount}',
+  'result.lost': 'You lost {amount}',
+  'result.even': 'You broke even',
+  'result.count': '×{count}',
+
+  // Dice symbols
+  'symbol.1': 'Spade',
+  'symbol.2': 'Club',
+  'symbol.3': 'Flag',
+  'symbol.4': 'Crown',
+  'symbol.5': 'Heart',
+  'symbol.6': 'Diamond',
+  'symbol.unknown': 'Dice {value}',
+
+  // Betting board
+  'bet.clear': 'Clear',
+  'bet.place': 'Place Bets',
+  'bet.placing': 'Placing bets...',
+  'bet.placed': 'Bets placed. Good luck!',
+  'bet.closed': 'Betting closed',
+  'bet.prompt': 'Tap a symbol to stake',
+  'bet.rejected': 'Bets rejected',
+  'bet.failed': 'Could not place bets. Try again.',
+
+  // History panel
+  'history.toggle': 'History',
+  'history.statistics': {
+    one: 'Statistics · {count} round',
+    other: 'Statistics · {count} rounds',
+  },
+  'history.lastRounds': {
+    one: 'Last round',
+    other: 'Last {count} rounds',
+  },
+  'history.count': 'Count',
+  'history.streak': 'Streak',
+  'history.best': 'Best',
+  'history.since': 'Since',
+  'history.replay': 'Replay',
+  'history.loadReplay': 'Load replay file…',
+
+  // Replay controls
+  'replay.title': 'Replay · {roundId} · {seconds}s',
+  'replay.play': 'Play',
+  'replay.pause': 'Pause',
+  'replay.step': 'Step',
+  'replay.restart': 'Restart',
+  'replay.export': 'Export',
+  'replay.exit': 'Exit',
+
+  // Sign-in
+  'auth.title': 'Sign in',
+  'auth.username': 'Username',
+  'auth.password': 'Password',
+  'auth.submit': 'Sign in',
+  'auth.failed': 'Sign in failed. Check your details and try again.',
+  'auth.expired': 'Your session has expired. Please sign in again.',
+
+  // Header controls
+  'sound.volume': 'Volume',
+  'sound.mute': 'Mute',
+  'sound.unmute': 'Unmute',
+  'locale.label': 'Language',
+
+  // Screen-reader announcements
+  'a11y.roundScheduled': {
+    one: 'New round starts in {count} second',
+    other: 'New round starts in {count} seconds',
+  },
+  'a11y.roundStarted': {
+    one: 'Round started. Result in {count} second',
+    other: 'Round started. Result in {count} seconds',
+  },
+  'a11y.roundCancelled': 'Round cancelled',
+  'a11y.result': 'Result: {summary}',
+  'a11y.symbolCount': '{symbol}: {count}',
+};
@@ -0,0 +1,95 @@
+import type { Catalog } from '../i18n';
+
+/**
+ * Hindi messages.
+ */
+export const hi: Catalog = {
+  'loading.text': 'एसेट लोड हो रहे हैं...',
+  'loading.progress': 'एसेट लोड हो रहे हैं... {percent}%',
+  'loading.failed': 'एसेट लोड नहीं हो सके। कृपया पेज रीफ़्रेश करें।',
+  'loading.retry': 'फिर से कोशिश करें',
+  'loading.dismiss': 'बंद करें',
+  'loading.degraded': 'कुछ चित्र लोड नहीं हो सके। सरल ग्राफ़िक्स दिखाए जा रहे हैं।',
+
+  'connection.connecting': 'कनेक्ट हो रहा है...',
+  'connection.connected': 'कनेक्टेड',
+  'connection.disconnected': 'डिस्कनेक्टेड',
+  'connection.lost': 'कनेक्शन टूट गया',
+  'connection.offline': 'ऑफ़लाइन',
+  'connection.failed': 'कनेक्शन विफल',
+  'connection.reconnecting': '{count} सेकंड में फिर से कनेक्ट हो रहा है...',
+  'connection.sessionExpired': 'सत्र समाप्त हो गया',
+  'connection.signInRequired': 'साइन इन आवश्यक है',
+
+  'round.starting': 'राउंड शुरू हो रहा है',
+  'round.startingSoon': 'राउंड जल्द शुरू होगा...',
+  'round.rollingSoon': 'पासे जल्द फेंके जाएंगे...',
+  'round.startingIn': '{count} सेकंड में राउंड शुरू',
+  'round.resultIn': '{count} सेकंड में परिणाम',
+  'round.getReady': 'तैयार हो जाइए...',
+  'round.waitingForNext': 'अगले राउंड की प्रतीक्षा...',
+  'round.waitingForResult': 'परिणाम की प्रतीक्षा...',
+  'round.switchingTable': 'टेबल बदली जा रही है...',
+
+  'result.round': 'राउंड का परिणाम',
+  'result.last': 'पिछला परिणाम',
+  'result.replayOf': 'राउंड {roundId} का रीप्ले',
+  'result.betLine': '{symbol} ×{matches} · दांव {stake} · {outcome}',
+  'result.won': 'आप {amount} जीते',
+  'result.lost': 'आप {amount} हारे',
+  'result.even': 'न लाभ, न हानि',
+  'result.count': '×{count}',
+
+  'symbol.1': 'हुकुम',
+  'symbol.2': 'चिड़ी',
+  'symbol.3': 'झंडा',
+  'symbol.4': 'मुकुट',
+  'symbol.5': 'पान',
+  'symbol.6': 'ईंट',
+  'symbol.unknown': 'पासा {value}',
+
+  'bet.clear': 'साफ़ करें',
+  'bet.place': 'दांव लगाएं',
+  'bet.placing': 'दांव लगाए जा रहे हैं...',
+  'bet.placed': 'दांव लग गए। शुभकामनाएं!',
+  'bet.closed': 'दांव बंद',
+  'bet.prompt': 'दांव लगाने के लिए चिह्न पर टैप करें',
+  'bet.rejected': 'दांव अस्वीकार',
+  'bet.failed': 'दांव नहीं लग सके। फिर से कोशिश करें।',
+
+  'history.toggle': 'इतिहास',
+  'history.statistics': 'आँकड़े · {count} राउंड',
+  'history.lastRounds': 'पिछले {count} राउंड',
+  'history.count': 'संख्या',
+  'history.streak': 'लगातार',
+  'history.best': 'सर्वश्रेष्ठ',
+  'history.since': 'अंतराल',
+  'history.replay': 'रीप्ले',
+  'history.loadReplay': 'रीप्ले फ़ाइल लोड करें…',
+
+  'replay.title': 'रीप्ले · {roundId} · {seconds} से.',
+  'replay.play': 'चलाएं',
+  'replay.pause': 'रोकें',
+  'replay.step': 'एक कदम',
+  'replay.restart': 'फिर से शुरू',
+  'replay.export': 'निर्यात',
+  'replay.exit': 'बाहर निकलें',
+
+  'auth.title': 'साइन इन',
+  'auth.username': 'उपयोगकर्ता नाम',
+  'auth.password': 'पासवर्ड',
+  'auth.submit': 'साइन इन करें',
+  'auth.failed': 'साइन इन विफल। अपना विवरण जाँचें और फिर से प्रयास करें।',
+  'auth.expired': 'आपका सत्र समाप्त हो गया है। कृपया फिर से साइन इन करें।',
+
+  'sound.volume': 'आवाज़',
+  'sound.mute': 'आवाज़ बंद',
+  'sound.unmute': 'आवाज़ चालू',
+  'locale.label': 'भाषा',
+
+  'a11y.roundScheduled': 'नया राउंड {count} सेकंड में शुरू होगा',
+  'a11y.roundStarted': 'राउंड शुरू हुआ। परिणाम {count} सेकंड में',
+  'a11y.roundCancelled': 'राउंड रद्द हुआ',
+  'a11y.result': 'परिणाम: {summary}',
+  'a11y.symbolCount': '{symbol}: {count}',
+};
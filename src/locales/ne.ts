@@ -0,0 +1,98 @@
+import type { Catalog } from '../i18n';
+
+/**
+ * Nepali messages.
+ */
+export const ne: Catalog = {
+  'loading.text': 'सामग्री लोड हुँदैछ...',
+  'loading.progress': 'सामग्री लोड हुँदैछ... {percent}%',
+  'loading.failed': 'सामग्री लोड हुन सकेन। कृपया पृष्ठ रिफ्रेस गर्नुहोस्।',
+  'loading.retry': 'पुनः प्रयास गर्नुहोस्',
+  'loading.dismiss': 'बन्द गर्नुहोस्',
+  'loading.degraded': 'केही तस्बिरहरू लोड हुन सकेनन्। सरल ग्राफिक्स देखाइँदैछ।',
+
+  'connection.connecting': 'जडान हुँदैछ...',
+  'connection.connected': 'जडान भयो',
+  'connection.disconnected': 'जडान छैन',
+  'connection.lost': 'जडान टुट्यो',
+  'connection.offline': 'अफलाइन',
+  'connection.failed': 'जडान असफल',
+  'connection.reconnecting': '{count} सेकेन्डमा पुनः जडान हुँदैछ...',
+  'connection.sessionExpired': 'सत्र सकियो',
+  'connection.signInRequired': 'साइन इन आवश्यक छ',
+
+  'round.starting': 'राउन्ड सुरु हुँदैछ',
+  'round.startingSoon': 'राउन्ड छिट्टै सुरु हुँदैछ...',
+  'round.rollingSoon': 'छिट्टै पासा फालिँदैछ...',
+  'round.startingIn': '{count} सेकेन्डमा राउन्ड सुरु',
+  'round.resultIn': '{count} सेकेन्डमा नतिजा',
+  'round.getReady': 'तयार हुनुहोस्...',
+  'round.waitingForNext': 'अर्को राउन्डको प्रतीक्षा...',
+  'round.waitingForResult': 'नतिजाको प्रतीक्षा...',
+  'round.switchingTable': 'टेबल बदलिँदैछ...',
+
+  'result.round': 'राउन्डको नतिजा',
+  'result.last': 'अघिल्लो नतिजा',
+  'result.replayOf': 'राउन्ड {roundId} को रिप्ले',
+  'result.betLine': '{symbol} ×{matches} · बाजी {stake} · {outcome}',
+  'result.won': 'तपाईंले {amount} जित्नुभयो',
+  'result.lost': 'तपाईंले {amount} हार्नुभयो',
+  'result.even': 'न नाफा न घाटा',
+  'result.count': '×{count}',
+
+  'symbol.1': 'सुरत',
+  'symbol.2': 'चिडी',
+  'symbol.3': 'झन्डा',
+  'symbol.4': 'मुकुट',
+  'symbol.5': 'पान',
+  'symbol.6': 'इँट',
+  'symbol.unknown': 'पासा {value}',
+
+  'bet.clear': 'खाली गर्नुहोस्',
+  'bet.place': 'बाजी राख्नुहोस्',
+  'bet.placing': 'बाजी राखिँदैछ...',
+  'bet.placed': 'बाजी राखियो। शुभकामना!',
+  'bet.closed': 'बाजी बन्द',
+  'bet.prompt': 'बाजी राख्न चिन्हमा थिच्नुहोस्',
+  'bet.rejected': 'बाजी अस्वीकार भयो',
+  'bet.failed': 'बाजी राख्न सकिएन। फेरि प्रयास गर्नुहोस्।',
+
+  'history.toggle': 'इतिहास',
+  'history.statistics': 'तथ्याङ्क · {count} राउन्ड',
+  'history.lastRounds': {
+    one: 'पछिल्लो राउन्ड',
+    other: 'पछिल्ला {count} राउन्ड',
+  },
+  'history.count': 'संख्या',
+  'history.streak': 'लगातार',
+  'history.best': 'उत्कृष्ट',
+  'history.since': 'अन्तराल',
+  'history.replay': 'रिप्ले',
+  'history.loadReplay': 'रिप्ले फाइल खोल्नुहोस्…',
+
+  'replay.title': 'रिप्ले · {roundId} · {seconds} से.',
+  'replay.play': 'चलाउनुहोस्',
+  'replay.pause': 'रोक्नुहोस्',
+  'replay.step': 'एक चरण',
+  'replay.restart': 'फेरि सुरु',
+  'replay.export': 'निर्यात',
+  'replay.exit': 'बाहिर निस्कनुहोस्',
+
+  'auth.title': 'साइन इन',
+  'auth.username': 'प्रयोगकर्ता नाम',
+  'auth.password': 'पासवर्ड',
+  'auth.submit': 'साइन इन गर्नुहोस्',
+  'auth.failed': 'साइन इन असफल भयो। विवरण जाँचेर फेरि प्रयास गर्नुहोस्।',
+  'auth.expired': 'तपाईंको सत्र सकियो। कृपया फेरि साइन इन गर्नुहोस्।',
+
+  'sound.volume': 'आवाज',
+  'sound.mute': 'आवाज बन्द',
+  'sound.unmute': 'आवाज खोल्नुहोस्',
+  'locale.label': 'भाषा',
+
+  'a11y.roundScheduled': 'नयाँ राउन्ड {count} सेकेन्डमा सुरु हुन्छ',
+  'a11y.roundStarted': 'राउन्ड सुरु भयो। नतिजा {count} सेकेन्डमा',
+  'a11y.roundCancelled': 'राउन्ड रद्द भयो',
+  'a11y.result': 'नतिजा: {summary}',
+  'a11y.symbolCount': '{symbol}: {count}',
+};
@@ -1,6 +1,92 @@
 import * as THREE from 'three';
 import { RoundedBoxGeometry } from 'three/examples/jsm/geometries/RoundedBoxGeometry.js';
-import { GameConfig, symbols, faceRotations } from './config';
+import { GameConfig, faceRotations, parseChatId } from './config';
+import { createBettingBoard, setBetClient, type BetClient, type PayoutBreakdown } from './betting';
+import { createRoundHistory } from './history';
+import {
+  getEventName,
+  parseEvent,
+  parseSnapshot,
+  parseRoundRecord,
+  getProtocolRejections,
+  type EventKind,
+  type EventPayloads,
+  type ProtocolRejection,
+  type RoundRecord,
+} from './protocol';
+import { createRoundMachine, type RoundPhase, type RoundTransition } from './roundMachine';
+import {
+  createReplayControls,
+  createReplayPlayer,
+  fetchRoundRecord,
+  parseRoundExport,
+  downloadRoundExport,
+  type ReplayPhase,
+  type ReplayPlayer,
+} from './replay';
+import { simulateRoll, landingCorrection, hashSeed, type DieTrack, type PhysicsBounds } from './physics';
+import {
+  initAuth,
+  initLoginForm,
+  onSessionChange,
+  getSessionStatus,
+  getAuthToken,
+  setSession,
+  type SessionStatus,
+} from './auth';
+import { initHostBridge, emitToHost } from './hostBridge';
+import {
+  createGameEventEmitter,
+  gameEvents,
+  type GameEventEmitter,
+  type GameEventMap,
+  type GameEventName,
+} from './gameEvents';
+import { createClockSync, type ClockSyncStats } from './clockSync';
+import { createTableClock } from './clock';
+import { apiFetch, createTransport, getReconnectDelay, setLocalBackend, type Transport } from './transport';
+import { createSimulator } from './simulator';
+import {
+  formatNumber,
+  initI18n,
+  initLocaleSwitcher,
+  localize,
+  onLocaleChange,
+  localizeAttribute,
+  setLocale,
+  symbolMessage,
+  symbolName,
+  t,
+  type MessageKey,
+  type MessageParams,
+} from './i18n';
+import { createAnnouncer, describeResult, initReducedMotion, prefersReducedMotion } from './a11y';
+import {
+  closeAudio,
+  initAudioUnlock,
+  initSoundControls,
+  onAudioSettingsChange,
+  playSound,
+  preloadSounds,
+  setSoundMuted,
+  SOUND_NAMES,
+} from './audio';
+import {
+  applyTheme,
+  DEFAULT_THEME,
+  loadTheme,
+  resetTheme,
+  setFaceImage,
+  type DieMaterialOptions,
+  type LoadedTheme,
+  type ThemeManifest,
+  type ThemeTextures,
+} from './theme';
+import { createRenderLoop, findQualityLevel, QUALITY_LEVELS, type FrameReport } from './renderLoop';
+import { createDisposer, getResourceStats, trackResource, type ResourceStats } from './lifecycle';
+import { gameElementId, renderGameMarkup } from './markup';
+import { createCameraRig, type CameraRig } from './cameraRig';
+import { defaultDiceValues, getTableVariant, groupResult, layoutDice, type GameVariant } from './variants';
 import './style.css';
 
 // ============================================
@@ -17,91 +103,65 @@ interface BasePosition {
   z: number;
 }
 
-interface GameState {
-  state: string;
+export interface GameState {
+  state: RoundPhase;
+  chatId: number | null;
   roundId: string | null;
   targetValues: number[];
+  variant: string;
   connected: boolean;
+  session: SessionStatus;
 }
 
-// SSE Event Types
-interface LastOutcomeEvent {
-  chatId: number;
-  diceValues: number[];
-  updatedAt: number;
-  roundId: string | null;
-  serverNow: number;
-}
-
-interface RoundScheduledEvent {
-  chatId: number;
-  startAt: number;
-  endAt: number;
-  totalMs?: number;
-  remainingMs?: number;
-  serverNow: number;
-}
-
-interface RoundStartedEvent {
-  roundId: string;
-  chatId: number;
-  startAt: number;
-  endAt: number;
-  totalMs?: number;
-  remainingMs?: number;
-  serverNow: number;
-}
-
-interface RoundResultEvent {
-  roundId: string;
-  chatId: number;
-  diceValues: number[];
-  serverNow: number;
+// The part of THREE.WebGLRenderer the game uses
+export type SceneRenderer = Pick<
+  THREE.WebGLRenderer,
+  'domElement' | 'setSize' | 'setPixelRatio' | 'render' | 'dispose' | 'forceContextLoss' | 'shadowMap' | 'outputColorSpace'
+>;
+
+export interface MountOptions {
+  // Table to follow; without one the game follows ?chatId= and keeps it in the URL
+  chatId?: number | null;
+  // Theme to start with (default: ?theme= or GameConfig.theme)
+  theme?: string;
+  // Builds the renderer (default: a THREE.WebGLRenderer); for environments without WebGL
+  createRenderer?: (parameters: THREE.WebGLRendererParameters) => SceneRenderer;
 }
 
-interface RoundCancelledEvent {
-  chatId: number;
-  serverNow: number;
+// One mounted game; see mount()
+export interface GameHandle {
+  container: HTMLElement;
+  getState: () => GameState;
+  setChatId: (chatId: number | string) => void;
+  reconnect: () => void;
+  setTheme: (themeId: string) => Promise<void>;
+  replayRound: (source: string | RoundRecord | File) => Promise<void>;
+  exitReplay: () => void;
+  getClockStats: () => ClockSyncStats;
+  getRenderStats: () => FrameReport;
+  // This game's events only (gameEvents carries every game's)
+  events: Pick<GameEventEmitter, 'on' | 'once' | 'off'>;
+  // Stop the game and empty its container
+  unmount: () => void;
 }
 
-type SnapshotResponse =
-  | {
-      state: 'SCHEDULED';
-      chatId: number;
-      startAt: number;
-      endAt: number;
-      lastOutcome: { diceValues: number[]; updatedAt: number; roundId: string | null };
-      serverNow: number;
-      totalMs?: number;
-      remainingMs?: number;
-    }
-  | {
-      state: 'STARTED_OR_REVEALED';
-      chatId: number;
-      round: {
-        id: string;
-        name: string | null;
-        startAt: number;
-        endAt: number;
-        diceValues: number[] | null;
-        totalMs?: number;
-        remainingMs?: number;
-      };
-      lastOutcome: { diceValues: number[]; updatedAt: number; roundId: string | null };
-      serverNow: number;
-    }
-  | {
-      state: 'IDLE';
-      chatId: number;
-      lastOutcome: { diceValues: number[]; updatedAt: number; roundId: string | null };
-      serverNow: number;
-    };
-
 // Extend Window interface for global API
 declare global {
   interface Window {
+    // These drive the page's first game (see pageGame)
     getGameState: () => GameState;
     reconnect: () => void;
+    setChatId: (chatId: number | string) => void;
+    replayRound: (source: string | RoundRecord | File) => Promise<void>;
+    exitReplay: () => void;
+    getClockStats: () => ClockSyncStats;
+    getRenderStats: () => FrameReport;
+    setBetClient: (client: BetClient) => void;
+    getProtocolRejections: () => ProtocolRejection[];
+    setAuthToken: (token: string, expiresAt?: number) => void;
+    mountGame: (container: HTMLElement, options?: MountOptions) => Promise<GameHandle>;
+    getResourceStats: () => ResourceStats;
+    gameEvents: Pick<GameEventEmitter, 'on' | 'once' | 'off'>;
   }
 }
 
@@ -115,754 +175,102 @@ Object.entries(faceRotations).forEach(([key, rot]) => {
 });
 
 // ============================================
-// THREE.JS VARIABLES
-// ============================================
-let scene: THREE.Scene;
-let camera: THREE.PerspectiveCamera;
-let renderer: THREE.WebGLRenderer;
-let dice: THREE.Mesh<RoundedBoxGeometry, THREE.MeshStandardMaterial[]>[] = [];
-let rollCount = 0;
-const basePositions: BasePosition[] = [];
-
-// Preloaded textures
-const diceTextures: Map<number, THREE.Texture> = new Map();
-let woodTexture: THREE.Texture | null = null;
-
-// Game state
-let gameState: 'idle' | 'waiting' | 'countdown' | 'rolling' | 'result' = 'idle';
-let scheduledStartAt: number | null = null;
-let scheduledEndAt: number | null = null;
-let countdownHandle: number | null = null;
-let countdownHandleMode: 'raf' | 'timeout' | null = null;
-let countdownTotalMs: number | null = null;
-let cancelledUntil: number | null = null;
-let waitingStateTimeout: number | null = null;
-let isFetchingSnapshot = false;
-let timeSyncInterval: number | null = null;
-
-// SSE connection
-let eventSource: EventSource | null = null;
-let reconnectAttempts = 0;
-let isConnected = false;
-
-// DOM Elements
-let loadingScreen: HTMLElement;
-let loadingProgress: HTMLElement;
-let loadingText: HTMLElement;
-let gameOverlay: HTMLElement;
-let resultOverlay: HTMLElement;
-let countdownProgress: SVGCircleElement;
-let countdownText: HTMLElement;
-let statusText: HTMLElement;
-let resultSymbols: HTMLElement;
-let nextRoundText: HTMLElement;
-let clockTime: HTMLElement;
-let connectionStatus: HTMLElement;
-
-// ============================================
-// BHUTAN CLOCK
-// ============================================
-function updateBhutanClock(): void {
-  const now = new Date();
-  const bhutanTime = new Date(now.toLocaleString('en-US', { timeZone: 'Asia/Thimphu' }));
-  
-  const hours = String(bhutanTime.getHours()).padStart(2, '0');
-  const minutes = String(bhutanTime.getMinutes()).padStart(2, '0');
-  
-  clockTime.textContent = `${hours}:${minutes}`;
-}
-
-function initClock(): void {
-  clockTime = document.getElementById('clockTime')!;
-  updateBhutanClock();
-  setInterval(updateBhutanClock, 1000);
-}
-
-// ============================================
-// SERVER TIME SYNC
-// ============================================
-function getServerTime(): number {
-  return Date.now() + GameConfig.serverTimeOffset;
-}
-
-function updateServerTimeOffset(serverNow: number): void {
-  // Calculate offset between server and client time
-  GameConfig.serverTimeOffset = serverNow - Date.now();
-}
-
-function startPeriodicTimeSync(): void {
-  // Clear existing interval if any
-  if (timeSyncInterval !== null) {
-    clearInterval(timeSyncInterval);
-  }
-  
-  // Sync time every 30 seconds to prevent drift
-  timeSyncInterval = window.setInterval(async () => {
-    try {
-      const res = await fetch(`${GameConfig.backendUrl}/rounds/current`, { cache: 'no-store' });
-      if (res.ok) {
-        const data: SnapshotResponse = await res.json();
-        updateServerTimeOffset(data.serverNow);
-      }
-    } catch (err) {
-      console.error('[TimeSync] Failed to sync time', err);
-    }
-  }, 30000);
-}
-
-function stopPeriodicTimeSync(): void {
-  if (timeSyncInterval !== null) {
-    clearInterval(timeSyncInterval);
-    timeSyncInterval = null;
-  }
-}
-
-// ============================================
-// CONNECTION STATUS
-// ============================================
-function updateConnectionStatus(connected: boolean, message?: string): void {
-  isConnected = connected;
-  if (connectionStatus) {
-    connectionStatus.className = `connection-status ${connected ? 'connected' : 'disconnected'}`;
-    connectionStatus.textContent = message || (connected ? 'Connected' : 'Disconnected');
-  }
-}
-
-// ============================================
-// PUBLIC API
-// ============================================
-function getGameState(): GameState {
-  return {
-    state: gameState,
-    roundId: GameConfig.currentRoundId,
-    targetValues: GameConfig.targetValues,
-    connected: isConnected,
-  };
-}
-
-function reconnect(): void {
-  if (eventSource) {
-    eventSource.close();
-  }
-  reconnectAttempts = 0;
-  connectSSE();
-}
-
-// Expose to window
-window.getGameState = getGameState;
-window.reconnect = reconnect;
-
-// ============================================
-// SSE CONNECTION
+// CONSTANTS
 // ============================================
-function connectSSE(): void {
-  const url = `${GameConfig.backendUrl}/sse`;
-  console.log(`[SSE] Connecting to ${url}`);
-  updateConnectionStatus(false, 'Connecting...');
-
-  eventSource = new EventSource(url);
-
-  eventSource.onopen = () => {
-    console.log('[SSE] Connection opened');
-    reconnectAttempts = 0;
-    updateConnectionStatus(true);
-    // Refresh state on reconnect/open to catch up with missed events.
-    fetchSnapshotAndSync();
-    // Start periodic time sync to prevent drift (every 30 seconds)
-    startPeriodicTimeSync();
-  };
-
-  eventSource.onerror = (error) => {
-    console.error('[SSE] Connection error:', error);
-    updateConnectionStatus(false, 'Connection lost');
-    
-    if (eventSource?.readyState === EventSource.CLOSED) {
-      scheduleReconnect();
-    }
-  };
-
-  // Handle last.outcome event
-  eventSource.addEventListener('last.outcome', (event: MessageEvent) => {
-    let data: LastOutcomeEvent;
-    try {
-      data = JSON.parse(event.data);
-    } catch (err) {
-      console.error('[SSE] Failed to parse last.outcome event:', err);
-      return;
-    }
-    console.log('[SSE] last.outcome:', data);
-    
-    updateServerTimeOffset(data.serverNow);
-    GameConfig.targetValues = data.diceValues;
-    GameConfig.currentRoundId = data.roundId;
-    
-    // Update dice to show last outcome and display result overlay
-    updateDiceToValues(data.diceValues);
-    
-    // Show last result on connect (if not already in a round or countdown)
-    // Don't show if we're in countdown state (waiting for round.result)
-    if (gameState === 'idle' || (gameState === 'waiting' && !scheduledEndAt)) {
-      showLastOutcome(data.diceValues);
-    }
-  });
-
-  // Handle round.scheduled event
-  eventSource.addEventListener('round.scheduled', (event: MessageEvent) => {
-    let data: RoundScheduledEvent;
-    try {
-      data = JSON.parse(event.data);
-    } catch (err) {
-      console.error('[SSE] Failed to parse round.scheduled event:', err);
-      return;
-    }
-    console.log('[SSE] round.scheduled:', data);
-    
-    updateServerTimeOffset(data.serverNow);
-    cancelledUntil = null;
-    scheduledStartAt = data.startAt;
-    scheduledEndAt = data.endAt;
-    
-    // Start countdown to startAt
-    startScheduledCountdown(data.totalMs, data.remainingMs);
-  });
-
-  // Handle round.started event
-  eventSource.addEventListener('round.started', (event: MessageEvent) => {
-    let data: RoundStartedEvent;
-    try {
-      data = JSON.parse(event.data);
-    } catch (err) {
-      console.error('[SSE] Failed to parse round.started event:', err);
-      return;
-    }
-    console.log('[SSE] round.started:', data);
-    
-    updateServerTimeOffset(data.serverNow);
-    cancelledUntil = null;
-    GameConfig.currentRoundId = data.roundId;
-    scheduledStartAt = data.startAt;
-    scheduledEndAt = data.endAt;
-    
-    // Cancel any previous countdown before starting the round countdown
-    cancelCountdown();
-    
-    // Transition to waiting for result (countdown to endAt)
-    startRoundCountdown(data.totalMs, data.remainingMs);
-  });
-
-  // Handle round.result event
-  eventSource.addEventListener('round.result', (event: MessageEvent) => {
-    let data: RoundResultEvent;
-    try {
-      data = JSON.parse(event.data);
-    } catch (err) {
-      console.error('[SSE] Failed to parse round.result event:', err);
-      return;
-    }
-    console.log('[SSE] round.result:', data);
-    
-    updateServerTimeOffset(data.serverNow);
-    GameConfig.targetValues = data.diceValues;
-    GameConfig.currentRoundId = data.roundId;
-    
-    // Cancel any ongoing countdown before starting the roll
-    cancelCountdown();
-    
-    // Roll dice to show result
-    startRolling(data.diceValues);
-  });
-
-  // Handle round.cancelled event
-  eventSource.addEventListener('round.cancelled', (event: MessageEvent) => {
-    let data: RoundCancelledEvent;
-    try {
-      data = JSON.parse(event.data);
-    } catch (err) {
-      console.error('[SSE] Failed to parse round.cancelled event:', err);
-      return;
-    }
-    console.log('[SSE] round.cancelled:', data);
-    
-    updateServerTimeOffset(data.serverNow);
-    // Block countdown restarts until the current round window ends (best effort).
-    const now = getServerTime();
-    const horizon = scheduledEndAt ?? scheduledStartAt ?? now + 30000;
-    cancelledUntil = horizon;
-    
-    // Cancel any ongoing countdown
-    cancelCountdown();
-    showWaitingState('Waiting for next round...');
-  });
-}
-
-function scheduleReconnect(): void {
-  if (reconnectAttempts >= GameConfig.maxReconnectAttempts) {
-    console.error('[SSE] Max reconnect attempts reached');
-    updateConnectionStatus(false, 'Connection failed');
-    return;
-  }
-
-  reconnectAttempts++;
-  const delay = GameConfig.reconnectDelay * Math.min(reconnectAttempts, 5);
-  console.log(`[SSE] Reconnecting in ${delay}ms (attempt ${reconnectAttempts})`);
-  updateConnectionStatus(false, `Reconnecting in ${Math.ceil(delay / 1000)}s...`);
-  
-  setTimeout(() => {
-    connectSSE();
-  }, delay);
-}
+// Reduced motion: dice fade in on their final faces instead of being thrown
+const FADE_REVEAL_MS = 400;
+const DIE_SIZE = 2;
+const DICE_SPACING = 3.2;
+// Slight upward shift to keep dice centered on desktop
+const DICE_Y_OFFSET = 0.2;
+const HIGHLIGHT_EMISSIVE = 0xffc94d;
+const HIGHLIGHT_LIFT = 0.6;
+const HIGHLIGHT_LIFT_MS = 350;
+const HIGHLIGHT_PULSE_MS = 1200;
+const HIGHLIGHT_PULSES = 3;
+// Colour kept by dice that did not win
+const HIGHLIGHT_DIM = 0.45;
+// Dice face mapping: [+X, -X, +Y, -Y, +Z (front), -Z (back)]
+const FACE_ORDER = [4, 3, 2, 5, 1, 6];
+
+// Render quality settled on by the last game (see renderLoop.ts)
+const QUALITY_KEY = 'jhandi-munda:quality';
+const pinnedQuality = findQualityLevel(GameConfig.performance.quality);
 
 // ============================================
-// GAME LOOP - BACKEND DRIVEN
+// PAGE
 // ============================================
-
-function startScheduledCountdown(totalMs?: number, remainingMs?: number): void {
-  if (!scheduledStartAt) return;
-  
-  // If we recently cancelled and are still within the cancelled window, do not restart.
-  if (cancelledUntil && getServerTime() < cancelledUntil) {
-    showWaitingState('Waiting for next round...');
-    return;
-  }
-
-  const remaining = remainingMs ?? Math.max(0, scheduledStartAt - getServerTime());
-  const total = Math.max(1, totalMs ?? countdownTotalMs ?? remaining);
-  countdownTotalMs = total;
-  const targetTime = getServerTime() + remaining;
-
-  gameState = 'countdown';
-  
-  // Show overlay
-  gameOverlay.classList.remove('hidden');
-  resultOverlay.classList.remove('visible');
-  statusText.textContent = 'Round starting soon...';
-  
-  // Start countdown animation to startAt
-  animateCountdownToTime(targetTime, 'Round starting in', total);
-}
-
-function startRoundCountdown(totalMs?: number, remainingMs?: number): void {
-  if (!scheduledEndAt) return;
-  
-  // If we recently cancelled and are still within the cancelled window, do not restart.
-  if (cancelledUntil && getServerTime() < cancelledUntil) {
-    showWaitingState('Waiting for next round...');
-    return;
-  }
-
-  // Cancel any existing countdown before starting a new one
-  clearCountdownFrame();
-
-  const remaining = remainingMs ?? Math.max(0, scheduledEndAt - getServerTime());
-  const total = Math.max(1, totalMs ?? countdownTotalMs ?? remaining);
-  countdownTotalMs = total;
-  const targetTime = getServerTime() + remaining;
-
-  gameState = 'countdown';
-  
-  // Show overlay
-  gameOverlay.classList.remove('hidden');
-  resultOverlay.classList.remove('visible');
-  statusText.textContent = 'Rolling soon...';
-  
-  // Start countdown animation to endAt (when result will be revealed)
-  animateCountdownToTime(targetTime, 'Result in', total);
-}
-
-function animateCountdownToTime(targetTime: number, label: string, totalDuration?: number): void {
-  const now = getServerTime();
-  const remaining = Math.max(0, targetTime - getServerTime());
-  // Preserve the original duration so progress uses a stable denominator, and never let it be less than remaining
-  const baseDuration = totalDuration ?? targetTime - now;
-  const duration = Math.max(1, Math.max(baseDuration, remaining));
-  
-  // Calculate progress (0 = just started, 1 = finished)
-  const progress = 1 - remaining / duration;
-  
-  // Update circular progress (smooth)
-  const circumference = 283; // 2 * PI * 45
-  const offset = circumference * progress;
-  // Start full (0) and decrease toward circumference
-  countdownProgress.style.strokeDashoffset = String(offset);
-  
-  // Update countdown number
-  const secondsLeft = Math.ceil(remaining / 1000);
-  countdownText.textContent = String(Math.max(0, secondsLeft));
-  
-  // Color transition
-  const remainingRatio = remaining / duration;
-  if (remainingRatio > 0.5) {
-    countdownProgress.style.stroke = '#4ade80'; // Green
-  } else if (remainingRatio > 0.25) {
-    countdownProgress.style.stroke = '#facc15'; // Yellow
-  } else {
-    countdownProgress.style.stroke = '#ef4444'; // Red
-  }
-  
-  // Status text
-  if (secondsLeft <= 3 && secondsLeft > 0) {
-    statusText.textContent = 'Get ready...';
-  } else {
-    statusText.textContent = label;
-  }
-  
-  if (remaining > 0) {
-    queueCountdownFrame(targetTime, label, duration);
-  } else {
-    clearCountdownFrame();
-    // Wait for round.result event - show waiting state
-    if (gameState === 'countdown') {
-      showWaitingState('Waiting for result...');
-    }
-  }
-}
-
-function queueCountdownFrame(targetTime: number, label: string, totalDuration: number) {
-  clearCountdownFrame();
-  if (document.hidden) {
-    countdownHandleMode = 'timeout';
-    countdownHandle = window.setTimeout(() => animateCountdownToTime(targetTime, label, totalDuration), 100);
-  } else {
-    countdownHandleMode = 'raf';
-    countdownHandle = requestAnimationFrame(() => animateCountdownToTime(targetTime, label, totalDuration));
-  }
-}
-
-function clearCountdownFrame(): void {
-  if (countdownHandle !== null) {
-    if (countdownHandleMode === 'raf') {
-      cancelAnimationFrame(countdownHandle);
-    } else {
-      clearTimeout(countdownHandle);
-    }
-  }
-  countdownHandle = null;
-  countdownHandleMode = null;
-}
-
-function cancelCountdown(): void {
-  clearCountdownFrame();
-  // Clear waiting state timeout as well
-  if (waitingStateTimeout !== null) {
-    clearTimeout(waitingStateTimeout);
-    waitingStateTimeout = null;
-  }
-  // Don't clear scheduledStartAt and scheduledEndAt - they're needed for round timing
-  // Only clear countdown-specific state
-  countdownTotalMs = null;
-}
-
-function showWaitingState(message: string): void {
-  // Clear any existing waiting state timeout
-  if (waitingStateTimeout !== null) {
-    clearTimeout(waitingStateTimeout);
-    waitingStateTimeout = null;
-  }
-  
-  gameState = 'waiting';
-  gameOverlay.classList.remove('hidden');
-  resultOverlay.classList.remove('visible');
-  countdownTotalMs = null;
-  
-  // Reset countdown display
-  countdownProgress.style.strokeDashoffset = '0';
-  countdownProgress.style.stroke = '#4ade80';
-  countdownText.textContent = '...';
-  statusText.textContent = message;
-  
-  // Only auto-show last result if we're not waiting for an active round result
-  // If scheduledEndAt is set, we're in an active round and should wait for round.result event
-  const isWaitingForActiveRound = scheduledEndAt && getServerTime() < scheduledEndAt;
-  
-  if (!isWaitingForActiveRound) {
-    // After a short delay, show the last result (only if not in an active round)
-    waitingStateTimeout = window.setTimeout(() => {
-      waitingStateTimeout = null;
-      if (gameState === 'waiting' && !(scheduledEndAt && getServerTime() < scheduledEndAt)) {
-        gameOverlay.classList.add('hidden');
-        // Show the last outcome result
-        showLastOutcome(GameConfig.targetValues);
-      }
-    }, 2000);
-  }
-}
-
-function startRolling(diceValues: number[]): void {
-  // Cancel any ongoing countdown before starting the roll
-  cancelCountdown();
-  
-  // Clear any waiting state timeout to prevent it from showing result prematurely
-  if (waitingStateTimeout !== null) {
-    clearTimeout(waitingStateTimeout);
-    waitingStateTimeout = null;
-  }
-  
-  gameState = 'rolling';
-  gameOverlay.classList.add('hidden');
-  resultOverlay.classList.remove('visible');
-  
-  // Update dice target values
-  dice.forEach((die, index) => {
-    (die.userData as DieUserData).targetValue = diceValues[index] || 1;
-  });
-  
-  // Roll all dice
-  rollAllDice();
-  
-  // Wait for roll to complete, then show result
-  setTimeout(() => {
-    showResult(diceValues);
-  }, GameConfig.rollDuration + dice.length * 100 + 500);
-}
-
-function showLastOutcome(diceValues: number[]): void {
-  gameState = 'result';
-  
-  // Hide countdown timer overlay - only show it when a new game starts
-  gameOverlay.classList.add('hidden');
-  
-  // Build result symbols
-  buildResultSymbols(diceValues);
-  
-  // Update result label to show "Last Result"
-  const resultLabel = resultOverlay.querySelector('.result-label');
-  if (resultLabel) {
-    resultLabel.textContent = 'Last Result';
-  }
-  
-  resultOverlay.classList.add('visible');
-  
-  // Show waiting message
-  nextRoundText.textContent = 'Waiting for next round...';
-}
-
-function showResult(diceValues: number[]): void {
-  gameState = 'result';
-  
-  // Build result symbols
-  buildResultSymbols(diceValues);
-  
-  // Update result label
-  const resultLabel = resultOverlay.querySelector('.result-label');
-  if (resultLabel) {
-    resultLabel.textContent = 'Round Result';
-  }
-  
-  resultOverlay.classList.add('visible');
-  
-  // Show "waiting for next round" message - stays visible until next round
-  nextRoundText.textContent = 'Waiting for next round...';
-}
-
-function buildResultSymbols(diceValues: number[]): void {
-  resultSymbols.innerHTML = '';
-  for (let i = 0; i < 6; i++) {
-    const value = diceValues[i];
-    
-    if (value >= 1 && value <= 6) {
-      const div = document.createElement('div');
-      div.className = 'result-symbol';
-      
-      // Use actual dice images
-      const img = document.createElement('img');
-      img.src = `/Dice_side_${value}.0.png`;
-      img.alt = symbols[value]?.name || `Dice ${value}`;
-      img.className = 'result-symbol-img';
-      div.appendChild(img);
-      
-      // Add number badge
-      const badge = document.createElement('span');
-      badge.className = 'result-symbol-number';
-      badge.textContent = String(value);
-      div.appendChild(badge);
-      
-      resultSymbols.appendChild(div);
-    }
+// Mounted games by container, oldest first
+const games = new Map<HTMLElement, GameHandle>();
+// Numbers each game's element ids (see markup.ts)
+let createdGames = 0;
+// Undoes the page-wide set-ups (see startPageServices)
+const pageDisposer = createDisposer();
+// The embedding page talks to one game: the first mounted
+let hostBridgeGame: HTMLElement | null = null;
+
+/**
+ * Language, session, sound, reduced motion and the offline simulator are
+ * shared by every game on the page: the first mount starts them and the last
+ * unmount stops them.
+ */
+function startPageServices(): void {
+  if (games.size > 0) return;
+  initI18n();
+  pageDisposer.add(initReducedMotion());
+  // Pick up a session token (URL fragment, this tab's storage or the host page)
+  pageDisposer.add(initAuth());
+  pageDisposer.add(initAudioUnlock());
+  pageDisposer.add(closeAudio);
+  if (GameConfig.muted) setSoundMuted(true);
+  pageDisposer.add(
+    onAudioSettingsChange((settings) => {
+      GameConfig.muted = settings.muted;
+    })
+  );
+
+  // Serve events and API calls in-page when running without the backend
+  if (GameConfig.simulator.enabled) {
+    const { leadMs, roundMs, idleMs, cancelRate, seed } = GameConfig.simulator;
+    console.log(`[Simulator] Running offline (seed "${seed}")`);
+    const simulator = createSimulator({
+      leadMs,
+      roundMs,
+      idleMs,
+      cancelRate,
+      seed: hashSeed(seed),
+      diceCount: (chatId) => getTableVariant(chatId).diceCount,
+    });
+    setLocalBackend(simulator);
+    pageDisposer.add(() => {
+      simulator.stop();
+      setLocalBackend(null);
+    });
   }
 }
 
-function updateDiceToValues(values: number[]): void {
-  dice.forEach((die, index) => {
-    const targetValue = values[index] || 1;
-    (die.userData as DieUserData).targetValue = targetValue;
-    
-    // Instantly set rotation to target
-    const targetQ = faceQuaternions[targetValue];
-    die.quaternion.copy(targetQ);
-  });
-  GameConfig.targetValues = values;
-}
-
-// ============================================
-// ASSET PRELOADING
-// ============================================
-
-interface LoadProgress {
-  loaded: number;
-  total: number;
-}
-
-function updateLoadingProgress(progress: LoadProgress): void {
-  const percent = Math.round((progress.loaded / progress.total) * 100);
-  if (loadingProgress) {
-    loadingProgress.style.width = `${percent}%`;
-  }
-  if (loadingText) {
-    loadingText.textContent = `Loading assets... ${percent}%`;
-  }
+function stopPageServices(): void {
+  if (games.size > 0) return;
+  pageDisposer.dispose();
 }
 
-function preloadAssets(): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const textureLoader = new THREE.TextureLoader();
-    
-    // Assets to load: 6 dice faces + wood texture
-    const assetPaths = [
-      { path: '/Dice_side_1.0.png', type: 'dice', value: 1 },
-      { path: '/Dice_side_2.0.png', type: 'dice', value: 2 },
-      { path: '/Dice_side_3.0.png', type: 'dice', value: 3 },
-      { path: '/Dice_side_4.0.png', type: 'dice', value: 4 },
-      { path: '/Dice_side_5.0.png', type: 'dice', value: 5 },
-      { path: '/Dice_side_6.0.png', type: 'dice', value: 6 },
-      { path: '/woodtexture.png', type: 'background', value: 0 },
-    ];
-    
-    const total = assetPaths.length;
-    let loaded = 0;
-    let hasError = false;
-    
-    updateLoadingProgress({ loaded: 0, total });
-    
-    const onAssetLoaded = () => {
-      loaded++;
-      updateLoadingProgress({ loaded, total });
-      
-      if (loaded === total && !hasError) {
-        // Small delay for smooth transition
-        setTimeout(resolve, 300);
-      }
-    };
-    
-    const onAssetError = (path: string) => (error: unknown) => {
-      hasError = true;
-      console.error(`Failed to load asset: ${path}`, error);
-      reject(new Error(`Failed to load: ${path}`));
-    };
-    
-    assetPaths.forEach((asset) => {
-      textureLoader.load(
-        asset.path,
-        (texture) => {
-          texture.colorSpace = THREE.SRGBColorSpace;
-          texture.generateMipmaps = true;
-          texture.minFilter = THREE.LinearMipmapLinearFilter;
-          texture.magFilter = THREE.LinearFilter;
-          
-          if (asset.type === 'dice') {
-            diceTextures.set(asset.value, texture);
-          } else if (asset.type === 'background') {
-            woodTexture = texture;
-          }
-          
-          onAssetLoaded();
-        },
-        undefined,
-        onAssetError(asset.path)
-      );
-    });
-  });
+function setMuted(muted: boolean): void {
+  GameConfig.muted = muted;
+  setSoundMuted(muted);
 }
 
-// ============================================
-// THREE.JS SETUP
-// ============================================
-
-function hideLoadingScreen(): void {
-  loadingScreen.classList.add('hidden');
+// The game the window API drives: the first one still mounted
+function pageGame(): GameHandle {
+  const game = games.values().next().value;
+  if (!game) throw new Error('[Lifecycle] No game is mounted');
+  return game;
 }
 
-async function init(): Promise<void> {
-  // Get DOM elements
-  loadingScreen = document.getElementById('loadingScreen')!;
-  loadingProgress = loadingScreen.querySelector('.loading-progress')!;
-  loadingText = loadingScreen.querySelector('.loading-text')!;
-  gameOverlay = document.getElementById('gameOverlay')!;
-  resultOverlay = document.getElementById('resultOverlay')!;
-  countdownProgress = document.getElementById('countdownProgress') as unknown as SVGCircleElement;
-  countdownText = document.getElementById('countdownText')!;
-  statusText = document.getElementById('statusText')!;
-  resultSymbols = document.getElementById('resultSymbols')!;
-  nextRoundText = document.getElementById('nextRoundText')!;
-  connectionStatus = document.getElementById('connectionStatus')!;
-
-  // Initialize Bhutan clock
-  initClock();
-
-  try {
-    // Preload all assets before starting the game
-    await preloadAssets();
-    
-    // Scene
-    scene = new THREE.Scene();
-    
-    // Use preloaded wood texture as background
-    if (woodTexture) {
-      scene.background = woodTexture;
-    }
-
-    const aspect = window.innerWidth / window.innerHeight;
-    camera = new THREE.PerspectiveCamera(50, aspect, 0.1, 1000);
-    updateCameraPosition();
-
-    const canvas = document.getElementById('dice-canvas') as HTMLCanvasElement;
-    renderer = new THREE.WebGLRenderer({ canvas, antialias: true, powerPreference: 'high-performance' });
-    renderer.setSize(window.innerWidth, window.innerHeight);
-    // Slightly cap pixel ratio to reduce GPU / fill-rate cost on high-DPI screens
-    renderer.setPixelRatio(Math.min(window.devicePixelRatio, 1.5));
-    renderer.shadowMap.enabled = true;
-    renderer.shadowMap.type = THREE.PCFSoftShadowMap;
-    renderer.outputColorSpace = THREE.SRGBColorSpace;
-
-    // Lighting
-    const ambientLight = new THREE.AmbientLight(0xffffff, 0.8);
-    scene.add(ambientLight);
-
-    const mainLight = new THREE.DirectionalLight(0xffffff, 1.0);
-    mainLight.position.set(5, 10, 8);
-    mainLight.castShadow = true;
-    scene.add(mainLight);
-
-    const fillLight = new THREE.DirectionalLight(0xffffff, 0.5);
-    fillLight.position.set(-5, 5, -5);
-    scene.add(fillLight);
-
-    const frontLight = new THREE.DirectionalLight(0xffffff, 0.4);
-    frontLight.position.set(0, 0, 10);
-    scene.add(frontLight);
-
-    createDice();
-    animate();
-
-    window.addEventListener('resize', onWindowResize);
-
-    // Hide loading screen and connect to SSE
-    hideLoadingScreen();
-    
-    // Connect to backend SSE after loading
-    setTimeout(() => {
-      connectSSE();
-    }, 500);
-    
-  } catch (error) {
-    console.error('Failed to initialize game:', error);
-    if (loadingText) {
-      loadingText.textContent = 'Failed to load assets. Please refresh.';
-    }
-  }
+function disposeThemeTextures(textures: ThemeTextures): void {
+  textures.faces.forEach((texture) => texture.dispose());
+  textures.background?.dispose();
 }
 
-
-
 // Create a texture with number badge overlay
 function createTextureWithNumber(baseTexture: THREE.Texture, number: number): THREE.Texture {
   const size = 512; // Canvas size
@@ -870,340 +278,2042 @@ function createTextureWithNumber(baseTexture: THREE.Texture, number: number): TH
   canvas.width = size;
   canvas.height = size;
   const ctx = canvas.getContext('2d')!;
-  
+
   // Fill with white background first
   ctx.fillStyle = '#ffffff';
   ctx.fillRect(0, 0, size, size);
-  
+
   // Draw the base texture
   if (baseTexture.image) {
     ctx.drawImage(baseTexture.image, 0, 0, size, size);
   }
-  
+
   // Draw number badge in top-right corner
   const badgeSize = 60;
   const badgeX = size - badgeSize - 20;
   const badgeY = 20;
-  
+
   // Badge background
   ctx.beginPath();
   ctx.arc(badgeX + badgeSize / 2, badgeY + badgeSize / 2, badgeSize / 2, 0, Math.PI * 2);
   ctx.fillStyle = 'rgba(0, 0, 0, 0.8)';
   ctx.fill();
-  
+
   // Badge border
   ctx.strokeStyle = 'rgba(255, 255, 255, 0.9)';
   ctx.lineWidth = 3;
   ctx.stroke();
-  
+
   // Badge number
   ctx.fillStyle = '#ffffff';
   ctx.font = 'bold 36px system-ui, -apple-system, sans-serif';
   ctx.textAlign = 'center';
   ctx.textBaseline = 'middle';
   ctx.fillText(String(number), badgeX + badgeSize / 2, badgeY + badgeSize / 2 + 2);
-  
+
   // Create texture from canvas
   const texture = new THREE.CanvasTexture(canvas);
   texture.colorSpace = THREE.SRGBColorSpace;
   texture.generateMipmaps = true;
   texture.minFilter = THREE.LinearMipmapLinearFilter;
   texture.magFilter = THREE.LinearFilter;
-  
+
   return texture;
 }
 
-function getDiceTextureWithNumber(faceValue: number): THREE.Texture | null {
-  const baseTexture = diceTextures.get(faceValue);
-  if (!baseTexture) return null;
-  return createTextureWithNumber(baseTexture, faceValue);
+function easeOutCubic(t: number): number {
+  return 1 - Math.pow(1 - t, 3);
 }
 
-function createDie(index: number): THREE.Mesh<RoundedBoxGeometry, THREE.MeshStandardMaterial[]> {
-  const size = 2;
-  const radius = 0.18;
-  const segments = 25;
-
-  const geometry = new RoundedBoxGeometry(size, size, size, segments, radius);
-
-  // Dice face mapping: [+X, -X, +Y, -Y, +Z, -Z]
-  // We map the dice textures to appropriate faces with number badges
-  const materials: THREE.MeshStandardMaterial[] = [
-    new THREE.MeshStandardMaterial({ map: getDiceTextureWithNumber(4), color: 0xffffff, roughness: 0.3, metalness: 0 }), // +X
-    new THREE.MeshStandardMaterial({ map: getDiceTextureWithNumber(3), color: 0xffffff, roughness: 0.3, metalness: 0 }), // -X
-    new THREE.MeshStandardMaterial({ map: getDiceTextureWithNumber(2), color: 0xffffff, roughness: 0.3, metalness: 0 }), // +Y
-    new THREE.MeshStandardMaterial({ map: getDiceTextureWithNumber(5), color: 0xffffff, roughness: 0.3, metalness: 0 }), // -Y
-    new THREE.MeshStandardMaterial({ map: getDiceTextureWithNumber(1), color: 0xffffff, roughness: 0.3, metalness: 0 }), // +Z (front)
-    new THREE.MeshStandardMaterial({ map: getDiceTextureWithNumber(6), color: 0xffffff, roughness: 0.3, metalness: 0 }), // -Z (back)
-  ];
-
-  const die = new THREE.Mesh(geometry, materials);
-  die.castShadow = true;
-  die.receiveShadow = true;
-
-  (die.userData as DieUserData) = {
-    targetValue: GameConfig.targetValues[index] || 1,
-    index: index,
-  };
-
-  return die;
+function easeInOutCubic(t: number): number {
+  return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
 }
 
-function createDice(): void {
-  const spacing = 3.2;
-  // Slight upward shift to keep dice centered on desktop
-  const yOffset = 0.2;
-  const positions = [
-    { x: -spacing / 2, y: spacing + yOffset },
-    { x: spacing / 2, y: spacing + yOffset },
-    { x: -spacing / 2, y: 0 + yOffset },
-    { x: spacing / 2, y: 0 + yOffset },
-    { x: -spacing / 2, y: -spacing + yOffset },
-    { x: spacing / 2, y: -spacing + yOffset },
-  ];
-
-  for (let i = 0; i < 6; i++) {
-    const die = createDie(i);
-    die.position.set(positions[i].x, positions[i].y, 0);
-    basePositions.push({ ...positions[i], z: 0 });
-
-    const targetQ = faceQuaternions[GameConfig.targetValues[i] || 1];
-    die.quaternion.copy(targetQ);
-
-    scene.add(die);
-    dice.push(die);
-  }
+interface LoadProgress {
+  loaded: number;
+  total: number;
 }
 
 // ============================================
-// DICE ANIMATION
+// GAME
 // ============================================
 
-function easeOutCubic(t: number): number {
-  return 1 - Math.pow(1 - t, 3);
-}
+/**
+ * One game in `container`: its table, scene, connection and overlays. Every
+ * piece of per-game state lives in this closure, so several games can share
+ * a page. `start` loads the assets and connects.
+ */
+function createGame(container: HTMLElement, options: MountOptions): { handle: GameHandle; start: () => Promise<void> } {
+  // ============================================
+  // TABLE STATE
+  // ============================================
+  // Without a table of its own the game follows the page URL (?chatId=)
+  const followsPageUrl = options.chatId === undefined;
+  let chatId: number | null = followsPageUrl ? GameConfig.chatId : options.chatId!;
+  let targetValues: number[] = [...GameConfig.targetValues];
+  let currentRoundId: string | null = null;
+
+  // ============================================
+  // THREE.JS VARIABLES
+  // ============================================
+  let scene: THREE.Scene;
+  let camera: THREE.PerspectiveCamera;
+  // Orbit, zoom and roll moves of the camera (see cameraRig.ts)
+  let cameraRig: CameraRig;
+  let renderer: SceneRenderer;
+  // Scene, camera and renderer exist (from start-up until unmount)
+  let sceneReady = false;
+  let dice: THREE.Mesh<RoundedBoxGeometry, THREE.MeshStandardMaterial[]>[] = [];
+  // One geometry and one set of face materials, shared by every die
+  let dieGeometry: RoundedBoxGeometry | null = null;
+  let dieGeometryKey = '';
+  let dieMaterials: THREE.MeshStandardMaterial[] = [];
+  let rollCount = 0;
+  let rollGeneration = 0;
+  // Dice values on the result overlay (re-described when the language changes)
+  let shownResultValues: number[] | null = null;
+  const basePositions: BasePosition[] = [];
+  // Game the dice on the table are built for (a replay may show another table's)
+  let variant: GameVariant = getTableVariant(chatId);
+  // Result highlight on the dice: per-die material copies while it shows
+  let highlightMaterials: THREE.MeshStandardMaterial[][] = [];
+  let highlightGeneration = 0;
+
+  // Render on demand, adapting quality to the device (see renderLoop.ts)
+  const renderLoop = createRenderLoop({
+    render: () => {
+      if (sceneReady) renderer.render(scene, camera);
+    },
+    frameBudgetMs: GameConfig.performance.frameBudgetMs,
+    windowFrames: GameConfig.performance.windowFrames,
+    upgradeAfterWindows: GameConfig.performance.upgradeAfterWindows,
+    initialLevel: pinnedQuality ?? findQualityLevel(localStorage.getItem(QUALITY_KEY)) ?? 0,
+    adaptive: pinnedQuality === null,
+    onQualityChange: applyQuality,
+  });
+
+  // Active theme and its textures
+  let themeId = options.theme ?? GameConfig.theme;
+  let theme: ThemeManifest = DEFAULT_THEME;
+  let diceTextures: Map<number, THREE.Texture> = new Map();
+  let tableTexture: THREE.Texture | null = null;
+  let themeLights: THREE.Light[] = [];
+  // Bumped per theme switch so a slow load cannot overwrite a newer one
+  let themeGeneration = 0;
+
+  // Game state
+  const roundMachine = createRoundMachine();
+  let countdownHandle: number | null = null;
+  let countdownHandleMode: 'raf' | 'timeout' | null = null;
+  let countdownTotalMs: number | null = null;
+  // Last countdown second a tick was played for (per target time)
+  let lastTick: { targetTime: number; second: number } | null = null;
+  let waitingStateTimeout: number | null = null;
+  let revealTimeout: number | null = null;
+  // In-flight /rounds/current request; aborted when the table changes (see resetRoundState)
+  let snapshotRequest: AbortController | null = null;
+  let replayPlayer: ReplayPlayer | null = null;
+  let timeSyncInterval: number | null = null;
+
+  // Event stream connection (SSE, or the in-page simulator)
+  let transport: Transport | null = null;
+  let reconnectAttempts = 0;
+  // Id of the last stream event seen, sent on reconnect so the server replays what we missed
+  let lastEventId: string | null = null;
+  let reconnectTimeout: number | null = null;
+  // Bumped per connect, so a reconnect decided before one cannot replace it afterwards
+  let connectGeneration = 0;
+  let isConnected = false;
+  let connectionStatusText = t('connection.connecting');
+
+  // Set by unmount() so a slow start-up cannot finish into a torn-down game
+  let unmounted = false;
+  // Undoes the listeners, subscriptions and set-ups of this game
+  const disposer = createDisposer();
+  // This game's events; each is also emitted on the page-wide gameEvents
+  const events = createGameEventEmitter(null);
+
+  // ============================================
+  // SERVER TIME SYNC
+  // ============================================
+  // Without the opt-in /time endpoint (or when it turns out to be missing),
+  // sample the snapshot's serverNow
+  let hasTimeEndpoint = GameConfig.timeSync.timeEndpoint;
+
+  const clockSync = createClockSync({
+    sample: fetchServerNow,
+    // The snapshot fallback is a full /rounds/current request: one per sync is enough
+    samplesPerSync: () => (hasTimeEndpoint ? GameConfig.timeSync.samplesPerSync : 1),
+  });
 
-function normalizeAngle(current: number, target: number): number {
-  const twoPi = Math.PI * 2;
-  let normalized = current % twoPi;
-  if (normalized < 0) normalized += twoPi;
+  async function fetchServerNow(): Promise<number> {
+    if (hasTimeEndpoint) {
+      const res = await apiFetch(backendUrl('/time'), { cache: 'no-store' });
+      if (res.ok) {
+        const data: { serverNow?: unknown } = await res.json();
+        if (typeof data.serverNow === 'number' && Number.isFinite(data.serverNow)) return data.serverNow;
+      }
+      if (res.status !== 404) throw new Error(`Time request failed: ${res.status}`);
+      console.log('[TimeSync] No /time endpoint, sampling /rounds/current instead');
+      hasTimeEndpoint = false;
+    }
 
-  const diff = target - normalized;
-  if (Math.abs(diff) <= Math.PI) {
-    return normalized;
-  } else if (diff > 0) {
-    return normalized - twoPi;
-  } else {
-    return normalized + twoPi;
+    const res = await apiFetch(backendUrl('/rounds/current'), { cache: 'no-store' });
+    if (!res.ok) throw new Error(`Snapshot failed: ${res.status}`);
+    const data = parseSnapshot(await res.json());
+    if (!data) throw new Error('Snapshot is invalid');
+    return data.serverNow;
   }
-}
 
-function rollDie(die: THREE.Mesh<RoundedBoxGeometry, THREE.MeshStandardMaterial[]>, delay: number): void {
-  const targetValue = (die.userData as DieUserData).targetValue;
-  const baseY = basePositions[(die.userData as DieUserData).index].y;
+  function getServerTime(): number {
+    return clockSync.getServerTime();
+  }
 
-  const startX = die.rotation.x;
-  const startY = die.rotation.y;
-  const startZ = die.rotation.z;
+  function updateServerTimeOffset(serverNow: number): void {
+    // Event timestamps carry unknown latency; only a bound for the measured offset
+    clockSync.observe(serverNow);
+  }
 
-  const numSpinsX = Math.floor(Math.random() * 2) + 3;
-  const numSpinsY = Math.floor(Math.random() * 2) + 3;
-  const dir = rollCount % 2 === 0 ? 1 : -1;
+  function startPeriodicTimeSync(): void {
+    // Clear existing interval if any
+    if (timeSyncInterval !== null) {
+      clearInterval(timeSyncInterval);
+    }
 
-  const targetRot = faceRotations[targetValue];
+    // Measure now, then periodically to follow drift
+    clockSync.sync();
+    timeSyncInterval = window.setInterval(() => {
+      clockSync.sync();
+    }, GameConfig.timeSync.intervalMs);
+  }
 
-  const spinsX = numSpinsX * Math.PI * 2 * dir;
-  const spinsY = numSpinsY * Math.PI * 2 * dir;
+  function stopPeriodicTimeSync(): void {
+    if (timeSyncInterval !== null) {
+      clearInterval(timeSyncInterval);
+      timeSyncInterval = null;
+    }
+  }
 
-  const endX = startX + spinsX + (targetRot.x - normalizeAngle(startX + spinsX, targetRot.x));
-  const endY = startY + spinsY + (targetRot.y - normalizeAngle(startY + spinsY, targetRot.y));
-  const endZ = targetRot.z;
+  // ============================================
+  // DOM ELEMENTS
+  // ============================================
+  const idPrefix = `jhandi-munda-${++createdGames}`;
+  container.innerHTML = renderGameMarkup(idPrefix);
+  // Positions the overlays within the container (see .game-root in style.css)
+  const addedRootClass = !container.classList.contains('game-root');
+  container.classList.add('game-root');
+
+  // Look up an element of this game's markup
+  function byId<T extends Element = HTMLElement>(name: string): T {
+    return container.querySelector<T>(`#${gameElementId(idPrefix, name)}`)!;
+  }
 
-  const duration = GameConfig.rollDuration;
-  const startTime = performance.now() + delay;
-  const bounceHeight = 1.2;
+  // The game is sized by its container, not the window
+  function getViewSize(): { width: number; height: number } {
+    return { width: Math.max(1, container.clientWidth), height: Math.max(1, container.clientHeight) };
+  }
 
-  function animateRoll(currentTime: number): void {
-    const elapsed = currentTime - startTime;
+  function getAspect(): number {
+    const { width, height } = getViewSize();
+    return width / height;
+  }
 
-    if (elapsed < 0) {
-      requestAnimationFrame(animateRoll);
-      return;
+  const loadingScreen = byId('loadingScreen');
+  const loadingProgress = loadingScreen.querySelector<HTMLElement>('.loading-progress')!;
+  const loadingText = loadingScreen.querySelector<HTMLElement>('.loading-text')!;
+  const assetNotice = byId('assetNotice');
+  const gameOverlay = byId('gameOverlay');
+  const resultOverlay = byId('resultOverlay');
+  const countdownProgress = byId<SVGCircleElement>('countdownProgress');
+  const countdownText = byId('countdownText');
+  const statusText = byId('statusText');
+  const resultSymbols = byId('resultSymbols');
+  const resultSummary = byId('resultSummary');
+  const betSummary = byId('betSummary');
+  const nextRoundText = byId('nextRoundText');
+  const connectionStatus = byId('connectionStatus');
+
+  // ============================================
+  // CONNECTION STATUS
+  // ============================================
+  function updateConnectionStatus(connected: boolean, message?: MessageKey, params?: MessageParams): void {
+    const key = message ?? (connected ? 'connection.connected' : 'connection.disconnected');
+    const status = t(key, params);
+    const changed = connected !== isConnected || status !== connectionStatusText;
+    isConnected = connected;
+    connectionStatus.className = `connection-status ${connected ? 'connected' : 'disconnected'}`;
+    connectionStatusText = status;
+    localize(connectionStatus, key, params);
+    if (changed) {
+      emit('connection', { connected, status });
+      notifyHostState();
     }
+  }
+
+  // ============================================
+  // PUBLIC API
+  // ============================================
+  function getGameState(): GameState {
+    return {
+      state: roundMachine.getContext().phase,
+      chatId,
+      roundId: currentRoundId,
+      targetValues,
+      variant: getTableVariant(chatId).id,
+      connected: isConnected,
+      session: getSessionStatus(),
+    };
+  }
 
-    const progress = Math.min(elapsed / duration, 1);
-    const eased = easeOutCubic(progress);
+  function emit<K extends GameEventName>(name: K, payload: GameEventMap[K]): void {
+    events.emit(name, payload);
+    gameEvents.emit(name, payload);
+  }
 
-    die.rotation.x = startX + (endX - startX) * eased;
-    die.rotation.y = startY + (endY - startY) * eased;
-    die.rotation.z = startZ + (endZ - startZ) * eased;
+  function notifyHostState(): void {
+    if (hostBridgeGame === container) emitToHost('state', getGameState());
+  }
 
-    if (progress < 0.6) {
-      const bounceProgress = progress / 0.6;
-      const dampening = 1 - bounceProgress;
-      const bounce = Math.abs(Math.sin(bounceProgress * Math.PI * 3)) * bounceHeight * dampening;
-      die.position.y = baseY + bounce;
-    } else {
-      die.position.y = baseY;
+  function reconnect(): void {
+    if (transport) {
+      transport.close();
     }
+    if (reconnectTimeout !== null) {
+      clearTimeout(reconnectTimeout);
+      reconnectTimeout = null;
+    }
+    reconnectAttempts = 0;
+    connectSSE();
+  }
 
-    if (progress < 1) {
-      requestAnimationFrame(animateRoll);
-    } else {
-      die.rotation.set(targetRot.x, targetRot.y, targetRot.z);
-      die.position.y = baseY;
+  function setChatId(nextChatIdInput: number | string): void {
+    const nextChatId = parseChatId(nextChatIdInput);
+    if (nextChatId === null) {
+      console.error(`[Table] Invalid chatId: ${nextChatIdInput}`);
+      return;
+    }
+    if (nextChatId === chatId) return;
+
+    console.log(`[Table] Switching from chat ${chatId} to ${nextChatId}`);
+    chatId = nextChatId;
+
+    // Keep the URL shareable/reload-safe without navigating
+    if (followsPageUrl) {
+      const url = new URL(window.location.href);
+      url.searchParams.set('chatId', String(nextChatId));
+      window.history.replaceState(null, '', url);
+    }
+
+    // Forget everything we knew about the previous table
+    resetRoundState();
+    roundHistory.load(nextChatId);
+    tableClock.refresh();
+    // The new table may run another game
+    const nextVariant = getTableVariant(nextChatId);
+    if (targetValues.length !== nextVariant.diceCount) {
+      targetValues = defaultDiceValues(nextVariant);
+    }
+    if (sceneReady && !replayPlayer && nextVariant !== variant) {
+      createDice(nextVariant, targetValues);
+      renderLoop.invalidate();
     }
+    showWaitingState('round.switchingTable');
+    reconnect();
   }
 
-  requestAnimationFrame(animateRoll);
-}
+  // ============================================
+  // PRESENTATION
+  // ============================================
+  /**
+   * Switch theme at runtime: preload its assets, then swap them in. Before the
+   * scene exists this only picks the theme `preloadAssets()` will load.
+   */
+  async function setTheme(nextThemeId: string): Promise<void> {
+    themeId = nextThemeId;
+    if (!sceneReady) return;
+
+    const generation = ++themeGeneration;
+    const loaded = await loadTheme(nextThemeId);
+    if (generation !== themeGeneration) {
+      disposeThemeTextures(loaded.textures);
+      return;
+    }
+    useTheme(loaded);
+  }
 
-function rollAllDice(): void {
-  rollCount++;
+  // Show a loaded theme in the scene and the overlays
+  function useTheme({ theme: nextTheme, textures, failed }: LoadedTheme): void {
+    applySceneTheme(nextTheme, textures);
+    applyTheme(container, nextTheme, theme);
+    theme = nextTheme;
+    updateAssetNotice(failed);
+  }
 
-  dice.forEach((die, index) => {
-    rollDie(die, index * 100);
-  });
-}
+  // ============================================
+  // TABLE SELECTION
+  // ============================================
+  function backendUrl(path: string): string {
+    const url = new URL(`${GameConfig.backendUrl}${path}`);
+    if (chatId !== null) {
+      url.searchParams.set('chatId', String(chatId));
+    }
+    return url.toString();
+  }
 
-// ============================================
-// EVENT HANDLERS
-// ============================================
+  function isCurrentTable(eventChatId: number): boolean {
+    // Without a configured table we follow whatever the backend sends
+    return chatId === null || Number(eventChatId) === chatId;
+  }
 
-async function fetchSnapshotAndSync() {
-  // Prevent concurrent calls
-  if (isFetchingSnapshot) {
-    console.log('[Snapshot] Already fetching, skipping concurrent call');
-    return;
+  function resetRoundState(): void {
+    stopPeriodicTimeSync();
+    // The previous table's snapshot must neither apply nor hold up the next one
+    snapshotRequest?.abort();
+    snapshotRequest = null;
+    roundMachine.send({ type: 'reset' });
+    currentRoundId = null;
+    // Event ids are per table stream
+    lastEventId = null;
   }
-  
-  isFetchingSnapshot = true;
-  try {
-    const res = await fetch(`${GameConfig.backendUrl}/rounds/current`, { cache: 'no-store' });
-    if (!res.ok) throw new Error(`Snapshot failed: ${res.status}`);
-    const data: SnapshotResponse = await res.json();
-    updateServerTimeOffset(data.serverNow);
-    const now = data.serverNow;
 
-    // Always update last outcome and dice
-    GameConfig.targetValues = data.lastOutcome.diceValues;
-    GameConfig.currentRoundId = data.lastOutcome.roundId;
-    updateDiceToValues(GameConfig.targetValues);
+  // ============================================
+  // SSE CONNECTION
+  // ============================================
+  function connectSSE(): void {
+    connectGeneration++;
+    const sessionStatus = getSessionStatus();
+    if (sessionStatus === 'expired' || (GameConfig.auth.required && sessionStatus !== 'authenticated')) {
+      showSignInRequired(sessionStatus);
+      return;
+    }
 
-    if (data.state === 'SCHEDULED') {
-      if (cancelledUntil && now < cancelledUntil) {
-        cancelCountdown();
-        showWaitingState('Waiting for next round...');
-        return;
-      }
-      scheduledStartAt = data.startAt;
-      scheduledEndAt = data.endAt;
-      const totalMs = data.totalMs;
-      const remainingMs = data.remainingMs ?? Math.max(0, data.startAt - now);
-      // If schedule already passed, fall back to waiting/result states.
-      if (now >= data.endAt) {
-        showLastOutcome(GameConfig.targetValues);
-      } else if (now >= data.startAt) {
-        startRoundCountdown(data.totalMs ?? data.endAt - data.startAt, Math.max(0, data.endAt - now));
-      } else {
-        startScheduledCountdown(totalMs ?? remainingMs, remainingMs);
+    const kinds = Object.keys(eventHandlers) as EventKind[];
+    const kindsByName = new Map(kinds.map((kind) => [getEventName(kind), kind]));
+    const resumeFrom = lastEventId;
+    const resumable = (path: string) => {
+      const url = new URL(backendUrl(path));
+      if (resumeFrom !== null) url.searchParams.set('lastEventId', resumeFrom);
+      return url.toString();
+    };
+    const endpoints = {
+      sse: resumable('/sse'),
+      websocket: resumable('/ws'),
+      poll: backendUrl('/rounds/current'),
+    };
+
+    transport = createTransport(endpoints, [...kindsByName.keys()], GameConfig.transport);
+    console.log(`[SSE] Connecting to ${GameConfig.backendUrl} (${transport.name})`);
+    updateConnectionStatus(false, 'connection.connecting');
+
+    transport.connect({
+      onOpen: () => {
+        console.log('[SSE] Connection opened');
+        reconnectAttempts = 0;
+        updateConnectionStatus(true);
+        // Refresh state on reconnect/open to catch up with missed events. When
+        // resuming, let the replayed events land first; the snapshot then only
+        // corrects what a server without resume support did not replay.
+        if (resumeFrom !== null) {
+          console.log(`[SSE] Resuming after event ${resumeFrom}`);
+          window.setTimeout(fetchSnapshotAndSync, GameConfig.reconnect.resumeSyncDelayMs);
+        } else {
+          fetchSnapshotAndSync();
+        }
+        roundHistory.backfill(backendUrl(`/rounds/history?limit=${GameConfig.history.backfillLimit}`));
+        // Start periodic time sync to prevent drift (every 30 seconds)
+        startPeriodicTimeSync();
+      },
+
+      onError: (error, closed) => {
+        console.error('[SSE] Connection error:', error);
+        updateConnectionStatus(false, 'connection.lost');
+
+        if (closed) {
+          scheduleReconnect();
+        }
+      },
+
+      onEvent: (name, data, id) => {
+        if (id !== undefined) lastEventId = id;
+        const kind = kindsByName.get(name);
+        if (kind) handleStreamEvent(kind, data);
+      },
+    });
+  }
+
+  function handleStreamEvent<K extends EventKind>(kind: K, raw: string): void {
+    const data = parseEvent(kind, raw);
+    if (!data || !isCurrentTable(data.chatId)) return;
+    console.log(`[SSE] ${getEventName(kind)}:`, data);
+
+    updateServerTimeOffset(data.serverNow);
+    eventHandlers[kind](data);
+  }
+
+  // Per-event handlers; payloads arrive validated and filtered to this table
+  const eventHandlers: { [K in EventKind]: (data: EventPayloads[K]) => void } = {
+    lastOutcome: (data) => {
+      targetValues = data.diceValues;
+      currentRoundId = data.roundId;
+      if (data.roundId) {
+        roundHistory.record({ roundId: data.roundId, diceValues: data.diceValues, revealedAt: data.updatedAt });
+      }
+
+      // Update dice to show last outcome and display result overlay
+      updateDiceToValues(data.diceValues);
+
+      // Show last result on connect (if no round is in progress)
+      if (roundMachine.getContext().phase === 'idle') {
+        roundMachine.send({ type: 'idle' });
+      }
+    },
+
+    roundScheduled: (data) => {
+      roundMachine.send({
+        type: 'schedule',
+        startAt: data.startAt,
+        endAt: data.endAt,
+        totalMs: data.totalMs,
+        remainingMs: data.remainingMs,
+      });
+    },
+
+    roundStarted: (data) => {
+      if (roundMachine.send({ type: 'start', ...data })) {
+        currentRoundId = data.roundId;
+      }
+    },
+
+    roundResult: (data) => {
+      roundHistory.record({ roundId: data.roundId, diceValues: data.diceValues, revealedAt: data.serverNow });
+      targetValues = data.diceValues;
+      currentRoundId = data.roundId;
+
+      // Roll dice to show result
+      roundMachine.send({ type: 'result', roundId: data.roundId, diceValues: data.diceValues });
+    },
+
+    roundCancelled: () => {
+      roundMachine.send({ type: 'cancel' });
+    },
+  };
+
+  async function scheduleReconnect(): Promise<void> {
+    if (reconnectTimeout !== null) return;
+    const generation = connectGeneration;
+
+    // A stream refused for an expired token looks like any other drop; ask the
+    // API (which refreshes or expires the session) before retrying
+    if (getAuthToken()) {
+      await apiFetch(backendUrl('/rounds/current'), { cache: 'no-store' }).catch(() => undefined);
+      if (getSessionStatus() === 'expired') return;
+      // Reconnected meanwhile (e.g. the `online` event), or another drop already scheduled one
+      if (generation !== connectGeneration || reconnectTimeout !== null) return;
+    }
+
+    // No point retrying without a network; the `online` event reconnects
+    if (!navigator.onLine) {
+      console.log('[SSE] Offline, waiting for the network');
+      updateConnectionStatus(false, 'connection.offline');
+      return;
+    }
+
+    const delay = getReconnectDelay(reconnectAttempts + 1, GameConfig.reconnect);
+    if (delay === null) {
+      console.error('[SSE] Max reconnect attempts reached');
+      updateConnectionStatus(false, 'connection.failed');
+      return;
+    }
+
+    reconnectAttempts++;
+    console.log(`[SSE] Reconnecting in ${delay}ms (attempt ${reconnectAttempts})`);
+    updateConnectionStatus(false, 'connection.reconnecting', { count: Math.ceil(delay / 1000) });
+
+    reconnectTimeout = window.setTimeout(() => {
+      reconnectTimeout = null;
+      transport?.close();
+      connectSSE();
+    }, delay);
+  }
+
+  function onOffline(): void {
+    console.log('[SSE] Browser went offline');
+    transport?.close();
+    transport = null;
+    if (reconnectTimeout !== null) {
+      clearTimeout(reconnectTimeout);
+      reconnectTimeout = null;
+    }
+    updateConnectionStatus(false, 'connection.offline');
+  }
+
+  /**
+   * Escape leaves a replay, or dismisses the result overlay to see the table.
+   * Keys pressed inside another game on the page are left to that game.
+   */
+  function onKeyDown(event: KeyboardEvent): void {
+    if (event.key !== 'Escape' || event.target instanceof HTMLInputElement) return;
+    const target = event.target instanceof Node ? event.target : null;
+    if (target && target !== document.body && !container.contains(target)) return;
+    if (replayPlayer) {
+      exitReplay();
+    } else if (resultOverlay.classList.contains('visible')) {
+      resultOverlay.classList.remove('visible');
+    } else if (sceneReady && !cameraRig.isHome()) {
+      cameraRig.returnHome();
+    }
+  }
+
+  function onOnline(): void {
+    console.log('[SSE] Browser back online, reconnecting');
+    if (getSessionStatus() === 'expired') return;
+    reconnect();
+  }
+
+  // ============================================
+  // SESSION
+  // ============================================
+  function onSessionStatusChange(status: SessionStatus): void {
+    if (status === 'expired') {
+      // Stop talking to the backend until the player signs in again
+      transport?.close();
+      transport = null;
+      if (reconnectTimeout !== null) {
+        clearTimeout(reconnectTimeout);
+        reconnectTimeout = null;
       }
-    } else if (data.state === 'STARTED_OR_REVEALED') {
-      if (cancelledUntil && now < cancelledUntil) {
+      stopPeriodicTimeSync();
+      showSignInRequired(status);
+    } else if (status === 'authenticated' && transport === null) {
+      // Signed in (or token handed over by the host) while not connected
+      reconnect();
+    }
+  }
+
+  function showSignInRequired(status: SessionStatus): void {
+    updateConnectionStatus(false, status === 'expired' ? 'connection.sessionExpired' : 'connection.signInRequired');
+    connectionStatus.classList.add('session-expired');
+  }
+
+  // ============================================
+  // GAME LOOP - BACKEND DRIVEN
+  // ============================================
+
+  /**
+   * Public events for a round transition (SSE events and snapshot sync both
+   * arrive here, already de-duplicated by the round machine).
+   */
+  function emitRoundEvent({ to, event, context }: RoundTransition): void {
+    if (to === 'scheduled' && event.type === 'schedule') {
+      emit('roundScheduled', { chatId, startAt: event.startAt, endAt: event.endAt });
+    } else if (to === 'open' && event.type === 'start') {
+      emit('roundStarted', { chatId, roundId: event.roundId, startAt: event.startAt, endAt: event.endAt });
+    } else if (to === 'revealed' && context.roundId && context.diceValues) {
+      emit('result', { chatId, roundId: context.roundId, diceValues: context.diceValues });
+    } else if (to === 'cancelled') {
+      emit('cancelled', { chatId, roundId: context.cancelledRoundId });
+    }
+  }
+
+  /**
+   * Screen-reader announcements for the same public events.
+   */
+  function announceRoundEvents(): () => void {
+    const secondsUntil = (time: number) => Math.max(0, Math.ceil((time - getServerTime()) / 1000));
+    const { announce } = announcer;
+    const unsubscribes = [
+      events.on('roundScheduled', ({ startAt }) => announce(t('a11y.roundScheduled', { count: secondsUntil(startAt) }))),
+      events.on('roundStarted', ({ endAt }) => announce(t('a11y.roundStarted', { count: secondsUntil(endAt) }))),
+      events.on('result', ({ diceValues }) => announce(describeResult(diceValues), 'assertive')),
+      events.on('cancelled', () => announce(t('a11y.roundCancelled'))),
+    ];
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }
+
+  function onRoundTransition(transition: RoundTransition): void {
+    const { to, event, context } = transition;
+
+    emitRoundEvent(transition);
+    notifyHostState();
+
+    // Live rounds keep being tracked during a replay; the UI resyncs on exit.
+    // A live result is still revealed (for the public and host events), just not shown.
+    if (replayPlayer) {
+      if (to === 'rolling') {
+        clearRevealTimeout();
+        scheduleReveal(context.roundId!, context.diceValues!, 0);
+      } else if (to === 'revealed') {
+        bettingBoard.settle(context.diceValues!);
+      }
+      return;
+    }
+
+    // Any transition supersedes a pending reveal or waiting timer of the previous phase
+    clearRevealTimeout();
+    if (waitingStateTimeout !== null) {
+      clearTimeout(waitingStateTimeout);
+      waitingStateTimeout = null;
+    }
+
+    switch (to) {
+      case 'scheduled': {
+        if (event.type !== 'schedule') break;
+        bettingBoard.open({ roundId: null, startAt: event.startAt, endAt: event.endAt });
+        // Schedule already passed its start: count down to the result instead
+        if (getServerTime() >= event.startAt) {
+          startRoundCountdown(event.endAt, event.totalMs ?? event.endAt - event.startAt);
+        } else {
+          startScheduledCountdown(event.startAt, event.totalMs, event.remainingMs);
+        }
+        break;
+      }
+      case 'open': {
+        if (event.type !== 'start') break;
+        bettingBoard.open({ roundId: event.roundId, startAt: event.startAt, endAt: event.endAt });
+        // Cancel any previous countdown before starting the round countdown
         cancelCountdown();
-        showWaitingState('Round cancelled');
+        startRoundCountdown(event.endAt, event.totalMs, event.remainingMs);
+        break;
+      }
+      case 'rolling':
+        startRolling(context.roundId!, context.diceValues!);
+        break;
+      case 'revealed':
+        cancelCountdown();
+        showResult(context.diceValues!, bettingBoard.settle(context.diceValues!));
+        break;
+      case 'cancelled':
+        cancelCountdown();
+        bettingBoard.close();
+        showWaitingState('round.waitingForNext');
+        // Fall back to the last result unless the cancelled window is still running
+        if (!(context.endAt && getServerTime() < context.endAt)) {
+          waitingStateTimeout = window.setTimeout(() => {
+            waitingStateTimeout = null;
+            roundMachine.send({ type: 'idle' });
+          }, 2000);
+        }
+        break;
+      case 'idle':
+        cancelCountdown();
+        bettingBoard.close();
+        if (event.type === 'idle') {
+          showLastOutcome(targetValues);
+        }
+        break;
+    }
+  }
+
+  function startScheduledCountdown(startAt: number, totalMs?: number, remainingMs?: number): void {
+    const remaining = remainingMs ?? Math.max(0, startAt - getServerTime());
+    const total = Math.max(1, totalMs ?? countdownTotalMs ?? remaining);
+    countdownTotalMs = total;
+    const targetTime = getServerTime() + remaining;
+
+    // Show overlay
+    gameOverlay.classList.remove('hidden');
+    resultOverlay.classList.remove('visible');
+    clearHighlight();
+    localize(statusText, 'round.startingSoon');
+
+    // Start countdown animation to startAt
+    animateCountdownToTime(targetTime, 'round.startingIn', total);
+  }
+
+  function startRoundCountdown(endAt: number, totalMs?: number, remainingMs?: number): void {
+    // Cancel any existing countdown before starting a new one
+    clearCountdownFrame();
+
+    const remaining = remainingMs ?? Math.max(0, endAt - getServerTime());
+    const total = Math.max(1, totalMs ?? countdownTotalMs ?? remaining);
+    countdownTotalMs = total;
+    const targetTime = getServerTime() + remaining;
+
+    // Show overlay
+    gameOverlay.classList.remove('hidden');
+    resultOverlay.classList.remove('visible');
+    clearHighlight();
+    localize(statusText, 'round.rollingSoon');
+
+    // Start countdown animation to endAt (when result will be revealed)
+    animateCountdownToTime(targetTime, 'round.resultIn', total);
+  }
+
+  function animateCountdownToTime(targetTime: number, label: MessageKey, totalDuration?: number): void {
+    const now = getServerTime();
+    const remaining = Math.max(0, targetTime - getServerTime());
+    // Preserve the original duration so progress uses a stable denominator, and never let it be less than remaining
+    const baseDuration = totalDuration ?? targetTime - now;
+    const duration = Math.max(1, Math.max(baseDuration, remaining));
+
+    renderCountdown(remaining, duration, label);
+    playCountdownTick(targetTime, remaining);
+
+    if (remaining > 0) {
+      queueCountdownFrame(targetTime, label, duration);
+    } else {
+      clearCountdownFrame();
+      // Wait for round.result event - show waiting state
+      const { phase } = roundMachine.getContext();
+      if (phase === 'scheduled' || phase === 'open') {
+        showWaitingState('round.waitingForResult');
+      }
+    }
+  }
+
+  function playCountdownTick(targetTime: number, remaining: number): void {
+    const second = Math.ceil(remaining / 1000);
+    if (second > GameConfig.audio.tickSeconds) return;
+    if (lastTick?.targetTime === targetTime && lastTick.second === second) return;
+    lastTick = { targetTime, second };
+    playSound(second === 0 ? 'tickFinal' : 'tick');
+  }
+
+  function renderCountdown(remaining: number, duration: number, label: MessageKey): void {
+    // Calculate progress (0 = just started, 1 = finished)
+    const progress = 1 - remaining / duration;
+
+    // Update circular progress (smooth)
+    const circumference = 283; // 2 * PI * 45
+    const offset = circumference * progress;
+    // Start full (0) and decrease toward circumference
+    countdownProgress.style.strokeDashoffset = String(offset);
+
+    // Update countdown number
+    const secondsLeft = Math.ceil(remaining / 1000);
+    countdownText.textContent = formatNumber(Math.max(0, secondsLeft));
+
+    // Color transition
+    const remainingRatio = remaining / duration;
+    if (remainingRatio > 0.5) {
+      countdownProgress.style.stroke = '#4ade80'; // Green
+    } else if (remainingRatio > 0.25) {
+      countdownProgress.style.stroke = '#facc15'; // Yellow
+    } else {
+      countdownProgress.style.stroke = '#ef4444'; // Red
+    }
+
+    // Status text
+    if (secondsLeft <= 3 && secondsLeft > 0) {
+      localize(statusText, 'round.getReady');
+    } else {
+      localize(statusText, label, { count: Math.max(0, secondsLeft) });
+    }
+  }
+
+  function queueCountdownFrame(targetTime: number, label: MessageKey, totalDuration: number) {
+    clearCountdownFrame();
+    if (document.hidden) {
+      countdownHandleMode = 'timeout';
+      countdownHandle = window.setTimeout(() => animateCountdownToTime(targetTime, label, totalDuration), 100);
+    } else {
+      countdownHandleMode = 'raf';
+      countdownHandle = requestAnimationFrame(() => animateCountdownToTime(targetTime, label, totalDuration));
+    }
+  }
+
+  function clearCountdownFrame(): void {
+    if (countdownHandle !== null) {
+      if (countdownHandleMode === 'raf') {
+        cancelAnimationFrame(countdownHandle);
+      } else {
+        clearTimeout(countdownHandle);
+      }
+    }
+    countdownHandle = null;
+    countdownHandleMode = null;
+  }
+
+  function cancelCountdown(): void {
+    clearCountdownFrame();
+    // Clear waiting state timeout as well
+    if (waitingStateTimeout !== null) {
+      clearTimeout(waitingStateTimeout);
+      waitingStateTimeout = null;
+    }
+    // Round timing lives in the round machine; only clear countdown-specific state
+    countdownTotalMs = null;
+  }
+
+  function showWaitingState(message: MessageKey): void {
+    gameOverlay.classList.remove('hidden');
+    resultOverlay.classList.remove('visible');
+    countdownTotalMs = null;
+
+    // Reset countdown display
+    countdownProgress.style.strokeDashoffset = '0';
+    countdownProgress.style.stroke = '#4ade80';
+    countdownText.textContent = '...';
+    localize(statusText, message);
+  }
+
+  function startRolling(roundId: string, diceValues: number[]): void {
+    // Cancel any ongoing countdown before starting the roll
+    cancelCountdown();
+
+    gameOverlay.classList.add('hidden');
+    resultOverlay.classList.remove('visible');
+    bettingBoard.lock();
+
+    // Update dice target values
+    setDiceTargets(diceValues);
+
+    // Roll all dice
+    rollAllDice(roundId);
+
+    // Wait for roll to complete, then show result (ignored if a newer round took over)
+    const rollMs = prefersReducedMotion() ? FADE_REVEAL_MS : GameConfig.rollDuration;
+    scheduleReveal(roundId, diceValues, rollMs + 500);
+  }
+
+  function scheduleReveal(roundId: string, diceValues: number[], delayMs: number): void {
+    revealTimeout = window.setTimeout(() => {
+      revealTimeout = null;
+      roundMachine.send({ type: 'reveal', roundId, diceValues });
+    }, delayMs);
+  }
+
+  function clearRevealTimeout(): void {
+    if (revealTimeout !== null) {
+      clearTimeout(revealTimeout);
+      revealTimeout = null;
+    }
+  }
+
+  function showLastOutcome(diceValues: number[]): void {
+    // Hide countdown timer overlay - only show it when a new game starts
+    gameOverlay.classList.add('hidden');
+
+    // Build result symbols
+    buildResultSymbols(diceValues);
+    buildBetSummary(null);
+
+    // Update result label to show "Last Result"
+    const resultLabel = resultOverlay.querySelector<HTMLElement>('.result-label');
+    if (resultLabel) {
+      localize(resultLabel, 'result.last');
+    }
+
+    resultOverlay.classList.add('visible');
+    cameraRig.returnHome();
+
+    // Show waiting message
+    localize(nextRoundText, 'round.waitingForNext');
+  }
+
+  function showResult(diceValues: number[], breakdown: PayoutBreakdown | null = null): void {
+    // Build result symbols
+    buildResultSymbols(diceValues);
+    buildBetSummary(breakdown);
+
+    // Update result label
+    const resultLabel = resultOverlay.querySelector<HTMLElement>('.result-label');
+    if (resultLabel) {
+      localize(resultLabel, 'result.round');
+    }
+
+    resultOverlay.classList.add('visible');
+    cameraRig.returnHome();
+    highlightResult();
+    playSound('result');
+
+    // Show "waiting for next round" message - stays visible until next round
+    localize(nextRoundText, 'round.waitingForNext');
+  }
+
+  function buildResultSymbols(diceValues: number[]): void {
+    shownResultValues = diceValues;
+    resultSummary.textContent = describeResult(diceValues);
+    resultSymbols.innerHTML = '';
+    // One tile per symbol with its count, most frequent first; when something
+    // pays, the paying symbols stand out and the rest recede
+    const groups = groupResult(variant, diceValues);
+    const anyWinning = groups.some((group) => group.winning);
+    groups.forEach(({ value, count, winning }) => {
+      if (value >= 1 && value <= 6) {
+        const div = document.createElement('div');
+        div.className = 'result-symbol';
+        if (anyWinning) div.classList.add(winning ? 'winning' : 'losing');
+
+        // Use actual dice images
+        const img = document.createElement('img');
+        setFaceImage(img, value, theme);
+        const name = symbolMessage(value);
+        localizeAttribute(img, 'alt', name.key, name.params);
+        img.className = 'result-symbol-img';
+        div.appendChild(img);
+
+        // Add number badge
+        const badge = document.createElement('span');
+        badge.className = 'result-symbol-number';
+        badge.textContent = String(value);
+        div.appendChild(badge);
+
+        const countLabel = document.createElement('span');
+        countLabel.className = 'result-symbol-count';
+        localize(countLabel, 'result.count', { count });
+        div.appendChild(countLabel);
+
+        resultSymbols.appendChild(div);
+      }
+    });
+  }
+
+  function buildBetSummary(breakdown: PayoutBreakdown | null): void {
+    betSummary.innerHTML = '';
+    betSummary.classList.toggle('hidden', !breakdown);
+    if (!breakdown) return;
+
+    breakdown.lines.forEach((line) => {
+      const row = document.createElement('div');
+      row.className = `bet-summary-line ${line.net > 0 ? 'win' : 'loss'}`;
+      const outcome = line.net > 0 ? `+${formatNumber(line.net)}` : formatNumber(line.net);
+      localize(row, 'result.betLine', { symbol: symbolName(line.value), matches: line.matches, stake: line.stake, outcome });
+      betSummary.appendChild(row);
+    });
+
+    const total = document.createElement('div');
+    total.className = `bet-summary-total ${breakdown.net > 0 ? 'win' : 'loss'}`;
+    if (breakdown.net > 0) {
+      localize(total, 'result.won', { amount: breakdown.net });
+    } else if (breakdown.net < 0) {
+      localize(total, 'result.lost', { amount: -breakdown.net });
+    } else {
+      localize(total, 'result.even');
+    }
+    betSummary.appendChild(total);
+  }
+
+  function updateDiceToValues(values: number[]): void {
+    targetValues = values;
+    // A replay owns the dice until it exits
+    if (replayPlayer) return;
+    snapDiceToValues(values);
+  }
+
+  function setDiceTargets(values: number[]): void {
+    dice.forEach((die, index) => {
+      (die.userData as DieUserData).targetValue = values[index] || 1;
+    });
+  }
+
+  function snapDiceToValues(values: number[]): void {
+    cancelRollAnimations();
+    clearHighlight();
+    setDiceTargets(values);
+    dice.forEach((die, index) => {
+      // Instantly set rotation to target and return to the resting grid
+      die.quaternion.copy(faceQuaternions[(die.userData as DieUserData).targetValue]);
+      const base = basePositions[index];
+      die.position.set(base.x, base.y, base.z);
+    });
+    renderLoop.invalidate();
+  }
+
+  // ============================================
+  // ASSET PRELOADING
+  // ============================================
+  function updateLoadingProgress(progress: LoadProgress): void {
+    const percent = Math.round((progress.loaded / progress.total) * 100);
+    loadingProgress.style.width = `${percent}%`;
+    localize(loadingText, 'loading.progress', { percent });
+  }
+
+  /**
+   * Load the game's theme (falling back to the default theme) together with
+   * the sounds. Images that fail are replaced by stand-ins, so this does not
+   * hold up the game (see `updateAssetNotice`).
+   */
+  async function preloadAssets(): Promise<LoadedTheme> {
+    let themeLoaded = 0;
+    let themeTotal = 0;
+    let soundsLoaded = 0;
+    const report = () =>
+      updateLoadingProgress({ loaded: themeLoaded + soundsLoaded, total: themeTotal + SOUND_NAMES.length });
+
+    const [loadedTheme] = await Promise.all([
+      loadTheme(themeId, (loaded, total) => {
+        themeLoaded = loaded;
+        themeTotal = total;
+        report();
+      }),
+      preloadSounds(() => {
+        soundsLoaded++;
+        report();
+      }),
+    ]);
+
+    // Small delay for smooth transition
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    return loadedTheme;
+  }
+
+  // ============================================
+  // THREE.JS SETUP
+  // ============================================
+  function hideLoadingScreen(): void {
+    loadingScreen.classList.add('hidden');
+  }
+
+  // Startup failed outright: say so on the loading screen and offer a reload
+  function showLoadingError(): void {
+    localize(loadingText, 'loading.failed');
+    loadingScreen.classList.add('failed');
+    const retryButton = loadingScreen.querySelector<HTMLButtonElement>('.loading-retry')!;
+    retryButton.hidden = false;
+    retryButton.onclick = () => window.location.reload();
+    retryButton.focus();
+  }
+
+  /**
+   * Show or clear the notice for images replaced by stand-ins. Retry reloads
+   * the current theme; a success clears the notice.
+   */
+  function updateAssetNotice(failed: string[]): void {
+    assetNotice.hidden = failed.length === 0;
+    if (failed.length > 0) console.warn(`[Assets] Showing stand-ins for ${failed.length} image(s):`, failed);
+  }
+
+  function initAssetNotice(): void {
+    const retryButton = assetNotice.querySelector<HTMLButtonElement>('.asset-notice-retry')!;
+    retryButton.addEventListener('click', async () => {
+      retryButton.disabled = true;
+      await setTheme(themeId);
+      retryButton.disabled = false;
+    });
+    assetNotice.querySelector('.asset-notice-dismiss')!.addEventListener('click', () => {
+      assetNotice.hidden = true;
+    });
+  }
+
+  /**
+   * Load the assets, build the scene and connect; resolves once the game is
+   * running (or showing its start-up error).
+   */
+  async function start(): Promise<void> {
+    try {
+      // Preload all assets before starting the game
+      const requestedTheme = themeId;
+      const loadedTheme = await preloadAssets();
+      if (unmounted) {
+        // Unmounted while loading
+        disposeThemeTextures(loadedTheme.textures);
+        return;
+      }
+      // The host page may have picked another theme while this one loaded
+      const laterTheme = themeId !== requestedTheme ? themeId : null;
+
+      // Scene
+      scene = new THREE.Scene();
+
+      camera = new THREE.PerspectiveCamera(50, getAspect(), 0.1, 1000);
+      cameraRig = createCameraRig({
+        camera,
+        getFocusTargets: () => dice,
+        hold: renderLoop.hold,
+        invalidate: renderLoop.invalidate,
+        getRate: getAnimationRate,
+        reducedMotion: prefersReducedMotion,
+      });
+      disposer.add(cameraRig.stop);
+
+      renderer = createRenderer(byId<HTMLCanvasElement>('dice-canvas'));
+      // The canvas is swapped when antialiasing changes, so listen on the container
+      disposer.add(cameraRig.attach(container, (target) => target === renderer.domElement));
+      sceneReady = true;
+
+      // Background, lighting and dice materials come from the theme
+      useTheme(loadedTheme);
+
+      createDice(getTableVariant(chatId), targetValues);
+      renderLoop.invalidate();
+      if (laterTheme) setTheme(laterTheme);
+
+      disposer.add(roundMachine.subscribe(onRoundTransition));
+
+      // Follows the container: window resizes, and hosts resizing the game's element
+      const resizeObserver = new ResizeObserver(onResize);
+      resizeObserver.observe(container);
+      disposer.add(() => resizeObserver.disconnect());
+      disposer.listen(window, 'keydown', onKeyDown);
+      disposer.listen(window, 'offline', onOffline);
+      disposer.listen(window, 'online', onOnline);
+      disposer.listen(document, 'visibilitychange', onVisibilityChange);
+      // Page unload: drop the connection (the page takes the rest with it)
+      disposer.listen(window, 'beforeunload', disconnect);
+
+      // Hide loading screen and connect to SSE
+      hideLoadingScreen();
+
+      // Connect to backend SSE after loading
+      const connectTimeout = window.setTimeout(() => {
+        connectSSE();
+        // ?replay=<roundId> opens the page's table straight into a replay
+        const replayId = followsPageUrl ? new URLSearchParams(window.location.search).get('replay') : null;
+        if (replayId) replayRound(replayId);
+      }, 500);
+      disposer.add(() => clearTimeout(connectTimeout));
+
+    } catch (error) {
+      console.error('Failed to initialize game:', error);
+      showLoadingError();
+    }
+  }
+
+  /**
+   * Stop the game and undo everything mount() did: connections, timers,
+   * listeners, theme variables and every GPU resource. The container is left
+   * empty and can be mounted again.
+   */
+  function unmount(): void {
+    if (unmounted) return;
+    unmounted = true;
+    console.log('[Lifecycle] Unmounting');
+    // Drop theme switches still loading
+    themeGeneration++;
+
+    disconnect();
+    clearRevealTimeout();
+    cancelRollAnimations();
+    if (replayPlayer) {
+      replayPlayer.stop();
+      replayPlayer = null;
+    }
+
+    // Listeners, subscriptions and set-ups, newest first
+    disposer.dispose();
+
+    disposeScene();
+    resetTheme(container, theme);
+    resetRoundState();
+    container.innerHTML = '';
+    if (addedRootClass) container.classList.remove('game-root');
+
+    games.delete(container);
+    stopPageServices();
+  }
+
+  // Close the event stream and stop the timers that run alongside it
+  function disconnect(): void {
+    stopPeriodicTimeSync();
+    if (reconnectTimeout !== null) {
+      clearTimeout(reconnectTimeout);
+      reconnectTimeout = null;
+    }
+    if (transport) {
+      transport.close();
+      transport = null;
+    }
+    cancelCountdown();
+  }
+
+  // Release the dice, theme textures, lights and the WebGL context
+  function disposeScene(): void {
+    if (!sceneReady) return;
+    sceneReady = false;
+
+    clearHighlight();
+    dice.forEach((die) => scene.remove(die));
+    dice = [];
+    basePositions.length = 0;
+    dieGeometry?.dispose();
+    dieGeometry = null;
+    dieGeometryKey = '';
+    disposeDieMaterials();
+
+    disposeThemeTextures({ faces: diceTextures, background: tableTexture });
+    diceTextures = new Map();
+    tableTexture = null;
+    themeLights.forEach((light) => light.dispose());
+    themeLights = [];
+    scene.clear();
+
+    renderer.dispose();
+    renderer.forceContextLoss();
+  }
+
+  // ============================================
+  // THEME
+  // ============================================
+
+  /**
+   * Swap the scene over to a loaded theme: background, lights and dice
+   * materials. The previous theme's textures are released.
+   */
+  function applySceneTheme(nextTheme: ThemeManifest, textures: ThemeTextures): void {
+    if (diceTextures !== textures.faces) {
+      disposeThemeTextures({ faces: diceTextures, background: tableTexture });
+    }
+    diceTextures = textures.faces;
+    tableTexture = textures.background;
+    scene.background = tableTexture ?? new THREE.Color(nextTheme.background.color);
+
+    themeLights.forEach((light) => {
+      scene.remove(light);
+      light.dispose();
+    });
+    const { ambient, directional } = nextTheme.lighting;
+    themeLights = [new THREE.AmbientLight(ambient.color, ambient.intensity)];
+    directional.forEach((lightOptions) => {
+      const light = new THREE.DirectionalLight(lightOptions.color, lightOptions.intensity);
+      light.position.set(...lightOptions.position);
+      light.castShadow = lightOptions.castShadow ?? false;
+      themeLights.push(light);
+    });
+    themeLights.forEach((light) => scene.add(light));
+
+    updateDieGeometry(nextTheme.die);
+    updateDieMaterials(nextTheme.die);
+    renderLoop.invalidate();
+  }
+
+  function createRenderer(canvas: HTMLCanvasElement): SceneRenderer {
+    const quality = QUALITY_LEVELS[renderLoop.getLevel()];
+    const parameters: THREE.WebGLRendererParameters = { canvas, antialias: quality.antialias, powerPreference: 'high-performance' };
+    const webglRenderer = options.createRenderer?.(parameters) ?? new THREE.WebGLRenderer(parameters);
+    const { width, height } = getViewSize();
+    webglRenderer.setSize(width, height);
+    // Cap pixel ratio to reduce GPU / fill-rate cost on high-DPI screens
+    webglRenderer.setPixelRatio(Math.min(window.devicePixelRatio, quality.maxPixelRatio));
+    webglRenderer.shadowMap.enabled = quality.shadows;
+    webglRenderer.shadowMap.type = THREE.PCFSoftShadowMap;
+    webglRenderer.outputColorSpace = THREE.SRGBColorSpace;
+    return webglRenderer;
+  }
+
+  /**
+   * Switch to the quality level the render loop settled on. Antialiasing is
+   * fixed when a WebGL context is created, so changing it swaps in a fresh
+   * canvas and renderer.
+   */
+  function applyQuality(level: number, previous: number): void {
+    const quality = QUALITY_LEVELS[level];
+    localStorage.setItem(QUALITY_KEY, quality.name);
+    if (!sceneReady) return;
+
+    if (quality.antialias !== QUALITY_LEVELS[previous].antialias) {
+      const canvas = renderer.domElement.cloneNode(false) as HTMLCanvasElement;
+      renderer.domElement.replaceWith(canvas);
+      renderer.dispose();
+      renderer.forceContextLoss();
+      renderer = createRenderer(canvas);
+    } else {
+      renderer.setPixelRatio(Math.min(window.devicePixelRatio, quality.maxPixelRatio));
+      if (renderer.shadowMap.enabled !== quality.shadows) {
+        renderer.shadowMap.enabled = quality.shadows;
+        [dieMaterials, ...highlightMaterials].flat().forEach((material) => {
+          material.needsUpdate = true;
+        });
+      }
+    }
+    updateDieGeometry(theme.die);
+  }
+
+  // The die materials own their face textures (badged copies, or clones sharing the image)
+  function getFaceTexture(faceValue: number, numberBadge: boolean): THREE.Texture | null {
+    const baseTexture = diceTextures.get(faceValue);
+    if (!baseTexture) return null;
+    return trackResource(numberBadge ? createTextureWithNumber(baseTexture, faceValue) : baseTexture.clone());
+  }
+
+  /**
+   * (Re)build the shared die geometry for the theme's shape, with no more
+   * corner segments than the current quality level allows.
+   */
+  function updateDieGeometry(dieOptions: DieMaterialOptions): void {
+    const segments = Math.min(dieOptions.segments, QUALITY_LEVELS[renderLoop.getLevel()].dieSegments);
+    const key = `${dieOptions.radius}:${segments}`;
+    if (dieGeometry && key === dieGeometryKey) return;
+
+    dieGeometry?.dispose();
+    const geometry = trackResource(new RoundedBoxGeometry(DIE_SIZE, DIE_SIZE, DIE_SIZE, segments, dieOptions.radius));
+    dieGeometry = geometry;
+    dieGeometryKey = key;
+    dice.forEach((die) => {
+      die.geometry = geometry;
+    });
+  }
+
+  function disposeDieMaterials(): void {
+    dieMaterials.forEach((material) => {
+      material.map?.dispose();
+      material.dispose();
+    });
+    dieMaterials = [];
+  }
+
+  function updateDieMaterials(dieOptions: DieMaterialOptions): void {
+    clearHighlight();
+    disposeDieMaterials();
+    dieMaterials = FACE_ORDER.map((faceValue) =>
+      trackResource(
+        new THREE.MeshStandardMaterial({
+          map: getFaceTexture(faceValue, dieOptions.numberBadge),
+          color: dieOptions.color,
+          roughness: dieOptions.roughness,
+          metalness: dieOptions.metalness,
+        })
+      )
+    );
+    dice.forEach((die) => {
+      die.material = dieMaterials;
+    });
+  }
+
+  function createDie(index: number, targetValue: number): THREE.Mesh<RoundedBoxGeometry, THREE.MeshStandardMaterial[]> {
+    const die = new THREE.Mesh(dieGeometry!, dieMaterials);
+    die.castShadow = true;
+    die.receiveShadow = true;
+
+    (die.userData as DieUserData) = {
+      targetValue,
+      index: index,
+    };
+
+    return die;
+  }
+
+  /**
+   * Build the dice for `nextVariant`, replacing the current ones, resting on
+   * `values` (the variant's default faces if they do not fit).
+   */
+  function createDice(nextVariant: GameVariant, values: number[]): void {
+    cancelRollAnimations();
+    clearHighlight();
+    dice.forEach((die) => scene.remove(die));
+    dice = [];
+    variant = nextVariant;
+    const restingValues = values.length === variant.diceCount ? values : defaultDiceValues(variant);
+
+    for (let i = 0; i < variant.diceCount; i++) {
+      const die = createDie(i, restingValues[i]);
+      die.quaternion.copy(faceQuaternions[restingValues[i]]);
+      scene.add(die);
+      dice.push(die);
+    }
+    basePositions.length = 0;
+    layoutTable();
+  }
+
+  /**
+   * Lay the dice out for the container's shape and frame them. When the
+   * layout changes, a throw in progress lands at once on its result.
+   */
+  function layoutTable(): void {
+    const slots = layoutDice(variant, getAspect(), DICE_SPACING).map((slot) => ({ x: slot.x, y: slot.y + DICE_Y_OFFSET, z: 0 }));
+    const changed = slots.some((slot, i) => basePositions[i]?.x !== slot.x || basePositions[i]?.y !== slot.y);
+
+    if (changed) {
+      basePositions.splice(0, basePositions.length, ...slots);
+      cancelRollAnimations();
+      dice.forEach((die, index) => {
+        const base = basePositions[index];
+        die.position.set(base.x, base.y, base.z);
+        die.quaternion.copy(faceQuaternions[(die.userData as DieUserData).targetValue]);
+      });
+    }
+    updateCameraPosition();
+  }
+
+  // ============================================
+  // DICE ANIMATION
+  // ============================================
+
+  // Visible table area at z = 0, kept inside the camera frustum
+  function getTableBounds(): PhysicsBounds {
+    // From the home framing, wherever the player has moved the camera
+    const halfHeight = cameraRig.getHomeDistance() * Math.tan(THREE.MathUtils.degToRad(camera.fov / 2));
+    const halfWidth = halfHeight * camera.aspect;
+    const margin = DIE_SIZE * 0.75;
+    // Never narrower than the resting layout itself
+    const minHalfWidth = Math.max(...basePositions.map((p) => Math.abs(p.x))) + DIE_SIZE;
+    const maxX = Math.max(halfWidth - margin, minHalfWidth);
+
+    return {
+      minX: -maxX,
+      maxX,
+      minY: -(halfHeight - margin),
+      maxY: halfHeight - margin,
+      maxZ: 6,
+    };
+  }
+
+  function rollDie(die: THREE.Mesh<RoundedBoxGeometry, THREE.MeshStandardMaterial[]>, track: DieTrack, frameMs: number): void {
+    const targetValue = (die.userData as DieUserData).targetValue;
+    const base = basePositions[(die.userData as DieUserData).index];
+    const homePosition = new THREE.Vector3(base.x, base.y, base.z);
+    const targetQ = faceQuaternions[targetValue];
+
+    // Re-label the simulated cube so the server-provided face lands on top
+    const lastFrame = track.quaternions.length - 1;
+    const correction = landingCorrection(track.quaternions[lastFrame], targetQ);
+
+    const startPosition = die.position.clone();
+    const startQuaternion = die.quaternion.clone();
+    const position = new THREE.Vector3();
+    const quaternion = new THREE.Quaternion();
+    const nextQuaternion = new THREE.Quaternion();
+
+    const duration = GameConfig.rollDuration;
+    // Blend from the resting pose into the throw, and from the landing spot back to the grid
+    const liftMs = 150;
+    const settleMs = 400;
+    const generation = rollGeneration;
+    let elapsed = 0;
+    let lastTime = performance.now();
+    let nextImpact = 0;
+    const release = renderLoop.hold();
+
+    function animateRoll(currentTime: number): void {
+      // Superseded by a newer roll or a snap to values
+      if (generation !== rollGeneration) {
+        release();
         return;
       }
-      scheduledStartAt = data.round.startAt;
-      scheduledEndAt = data.round.endAt;
-      GameConfig.currentRoundId = data.round.id;
-
-      if (Array.isArray(data.round.diceValues)) {
-        const isCancelledResult = data.round.diceValues.length === 0;
-        if (isCancelledResult) {
-          // Cancelled round: stop timers and show waiting state
-          cancelCountdown();
-          showWaitingState('Waiting for next round...');
+
+      // Advance on the playback clock so replays can pause or speed up the throw
+      elapsed = Math.min(elapsed + (currentTime - lastTime) * getAnimationRate(), duration);
+      lastTime = currentTime;
+
+      const frame = Math.min(elapsed / frameMs, lastFrame);
+      const index = Math.floor(frame);
+      const next = Math.min(index + 1, lastFrame);
+      const t = frame - index;
+
+      position.lerpVectors(track.positions[index], track.positions[next], t);
+      nextQuaternion.copy(track.quaternions[next]);
+      quaternion.copy(track.quaternions[index]).slerp(nextQuaternion, t).multiply(correction);
+
+      if (elapsed < liftMs) {
+        const lift = easeOutCubic(elapsed / liftMs);
+        position.lerpVectors(startPosition, position, lift);
+        nextQuaternion.copy(quaternion);
+        quaternion.copy(startQuaternion).slerp(nextQuaternion, lift);
+      }
+
+      const settleStart = duration - settleMs;
+      if (elapsed > settleStart) {
+        const settle = easeInOutCubic((elapsed - settleStart) / settleMs);
+        position.lerp(homePosition, settle);
+        quaternion.slerp(targetQ, settle);
+      }
+
+      die.position.copy(position);
+      die.quaternion.copy(quaternion);
+
+      // Knocks as the throw passes each recorded collision
+      while (nextImpact < track.impacts.length && track.impacts[nextImpact].timeMs <= elapsed) {
+        const impact = track.impacts[nextImpact++];
+        playSound('impact', {
+          volume: Math.min(impact.speed / GameConfig.audio.fullImpactSpeed, 1),
+          rate: 0.9 + Math.random() * 0.2,
+        });
+      }
+
+      if (elapsed < duration) {
+        requestAnimationFrame(animateRoll);
+      } else {
+        die.quaternion.copy(targetQ);
+        die.position.copy(homePosition);
+        release();
+      }
+    }
+
+    requestAnimationFrame(animateRoll);
+  }
+
+  /**
+   * Reduced-motion reveal: show the die on its final face and fade it in.
+   */
+  function fadeInDie(die: THREE.Mesh<RoundedBoxGeometry, THREE.MeshStandardMaterial[]>): void {
+    const { index, targetValue } = die.userData as DieUserData;
+    const base = basePositions[index];
+    die.position.set(base.x, base.y, base.z);
+    die.quaternion.copy(faceQuaternions[targetValue]);
+
+    // The materials are shared, so every die fades together
+    const setOpacity = (opacity: number) => {
+      die.material.forEach((material) => {
+        material.transparent = opacity < 1;
+        material.opacity = opacity;
+      });
+    };
+    setOpacity(0);
+
+    const generation = rollGeneration;
+    const start = performance.now();
+    const release = renderLoop.hold();
+    function animateFade(currentTime: number): void {
+      // A newer roll or snap owns the die; leave it fully visible
+      if (generation !== rollGeneration) {
+        setOpacity(1);
+        release();
+        return;
+      }
+      const progress = Math.min((currentTime - start) / FADE_REVEAL_MS, 1);
+      setOpacity(easeOutCubic(progress));
+      if (progress < 1) requestAnimationFrame(animateFade);
+      else release();
+    }
+    requestAnimationFrame(animateFade);
+  }
+
+  /**
+   * Mark the result on the dice: those showing a paying symbol glow, lift
+   * towards the camera and pulse a few times; the rest dim. Nothing changes
+   * when no symbol pays. Each die gets copies of the face materials (sharing
+   * their textures) until clearHighlight().
+   */
+  function highlightResult(): void {
+    clearHighlight();
+    const targets = dice.map((die) => (die.userData as DieUserData).targetValue);
+    const winners = new Set(groupResult(variant, targets).filter((group) => group.winning).map((group) => group.value));
+    if (winners.size === 0) return;
+
+    const lifted: THREE.MeshStandardMaterial[][] = [];
+    dice.forEach((die, index) => {
+      const winning = winners.has(targets[index]);
+      const materials = dieMaterials.map((material) => {
+        const copy = trackResource(material.clone());
+        if (winning) {
+          copy.emissive.set(HIGHLIGHT_EMISSIVE);
         } else {
-          // Round has a result already.
-          GameConfig.targetValues = data.round.diceValues;
-          updateDiceToValues(GameConfig.targetValues);
-          if (now >= data.round.endAt) {
-            // Round already finished; show result without re-rolling.
-            showResult(GameConfig.targetValues);
-          } else {
-            // Round in progress; animate roll to reveal.
-            startRolling(GameConfig.targetValues);
-          }
+          copy.color.multiplyScalar(HIGHLIGHT_DIM);
         }
+        return copy;
+      });
+      die.material = materials;
+      highlightMaterials.push(materials);
+      if (winning) lifted.push(materials);
+    });
+
+    const setGlow = (intensity: number) => {
+      lifted.flat().forEach((material) => {
+        material.emissiveIntensity = intensity;
+      });
+    };
+    const setLift = (z: number) => {
+      dice.forEach((die, index) => {
+        if (winners.has(targets[index])) die.position.z = basePositions[index].z + z;
+      });
+    };
+
+    if (prefersReducedMotion()) {
+      setGlow(0.35);
+      renderLoop.invalidate();
+      return;
+    }
+
+    const generation = highlightGeneration;
+    const start = performance.now();
+    const release = renderLoop.hold();
+    function animateHighlight(currentTime: number): void {
+      if (generation !== highlightGeneration) {
+        release();
+        return;
+      }
+      const elapsed = currentTime - start;
+      const pulses = Math.min(elapsed / HIGHLIGHT_PULSE_MS, HIGHLIGHT_PULSES);
+      setLift(easeOutCubic(Math.min(elapsed / HIGHLIGHT_LIFT_MS, 1)) * HIGHLIGHT_LIFT);
+      // Pulses between 0.2 and 0.5 around the steady 0.35
+      setGlow(0.35 + 0.15 * Math.sin(pulses * Math.PI * 2));
+      if (pulses < HIGHLIGHT_PULSES) {
+        requestAnimationFrame(animateHighlight);
       } else {
-        // No result yet
-        if (now < data.round.endAt) {
-          startRoundCountdown(
-            data.round.totalMs ?? data.round.endAt - data.round.startAt,
-            data.round.remainingMs ?? Math.max(0, data.round.endAt - now),
-          );
+        setGlow(0.35);
+        release();
+      }
+    }
+    requestAnimationFrame(animateHighlight);
+  }
+
+  // Back to the shared materials, at rest
+  function clearHighlight(): void {
+    highlightGeneration++;
+    if (highlightMaterials.length === 0) return;
+    highlightMaterials.flat().forEach((material) => material.dispose());
+    highlightMaterials = [];
+    dice.forEach((die, index) => {
+      die.material = dieMaterials;
+      die.position.z = basePositions[index].z;
+    });
+    renderLoop.invalidate();
+  }
+
+  function cancelRollAnimations(): void {
+    rollGeneration++;
+  }
+
+  function getAnimationRate(): number {
+    return replayPlayer ? replayPlayer.getRate() : 1;
+  }
+
+  function rollAllDice(roundId: string | null): void {
+    rollCount++;
+    cancelRollAnimations();
+    clearHighlight();
+
+    if (prefersReducedMotion()) {
+      dice.forEach(fadeInDie);
+      return;
+    }
+
+    // Seed from the round so replays of the same round produce the same throw
+    const seedSource = roundId ?? `roll-${rollCount}`;
+    const simulation = simulateRoll({
+      seed: hashSeed(seedSource),
+      homes: basePositions,
+      durationMs: GameConfig.rollDuration,
+      halfSize: DIE_SIZE / 2,
+      bounds: getTableBounds(),
+    });
+
+    playSound('rattle');
+    dice.forEach((die, index) => {
+      rollDie(die, simulation.tracks[index], simulation.frameMs);
+    });
+    cameraRig.playRollPath(GameConfig.rollDuration);
+  }
+
+  // ============================================
+  // REPLAY MODE
+  // ============================================
+
+  /**
+   * Replay a finished round from its id (fetched from the backend), a JSON
+   * export (string or File) or an already-loaded record.
+   */
+  async function replayRound(source: string | RoundRecord | File): Promise<void> {
+    let round: RoundRecord | null;
+    try {
+      if (source instanceof File) {
+        round = parseRoundExport(await source.text(), chatId);
+      } else if (typeof source === 'string') {
+        round = source.trim().startsWith('{')
+          ? parseRoundExport(source, chatId)
+          : await fetchRoundRecord(backendUrl(`/rounds/${encodeURIComponent(source)}`), chatId);
+      } else {
+        round = parseRoundRecord(source, 'replay round', chatId);
+      }
+    } catch (err) {
+      console.error('[Replay] Failed to load round', err);
+      return;
+    }
+    if (!round || unmounted) return;
+
+    console.log(`[Replay] Replaying round ${round.id}`);
+    replayPlayer?.stop();
+    // A pending live reveal keeps running: the live round still has to finish
+    cancelCountdown();
+    // A round from another table may be of another game
+    const roundVariant = getTableVariant(round.chatId ?? chatId);
+    if (sceneReady && roundVariant !== variant) createDice(roundVariant, round.diceValues);
+
+    replayPlayer = createReplayPlayer(round, GameConfig.rollDuration + 500, {
+      onPhase: onReplayPhase,
+      onCountdown: (remaining, total) => renderCountdown(remaining, total, 'round.resultIn'),
+      onStateChange: replayControls.render,
+    });
+    replayPlayer.play();
+  }
+
+  function onReplayPhase(phase: ReplayPhase, round: RoundRecord): void {
+    switch (phase) {
+      case 'countdown':
+        cancelRollAnimations();
+        gameOverlay.classList.remove('hidden');
+        resultOverlay.classList.remove('visible');
+        break;
+      case 'rolling':
+        gameOverlay.classList.add('hidden');
+        resultOverlay.classList.remove('visible');
+        setDiceTargets(round.diceValues);
+        rollAllDice(round.id);
+        break;
+      case 'result':
+        // Stepping can skip the end of the throw
+        snapDiceToValues(round.diceValues);
+        showResult(round.diceValues);
+        localize(nextRoundText, 'result.replayOf', { roundId: round.id });
+        break;
+    }
+  }
+
+  function exitReplay(): void {
+    if (!replayPlayer) return;
+    console.log('[Replay] Exiting replay');
+    replayPlayer.stop();
+    replayPlayer = null;
+    replayControls.render(null);
+
+    // Return to the live table: restore the dice and let the snapshot re-drive the UI
+    const liveVariant = getTableVariant(chatId);
+    if (sceneReady && liveVariant !== variant) createDice(liveVariant, targetValues);
+    snapDiceToValues(targetValues);
+    resultOverlay.classList.remove('visible');
+    roundMachine.send({ type: 'reset' });
+    fetchSnapshotAndSync();
+  }
+
+  // ============================================
+  // EVENT HANDLERS
+  // ============================================
+
+  async function fetchSnapshotAndSync() {
+    // Prevent concurrent calls
+    if (snapshotRequest) {
+      console.log('[Snapshot] Already fetching, skipping concurrent call');
+      return;
+    }
+
+    const request = new AbortController();
+    snapshotRequest = request;
+    try {
+      const res = await apiFetch(backendUrl('/rounds/current'), { cache: 'no-store', signal: request.signal });
+      if (!res.ok) throw new Error(`Snapshot failed: ${res.status}`);
+      const data = parseSnapshot(await res.json());
+      // Aborted: we switched tables mid-request
+      if (!data || request.signal.aborted) return;
+      if (!isCurrentTable(data.chatId)) {
+        console.log(`[Snapshot] Ignoring snapshot for chat ${data.chatId}`);
+        return;
+      }
+      updateServerTimeOffset(data.serverNow);
+      const now = data.serverNow;
+
+      // Always update last outcome and dice
+      targetValues = data.lastOutcome.diceValues;
+      currentRoundId = data.lastOutcome.roundId;
+      updateDiceToValues(targetValues);
+
+      const context = roundMachine.getContext();
+
+      if (data.state === 'SCHEDULED') {
+        // If schedule already passed, fall back to the last result.
+        if (now >= data.endAt) {
+          roundMachine.send({ type: 'idle' });
         } else {
-          showWaitingState('Waiting for result...');
+          roundMachine.send({
+            type: 'schedule',
+            startAt: data.startAt,
+            endAt: data.endAt,
+            totalMs: data.totalMs,
+            remainingMs: now < data.startAt ? data.remainingMs ?? data.startAt - now : undefined,
+          });
         }
+      } else if (data.state === 'STARTED_OR_REVEALED') {
+        const { round } = data;
+        currentRoundId = round.id;
+
+        if (Array.isArray(round.diceValues)) {
+          if (round.diceValues.length === 0) {
+            // Cancelled round
+            roundMachine.send({ type: 'cancel', roundId: round.id });
+          } else if (!(context.phase === 'rolling' && context.roundId === round.id)) {
+            // Round has a result already (and we are not mid-roll for it).
+            targetValues = round.diceValues;
+            roundHistory.record({ roundId: round.id, diceValues: round.diceValues, revealedAt: round.endAt });
+            updateDiceToValues(targetValues);
+            // Finished rounds are shown without re-rolling; in-progress ones animate the roll.
+            roundMachine.send({
+              type: now >= round.endAt ? 'reveal' : 'result',
+              roundId: round.id,
+              diceValues: round.diceValues,
+            });
+          }
+        } else {
+          // No result yet: counts down to endAt, or waits for the result if already past it
+          roundMachine.send({
+            type: 'start',
+            roundId: round.id,
+            startAt: round.startAt,
+            endAt: round.endAt,
+            totalMs: round.totalMs ?? round.endAt - round.startAt,
+            remainingMs: round.remainingMs ?? Math.max(0, round.endAt - now),
+          });
+        }
+      } else {
+        // IDLE: show last outcome
+        roundMachine.send({ type: 'idle' });
       }
-    } else {
-      // IDLE: show last outcome
-      showLastOutcome(GameConfig.targetValues);
+    } catch (err) {
+      if (!request.signal.aborted) console.error('[Snapshot] Failed to sync', err);
+    } finally {
+      if (snapshotRequest === request) snapshotRequest = null;
     }
-  } catch (err) {
-    console.error('[Snapshot] Failed to sync', err);
-  } finally {
-    isFetchingSnapshot = false;
   }
-}
 
-function onWindowResize(): void {
-  camera.aspect = window.innerWidth / window.innerHeight;
-  camera.updateProjectionMatrix();
-  renderer.setSize(window.innerWidth, window.innerHeight);
-  updateCameraPosition();
-}
+  function onResize(): void {
+    if (!sceneReady) return;
+    const { width, height } = getViewSize();
+    camera.aspect = width / height;
+    camera.updateProjectionMatrix();
+    renderer.setSize(width, height);
+    renderer.setPixelRatio(Math.min(window.devicePixelRatio, QUALITY_LEVELS[renderLoop.getLevel()].maxPixelRatio));
+    layoutTable();
+    renderLoop.invalidate();
+  }
 
-function onVisibilityChange(): void {
-  if (!document.hidden) {
-    // Tab became active: resync with backend to catch missed events and restart countdown timers.
-    fetchSnapshotAndSync();
-  } else {
-    // Stop countdown timers while hidden to avoid drift; they will be restarted on resync.
-    clearCountdownFrame();
+  function onVisibilityChange(): void {
+    if (!document.hidden) {
+      // Tab became active: resync with backend to catch missed events and restart countdown timers.
+      fetchSnapshotAndSync();
+      renderLoop.invalidate();
+    } else {
+      // Stop countdown timers while hidden to avoid drift; they will be restarted on resync.
+      clearCountdownFrame();
+    }
   }
-}
 
-function updateCameraPosition(): void {
-  const aspect = window.innerWidth / window.innerHeight;
+  function updateCameraPosition(): void {
+    const aspect = getAspect();
+
+    let distance: number;
+    if (aspect < 1) {
+      distance = 16;
+    } else if (aspect > 1.5) {
+      distance = 11;
+    } else {
+      distance = 13;
+    }
+
+    // Further back if the layout would not fit (half a die of margin around it)
+    const tanHalfFov = Math.tan(THREE.MathUtils.degToRad(camera.fov / 2));
+    const halfWidth = Math.max(0, ...basePositions.map((p) => Math.abs(p.x))) + DIE_SIZE;
+    const halfHeight = Math.max(0, ...basePositions.map((p) => Math.abs(p.y))) + DIE_SIZE;
+    distance = Math.max(distance, halfHeight / tanHalfFov, halfWidth / (tanHalfFov * aspect));
 
-  if (aspect < 1) {
-    camera.position.set(0, 0, 16);
-  } else if (aspect > 1.5) {
-    camera.position.set(0, 0, 11);
-  } else {
-    camera.position.set(0, 0, 13);
+    cameraRig.setHomeDistance(distance);
   }
 
-  camera.lookAt(0, 0, 0);
-}
+  // ============================================
+  // SET-UP
+  // ============================================
+  initAssetNotice();
+
+  // Listen to the embedding page before anything slow, so early commands are not lost
+  if (hostBridgeGame === null) {
+    hostBridgeGame = container;
+    disposer.add(
+      initHostBridge({
+        getState: getGameState,
+        setChatId,
+        setTheme,
+        setLocale,
+        setMuted,
+        setAuthToken: setSession,
+      })
+    );
+    disposer.add(events.on('result', (result) => emitToHost('roundResult', result)));
+    disposer.add(() => {
+      hostBridgeGame = null;
+    });
+  }
 
-function animate(): void {
-  requestAnimationFrame(animate);
-  renderer.render(scene, camera);
+  // Header clock in the table's time zone, on server time
+  const tableClock = createTableClock(byId('clockContainer'), { getServerTime, getChatId: () => chatId });
+  disposer.add(tableClock.stop);
+
+  const announcer = createAnnouncer(container);
+  disposer.add(announcer.dispose);
+  disposer.add(announceRoundEvents());
+  disposer.add(
+    onLocaleChange(() => {
+      if (shownResultValues) resultSummary.textContent = describeResult(shownResultValues);
+    })
+  );
+  disposer.add(initLocaleSwitcher(byId('localeSwitcher')));
+  disposer.add(initLoginForm(byId('loginPanel'), () => chatId));
+  disposer.add(initSoundControls(byId('soundControls')));
+  disposer.add(onSessionChange(onSessionStatusChange));
+
+  const bettingBoard = createBettingBoard({
+    container: byId('bettingBoard'),
+    getServerTime,
+    getChatId: () => chatId,
+    getTheme: () => theme,
+  });
+  disposer.add(bettingBoard.dispose);
+
+  const roundHistory = createRoundHistory(byId('historyPanel'), {
+    onReplay: (roundId) => replayRound(roundId),
+    onReplayFile: (file) => replayRound(file),
+    getTheme: () => theme,
+  });
+  disposer.add(roundHistory.dispose);
+  roundHistory.load(chatId);
+
+  const replayControls = createReplayControls(byId('replayControls'), {
+    onTogglePause: () => {
+      if (!replayPlayer) return;
+      if (replayPlayer.getState().paused) {
+        replayPlayer.play();
+      } else {
+        replayPlayer.pause();
+      }
+    },
+    onStep: () => replayPlayer?.step(),
+    onRestart: () => {
+      replayPlayer?.restart();
+      replayPlayer?.play();
+    },
+    onSpeed: (speed) => replayPlayer?.setSpeed(speed),
+    onExport: () => {
+      if (replayPlayer) downloadRoundExport(replayPlayer.getState().round);
+    },
+    onExit: exitReplay,
+  });
+  replayControls.render(null);
+
+  const handle: GameHandle = {
+    container,
+    getState: getGameState,
+    setChatId,
+    reconnect,
+    setTheme,
+    replayRound,
+    exitReplay,
+    getClockStats: () => clockSync.getStats(),
+    getRenderStats: () => renderLoop.getReport(),
+    events: { on: events.on, once: events.once, off: events.off },
+    unmount,
+  };
+  return { handle, start };
 }
 
-// Start
-init();
-document.addEventListener('visibilitychange', onVisibilityChange);
+// ============================================
+// MOUNTING
+// ============================================
 
-// Cleanup on page unload
-window.addEventListener('beforeunload', () => {
-  stopPeriodicTimeSync();
-  if (eventSource) {
-    eventSource.close();
-    eventSource = null;
-  }
-  cancelCountdown();
-});
+/**
+ * Render a game into `container` and start it; resolves with its handle once
+ * it is running (or showing its start-up error). Each container holds one
+ * game, and a page can hold several, each following its own table.
+ */
+export async function mount(container: HTMLElement, options: MountOptions = {}): Promise<GameHandle> {
+  if (games.has(container)) throw new Error('[Lifecycle] A game is already mounted in this container');
+  startPageServices();
+  const { handle, start } = createGame(container, options);
+  games.set(container, handle);
+  await start();
+  return handle;
+}
+
+// Expose to window
+window.getGameState = () => pageGame().getState();
+window.reconnect = () => pageGame().reconnect();
+window.setChatId = (chatId) => pageGame().setChatId(chatId);
+window.replayRound = (source) => pageGame().replayRound(source);
+window.exitReplay = () => pageGame().exitReplay();
+window.getClockStats = () => pageGame().getClockStats();
+window.getRenderStats = () => pageGame().getRenderStats();
+window.setBetClient = setBetClient;
+window.getProtocolRejections = getProtocolRejections;
+window.setAuthToken = (token: string, expiresAt?: number) => setSession(token, expiresAt);
+window.mountGame = mount;
+window.getResourceStats = getResourceStats;
+window.gameEvents = { on: gameEvents.on, once: gameEvents.once, off: gameEvents.off };
+
+// Start (index.html provides #app; other pages call mountGame() themselves)
+const appRoot = document.getElementById('app');
+if (appRoot) mount(appRoot);
@@ -0,0 +1,100 @@
+/**
+ * Game Markup
+ * The DOM a game instance lives in. `mount()` (main.ts) renders it into each
+ * game's container and the game's `unmount()` removes it again; static text
+ * is translated by `applyTranslations()` through its data-i18n keys. Every id
+ * starts with the game's own prefix, so games sharing a page (and the ARIA
+ * references between their elements) never collide; see `gameElementId()`.
+ */
+
+export function gameElementId(idPrefix: string, name: string): string {
+  return `${idPrefix}-${name}`;
+}
+
+export function renderGameMarkup(idPrefix: string): string {
+  const id = (name: string) => gameElementId(idPrefix, name);
+  return `
+<!-- Loading Screen -->
+<div class="loading-screen" id="${id('loadingScreen')}">
+    <div class="loading-content">
+        <div class="loading-dice">
+            <div class="dice-face front"><img src="/Dice_side_1.0.png" data-face="1" alt="Dice 1"><span class="dice-number">1</span></div>
+            <div class="dice-face back"><img src="/Dice_side_6.0.png" data-face="6" alt="Dice 6"><span class="dice-number">6</span></div>
+            <div class="dice-face right"><img src="/Dice_side_4.0.png" data-face="4" alt="Dice 4"><span class="dice-number">4</span></div>
+            <div class="dice-face left"><img src="/Dice_side_3.0.png" data-face="3" alt="Dice 3"><span class="dice-number">3</span></div>
+            <div class="dice-face top"><img src="/Dice_side_2.0.png" data-face="2" alt="Dice 2"><span class="dice-number">2</span></div>
+            <div class="dice-face bottom"><img src="/Dice_side_5.0.png" data-face="5" alt="Dice 5"><span class="dice-number">5</span></div>
+        </div>
+        <h2 class="loading-title">Jhandi Munda</h2>
+        <div class="loading-bar">
+            <div class="loading-progress"></div>
+        </div>
+        <p class="loading-text" data-i18n="loading.text">Loading assets...</p>
+        <button type="button" class="loading-retry" data-i18n="loading.retry" hidden>Retry</button>
+    </div>
+</div>
+
+<!-- Shown when images were replaced by drawn stand-ins -->
+<div class="asset-notice" id="${id('assetNotice')}" role="status" hidden>
+    <span data-i18n="loading.degraded">Some images could not be loaded. Showing simplified graphics.</span>
+    <button type="button" class="asset-notice-retry" data-i18n="loading.retry">Retry</button>
+    <button type="button" class="asset-notice-dismiss" data-i18n="loading.dismiss">Dismiss</button>
+</div>
+
+<!-- Game Overlay - Countdown (hidden by default, shown when a round is scheduled/started) -->
+<div class="game-overlay hidden" id="${id('gameOverlay')}">
+    <div class="overlay-content">
+        <h2 class="round-label" data-i18n="round.starting">Starting Round</h2>
+        
+        <!-- Circular Countdown -->
+        <div class="countdown-container" role="timer" aria-labelledby="${id('statusText')}">
+            <svg class="countdown-svg" viewBox="0 0 100 100" aria-hidden="true">
+                <circle class="countdown-bg" cx="50" cy="50" r="45"></circle>
+                <circle class="countdown-progress" id="${id('countdownProgress')}" cx="50" cy="50" r="45"></circle>
+            </svg>
+            <div class="countdown-text" id="${id('countdownText')}">10</div>
+        </div>
+        
+        <p class="status-text" id="${id('statusText')}" data-i18n="round.getReady">Get ready...</p>
+    </div>
+</div>
+
+<!-- Result Overlay -->
+<div class="result-overlay" id="${id('resultOverlay')}">
+    <div class="result-content">
+        <h2 class="result-label" data-i18n="result.round">Round Result</h2>
+        <div class="result-symbols" id="${id('resultSymbols')}" aria-hidden="true"></div>
+        <p class="result-summary" id="${id('resultSummary')}"></p>
+        <div class="bet-summary hidden" id="${id('betSummary')}"></div>
+        <p class="next-round-text" id="${id('nextRoundText')}" data-i18n="round.waitingForNext">Waiting for next round...</p>
+    </div>
+</div>
+
+<!-- Betting Board (opens between round.scheduled and endAt) -->
+<div class="betting-board hidden" id="${id('bettingBoard')}"></div>
+
+<!-- Round History (collapsible) -->
+<aside class="history-panel collapsed" id="${id('historyPanel')}"></aside>
+
+<!-- Replay Controls (visible only while replaying a past round) -->
+<div class="replay-controls hidden" id="${id('replayControls')}"></div>
+
+<!-- Sign-in (shown when a session is required or has expired) -->
+<div class="login-panel hidden" id="${id('loginPanel')}"></div>
+
+<!-- Header -->
+<div class="header">
+    <div class="connection-status disconnected" id="${id('connectionStatus')}" data-i18n="connection.connecting">Connecting...</div>
+    <h1 class="title">🎲 Jhandi Munda</h1>
+    <div class="header-controls">
+        <div class="locale-switcher" id="${id('localeSwitcher')}"></div>
+        <div class="sound-controls" id="${id('soundControls')}"></div>
+    </div>
+    <div class="clock-container" id="${id('clockContainer')}">
+        <div class="clock-time" id="${id('clockTime')}">00:00</div>
+    </div>
+</div>
+
+<canvas class="dice-canvas" id="${id('dice-canvas')}" aria-hidden="true"></canvas>
+`;
+}
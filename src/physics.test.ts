@@ -0,0 +1,108 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import { faceRotations } from './config';
+import { createRng, hashSeed, landingCorrection, simulateRoll, type SimulationOptions } from './physics';
+
+const HALF_SIZE = 1;
+
+// Six dice in a 3 x 2 block on a landscape table
+const options = (seed: number): SimulationOptions => ({
+  seed,
+  homes: [-1, 0, 1].flatMap((column) => [0.5, -0.5].map((row) => ({ x: column * 2.6, y: row * 2.6 }))),
+  durationMs: 2500,
+  halfSize: HALF_SIZE,
+  bounds: { minX: -9, maxX: 9, minY: -5, maxY: 5, maxZ: 6 },
+});
+
+const UP = new THREE.Vector3(0, 0, 1);
+
+const last = <T>(frames: T[]): T => frames[frames.length - 1];
+
+const faceQuaternions = Object.fromEntries(
+  Object.entries(faceRotations).map(([value, { x, y, z }]) => [
+    Number(value),
+    new THREE.Quaternion().setFromEuler(new THREE.Euler(x, y, z, 'XYZ')),
+  ])
+);
+
+// Local axis of a die that points at the camera in `quaternion`
+function localUp(quaternion: THREE.Quaternion): THREE.Vector3 {
+  return UP.clone().applyQuaternion(quaternion.clone().invert());
+}
+
+// The face value a die in `quaternion` shows, taking the face closest to the camera
+function shownValue(quaternion: THREE.Quaternion): number {
+  const up = localUp(quaternion);
+  const [value] = Object.entries(faceQuaternions).sort(
+    ([, a], [, b]) => localUp(b).dot(up) - localUp(a).dot(up)
+  )[0];
+  return Number(value);
+}
+
+describe('seeding', () => {
+  it.each(['round-1', 'round-2', ''])('hashes "%s" to the same unsigned 32-bit seed every time', (text) => {
+    const seed = hashSeed(text);
+    expect(hashSeed(text)).toBe(seed);
+    expect(Number.isInteger(seed)).toBe(true);
+    expect(seed).toBeGreaterThanOrEqual(0);
+    expect(seed).toBeLessThan(2 ** 32);
+  });
+
+  it('gives different rounds different seeds', () => {
+    expect(hashSeed('round-1')).not.toBe(hashSeed('round-2'));
+  });
+
+  it('repeats a sequence for a seed and stays in [0, 1)', () => {
+    const a = createRng(42);
+    const b = createRng(42);
+    const values = Array.from({ length: 1000 }, () => a());
+    expect(values).toEqual(Array.from({ length: 1000 }, () => b()));
+    expect(values.every((value) => value >= 0 && value < 1)).toBe(true);
+    expect(createRng(43)()).not.toBe(values[0]);
+  });
+});
+
+describe('simulateRoll', () => {
+  it('produces identical tracks for the same seed', () => {
+    const seed = hashSeed('round-1');
+    expect(simulateRoll(options(seed))).toEqual(simulateRoll(options(seed)));
+  });
+
+  it('throws differently for another seed', () => {
+    const [a, b] = [hashSeed('round-1'), hashSeed('round-2')].map((seed) => simulateRoll(options(seed)));
+    expect(last(a.tracks[0].quaternions)).not.toEqual(last(b.tracks[0].quaternions));
+  });
+
+  it('keeps every die on the table', () => {
+    const { bounds } = options(0);
+    simulateRoll(options(hashSeed('round-1'))).tracks.forEach(({ positions }) => {
+      const rest = last(positions);
+      expect(rest.x).toBeGreaterThan(bounds.minX);
+      expect(rest.x).toBeLessThan(bounds.maxX);
+      expect(rest.y).toBeGreaterThan(bounds.minY);
+      expect(rest.y).toBeLessThan(bounds.maxY);
+      expect(rest.z).toBeCloseTo(0, 0);
+    });
+  });
+});
+
+describe('landingCorrection', () => {
+  const seeds = ['round-1', 'round-2', 'round-3'].map(hashSeed);
+
+  it.each([1, 2, 3, 4, 5, 6])('lands every die of a throw on %i', (value) => {
+    seeds.forEach((seed) => {
+      simulateRoll(options(seed)).tracks.forEach(({ quaternions }) => {
+        const rest = last(quaternions);
+        const corrected = rest.clone().multiply(landingCorrection(rest, faceQuaternions[value]));
+        expect(shownValue(corrected)).toBe(value);
+      });
+    });
+  });
+
+  it('leaves a die that already shows its value alone', () => {
+    Object.values(faceQuaternions).forEach((target) => {
+      const correction = landingCorrection(target, target);
+      expect(Math.abs(correction.dot(new THREE.Quaternion()))).toBeCloseTo(1);
+    });
+  });
+});
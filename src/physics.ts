@@ -0,0 +1,366 @@
+import * as THREE from 'three';
+
+/**
+ * Deterministic rigid-body dice simulation.
+ *
+ * The whole throw is simulated up front with a fixed time step and a seeded
+ * RNG, so the same seed always produces the same trajectories. The table is
+ * the z = -halfSize plane (dice rest at z = 0, camera looks down -Z), bounded
+ * by four walls and a ceiling. Dice are cubes with isotropic inertia; cube/plane
+ * contacts are resolved per corner, die/die contacts with bounding spheres.
+ */
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+export interface PhysicsBounds {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+  maxZ: number;
+}
+
+export interface SimulationOptions {
+  seed: number;
+  // Resting centre of each die (also where it is launched from)
+  homes: { x: number; y: number }[];
+  durationMs: number;
+  halfSize: number;
+  bounds: PhysicsBounds;
+}
+
+// Recorded pose of one die, sampled every `frameMs`
+export interface DieTrack {
+  positions: THREE.Vector3[];
+  quaternions: THREE.Quaternion[];
+  // Collisions hard enough to hear, in time order
+  impacts: DieImpact[];
+}
+
+export interface DieImpact {
+  timeMs: number;
+  // Approach speed at the contact (units/s)
+  speed: number;
+}
+
+export interface RollSimulation {
+  frameMs: number;
+  tracks: DieTrack[];
+}
+
+interface Body {
+  position: THREE.Vector3;
+  velocity: THREE.Vector3;
+  quaternion: THREE.Quaternion;
+  angularVelocity: THREE.Vector3;
+}
+
+interface Plane {
+  normal: THREE.Vector3;
+  offset: number;
+}
+
+// ============================================
+// SEEDABLE RNG
+// ============================================
+
+/**
+ * FNV-1a hash, used to turn a roundId into an RNG seed.
+ */
+export function hashSeed(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Mulberry32 PRNG returning floats in [0, 1).
+ */
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// ============================================
+// SIMULATION CONSTANTS
+// ============================================
+const STEP_MS = 1000 / 240;
+const STEPS_PER_FRAME = 4;
+const GRAVITY = new THREE.Vector3(0, 0, -30);
+const MASS = 1;
+const RESTITUTION = 0.35;
+const FRICTION = 0.4;
+const DIE_RESTITUTION = 0.4;
+const LINEAR_DAMPING = 0.2;
+// Extra spin loss per second while touching the table (rolling resistance)
+const CONTACT_ANGULAR_DAMPING = 3;
+// Impacts slower than this, or closer together than the gap, are not recorded
+const MIN_IMPACT_SPEED = 1.5;
+const MIN_IMPACT_GAP_MS = 60;
+
+// ============================================
+// SIMULATION
+// ============================================
+const tmpCorner = new THREE.Vector3();
+const tmpArm = new THREE.Vector3();
+const tmpPointVelocity = new THREE.Vector3();
+const tmpTangent = new THREE.Vector3();
+const tmpTorque = new THREE.Vector3();
+const tmpSpin = new THREE.Quaternion();
+
+function cornerOffsets(halfSize: number): THREE.Vector3[] {
+  const corners: THREE.Vector3[] = [];
+  for (const x of [-1, 1]) {
+    for (const y of [-1, 1]) {
+      for (const z of [-1, 1]) {
+        corners.push(new THREE.Vector3(x, y, z).multiplyScalar(halfSize));
+      }
+    }
+  }
+  return corners;
+}
+
+function randomQuaternion(rng: () => number): THREE.Quaternion {
+  // Shoemake's uniform random rotation
+  const u1 = rng();
+  const u2 = rng() * Math.PI * 2;
+  const u3 = rng() * Math.PI * 2;
+  const a = Math.sqrt(1 - u1);
+  const b = Math.sqrt(u1);
+  return new THREE.Quaternion(a * Math.sin(u2), a * Math.cos(u2), b * Math.sin(u3), b * Math.cos(u3));
+}
+
+function applyImpulse(body: Body, impulse: THREE.Vector3, arm: THREE.Vector3, inertia: number): void {
+  body.velocity.addScaledVector(impulse, 1 / MASS);
+  tmpTorque.crossVectors(arm, impulse);
+  body.angularVelocity.addScaledVector(tmpTorque, 1 / inertia);
+}
+
+/**
+ * Push the body out of the plane and bounce its penetrating corners.
+ * Returns the fastest corner approach speed, or -1 when not touching.
+ */
+function resolvePlaneContacts(
+  body: Body,
+  plane: Plane,
+  corners: THREE.Vector3[],
+  inertia: number,
+): number {
+  let maxPenetration = 0;
+  let impactSpeed = 0;
+
+  for (const local of corners) {
+    tmpArm.copy(local).applyQuaternion(body.quaternion);
+    tmpCorner.copy(body.position).add(tmpArm);
+    const penetration = plane.offset - plane.normal.dot(tmpCorner);
+    if (penetration <= 0) continue;
+    maxPenetration = Math.max(maxPenetration, penetration);
+
+    tmpPointVelocity.crossVectors(body.angularVelocity, tmpArm).add(body.velocity);
+    const normalSpeed = plane.normal.dot(tmpPointVelocity);
+    if (normalSpeed >= 0) continue;
+    impactSpeed = Math.max(impactSpeed, -normalSpeed);
+
+    // Normal impulse
+    tmpTorque.crossVectors(tmpArm, plane.normal);
+    const normalMass = 1 / MASS + tmpTorque.lengthSq() / inertia;
+    const normalImpulse = (-(1 + RESTITUTION) * normalSpeed) / normalMass;
+    applyImpulse(body, plane.normal.clone().multiplyScalar(normalImpulse), tmpArm, inertia);
+
+    // Coulomb friction against the tangential slip
+    tmpPointVelocity.crossVectors(body.angularVelocity, tmpArm).add(body.velocity);
+    tmpTangent.copy(tmpPointVelocity).addScaledVector(plane.normal, -plane.normal.dot(tmpPointVelocity));
+    const slip = tmpTangent.length();
+    if (slip > 1e-6) {
+      tmpTangent.divideScalar(slip);
+      tmpTorque.crossVectors(tmpArm, tmpTangent);
+      const tangentMass = 1 / MASS + tmpTorque.lengthSq() / inertia;
+      const frictionImpulse = Math.min(FRICTION * normalImpulse, slip / tangentMass);
+      applyImpulse(body, tmpTangent.clone().multiplyScalar(-frictionImpulse), tmpArm, inertia);
+    }
+  }
+
+  if (maxPenetration > 0) {
+    body.position.addScaledVector(plane.normal, maxPenetration);
+    return impactSpeed;
+  }
+  return -1;
+}
+
+/**
+ * Separate two overlapping dice. Returns their approach speed (0 if none).
+ */
+function resolveDieContact(a: Body, b: Body, radius: number): number {
+  const delta = new THREE.Vector3().subVectors(b.position, a.position);
+  const distance = delta.length();
+  const minDistance = radius * 2;
+  if (distance >= minDistance || distance < 1e-6) return 0;
+
+  const normal = delta.divideScalar(distance);
+  const overlap = minDistance - distance;
+  a.position.addScaledVector(normal, -overlap / 2);
+  b.position.addScaledVector(normal, overlap / 2);
+
+  const approachSpeed = new THREE.Vector3().subVectors(b.velocity, a.velocity).dot(normal);
+  if (approachSpeed >= 0) return 0;
+
+  // Equal masses: split the impulse evenly
+  const impulse = (-(1 + DIE_RESTITUTION) * approachSpeed) / 2;
+  a.velocity.addScaledVector(normal, -impulse);
+  b.velocity.addScaledVector(normal, impulse);
+  return -approachSpeed;
+}
+
+function recordImpact(track: DieTrack, timeMs: number, speed: number): void {
+  if (speed < MIN_IMPACT_SPEED) return;
+  const last = track.impacts[track.impacts.length - 1];
+  if (last && timeMs - last.timeMs < MIN_IMPACT_GAP_MS) {
+    last.speed = Math.max(last.speed, speed);
+    return;
+  }
+  track.impacts.push({ timeMs, speed });
+}
+
+function integrate(body: Body, dt: number): void {
+  body.velocity.addScaledVector(GRAVITY, dt);
+  body.velocity.multiplyScalar(Math.max(0, 1 - LINEAR_DAMPING * dt));
+  body.position.addScaledVector(body.velocity, dt);
+
+  // q' = q + 0.5 * (0, w) * q * dt
+  const w = body.angularVelocity;
+  tmpSpin.set(w.x, w.y, w.z, 0).multiply(body.quaternion);
+  body.quaternion.x += tmpSpin.x * 0.5 * dt;
+  body.quaternion.y += tmpSpin.y * 0.5 * dt;
+  body.quaternion.z += tmpSpin.z * 0.5 * dt;
+  body.quaternion.w += tmpSpin.w * 0.5 * dt;
+  body.quaternion.normalize();
+}
+
+/**
+ * Pre-simulate a throw of all dice. Pure function of its options.
+ */
+export function simulateRoll(options: SimulationOptions): RollSimulation {
+  const { seed, homes, durationMs, halfSize, bounds } = options;
+  const rng = createRng(seed);
+  const range = (min: number, max: number) => min + (max - min) * rng();
+
+  const inertia = (MASS * (2 * halfSize) ** 2) / 6;
+  const corners = cornerOffsets(halfSize);
+  const sphereRadius = halfSize * 1.2;
+  const planes: Plane[] = [
+    { normal: new THREE.Vector3(0, 0, 1), offset: -halfSize },
+    { normal: new THREE.Vector3(0, 0, -1), offset: -bounds.maxZ },
+    { normal: new THREE.Vector3(1, 0, 0), offset: bounds.minX },
+    { normal: new THREE.Vector3(-1, 0, 0), offset: -bounds.maxX },
+    { normal: new THREE.Vector3(0, 1, 0), offset: bounds.minY },
+    { normal: new THREE.Vector3(0, -1, 0), offset: -bounds.maxY },
+  ];
+
+  const bodies: Body[] = homes.map((home) => ({
+    position: new THREE.Vector3(home.x + range(-0.4, 0.4), home.y + range(-0.4, 0.4), range(1.5, 2.5)),
+    velocity: new THREE.Vector3(range(-4, 4), range(-4, 4), range(4, 7)),
+    quaternion: randomQuaternion(rng),
+    angularVelocity: new THREE.Vector3(range(-15, 15), range(-15, 15), range(-8, 8)),
+  }));
+
+  const tracks: DieTrack[] = bodies.map((body) => ({
+    positions: [body.position.clone()],
+    quaternions: [body.quaternion.clone()],
+    impacts: [],
+  }));
+
+  const dt = STEP_MS / 1000;
+  const totalSteps = Math.ceil(durationMs / STEP_MS);
+
+  for (let step = 1; step <= totalSteps; step++) {
+    const timeMs = step * STEP_MS;
+    bodies.forEach((body) => integrate(body, dt));
+
+    for (let i = 0; i < bodies.length; i++) {
+      for (let j = i + 1; j < bodies.length; j++) {
+        const speed = resolveDieContact(bodies[i], bodies[j], sphereRadius);
+        recordImpact(tracks[i], timeMs, speed);
+        recordImpact(tracks[j], timeMs, speed);
+      }
+    }
+
+    bodies.forEach((body, i) => {
+      let touching = false;
+      planes.forEach((plane, index) => {
+        const speed = resolvePlaneContacts(body, plane, corners, inertia);
+        if (index === 0 && speed >= 0) touching = true;
+        recordImpact(tracks[i], timeMs, speed);
+      });
+      if (touching) {
+        body.angularVelocity.multiplyScalar(Math.max(0, 1 - CONTACT_ANGULAR_DAMPING * dt));
+      }
+    });
+
+    if (step % STEPS_PER_FRAME === 0) {
+      bodies.forEach((body, i) => {
+        tracks[i].positions.push(body.position.clone());
+        tracks[i].quaternions.push(body.quaternion.clone());
+      });
+    }
+  }
+
+  return { frameMs: STEP_MS * STEPS_PER_FRAME, tracks };
+}
+
+// ============================================
+// LANDING STEERING
+// ============================================
+
+// The 24 rotations mapping a cube onto itself
+const cubeSymmetries: THREE.Quaternion[] = (() => {
+  const result: THREE.Quaternion[] = [];
+  const angles = [0, Math.PI / 2, Math.PI, -Math.PI / 2];
+  angles.forEach((x) => {
+    angles.forEach((y) => {
+      angles.forEach((z) => {
+        const q = new THREE.Quaternion().setFromEuler(new THREE.Euler(x, y, z, 'XYZ'));
+        if (!result.some((existing) => Math.abs(existing.dot(q)) > 0.999)) {
+          result.push(q);
+        }
+      });
+    });
+  });
+  return result;
+})();
+
+function nearestAxis(v: THREE.Vector3): THREE.Vector3 {
+  const ax = Math.abs(v.x);
+  const ay = Math.abs(v.y);
+  const az = Math.abs(v.z);
+  if (ax >= ay && ax >= az) return new THREE.Vector3(Math.sign(v.x), 0, 0);
+  if (ay >= az) return new THREE.Vector3(0, Math.sign(v.y), 0);
+  return new THREE.Vector3(0, 0, Math.sign(v.z));
+}
+
+/**
+ * Find the cube symmetry R such that `finalQuaternion * R` shows the face
+ * whose rest orientation is `targetQuaternion` towards +Z. Because a cube is
+ * unchanged by R, applying it to the whole trajectory keeps every collision
+ * visually correct while changing which face ends up on top.
+ */
+export function landingCorrection(finalQuaternion: THREE.Quaternion, targetQuaternion: THREE.Quaternion): THREE.Quaternion {
+  const up = new THREE.Vector3(0, 0, 1);
+  // Local axis of the simulated die that ended up pointing at the camera
+  const landedAxis = nearestAxis(up.clone().applyQuaternion(finalQuaternion.clone().invert()));
+  // Local axis of the face we need on top
+  const targetAxis = up.clone().applyQuaternion(targetQuaternion.clone().invert());
+
+  const rotated = new THREE.Vector3();
+  const match = cubeSymmetries.find((q) => rotated.copy(targetAxis).applyQuaternion(q).distanceTo(landedAxis) < 1e-3);
+  return (match ?? new THREE.Quaternion()).clone();
+}
@@ -0,0 +1,119 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { GameConfig } from './config';
+import { getProtocolRejections, parseEvent, parseSnapshot, validateEvent, validateSnapshot, type EventKind, type ValidationResult } from './protocol';
+
+const lastOutcome = { diceValues: [1, 2, 3, 4, 5, 6], updatedAt: 1000, roundId: 'r0' };
+const round = { id: 'r1', name: 'Round 1', startAt: 2000, endAt: 5000, diceValues: null };
+
+const scheduled = { state: 'SCHEDULED', chatId: 1, startAt: 2000, endAt: 5000, lastOutcome, serverNow: 1500 };
+const started = { state: 'STARTED_OR_REVEALED', chatId: 1, round, lastOutcome, serverNow: 3000 };
+const idle = { state: 'IDLE', chatId: 1, lastOutcome, serverNow: 1500 };
+
+const events: Record<EventKind, Record<string, unknown>> = {
+  lastOutcome: { chatId: 1, ...lastOutcome, serverNow: 1500 },
+  roundScheduled: { chatId: 1, startAt: 2000, endAt: 5000, serverNow: 1500 },
+  roundStarted: { roundId: 'r1', chatId: 1, startAt: 2000, endAt: 5000, serverNow: 2000 },
+  roundResult: { roundId: 'r1', chatId: 1, diceValues: [6, 6, 1, 2, 3, 4], serverNow: 5000 },
+  roundCancelled: { chatId: 1, serverNow: 3000 },
+};
+
+function issuePaths(result: ValidationResult<unknown>): string[] {
+  return result.ok ? [] : result.issues.map((issue) => issue.path);
+}
+
+afterEach(() => {
+  GameConfig.variants.tableVariants = {};
+  vi.restoreAllMocks();
+});
+
+describe('validateSnapshot', () => {
+  it.each([
+    ['SCHEDULED', scheduled],
+    ['SCHEDULED with durations', { ...scheduled, totalMs: 3000, remainingMs: 2500 }],
+    ['STARTED_OR_REVEALED, running', started],
+    ['STARTED_OR_REVEALED, revealed', { ...started, round: { ...round, diceValues: [2, 2, 2, 5, 5, 1] } }],
+    ['STARTED_OR_REVEALED, cancelled', { ...started, round: { ...round, diceValues: [] } }],
+    ['STARTED_OR_REVEALED, unnamed with durations', { ...started, round: { ...round, name: null, totalMs: 3000, remainingMs: 0 } }],
+    ['IDLE', idle],
+    ['IDLE before any round', { ...idle, lastOutcome: { ...lastOutcome, roundId: null } }],
+  ])('accepts %s', (_, snapshot) => {
+    expect(validateSnapshot(snapshot)).toEqual({ ok: true, value: snapshot });
+  });
+
+  it.each([
+    ['not an object', 'IDLE', ['state']],
+    ['null', null, ['state']],
+    ['an unknown state', { ...idle, state: 'PAUSED' }, ['state']],
+    ['a fractional chatId', { ...idle, chatId: 1.5 }, ['chatId']],
+    ['a missing serverNow', { ...scheduled, serverNow: undefined }, ['serverNow']],
+    ['a non-finite startAt', { ...scheduled, startAt: Infinity }, ['startAt']],
+    ['a string duration', { ...scheduled, totalMs: '3000' }, ['totalMs']],
+    ['a missing lastOutcome', { ...idle, lastOutcome: undefined }, ['lastOutcome']],
+    ['five dice in lastOutcome', { ...idle, lastOutcome: { ...lastOutcome, diceValues: [1, 2, 3, 4, 5] } }, ['lastOutcome.diceValues']],
+    ['an empty lastOutcome', { ...idle, lastOutcome: { ...lastOutcome, diceValues: [] } }, ['lastOutcome.diceValues']],
+    ['a face value of 7', { ...idle, lastOutcome: { ...lastOutcome, diceValues: [1, 2, 3, 4, 5, 7] } }, ['lastOutcome.diceValues[5]']],
+    ['a missing round', { ...started, round: undefined }, ['round']],
+    ['a round without an id', { ...started, round: { ...round, id: 1 } }, ['round.id']],
+    ['a revealed round with a face of 0', { ...started, round: { ...round, diceValues: [0, 1, 2, 3, 4, 5] } }, ['round.diceValues[0]']],
+    ['a revealed round with too many dice', { ...started, round: { ...round, diceValues: [1, 1, 1, 1, 1, 1, 1] } }, ['round.diceValues']],
+  ])('rejects %s', (_, snapshot, paths) => {
+    expect(issuePaths(validateSnapshot(snapshot))).toEqual(paths);
+  });
+
+  it('reports every issue in a payload', () => {
+    const result = validateSnapshot({ ...scheduled, chatId: '1', endAt: null, lastOutcome: { ...lastOutcome, updatedAt: NaN } });
+    expect(issuePaths(result)).toEqual(['chatId', 'endAt', 'lastOutcome.updatedAt']);
+  });
+
+  it("checks dice against the snapshot table's variant", () => {
+    GameConfig.variants.tableVariants = { 7: 'crown-anchor' };
+    const threeDice = { ...lastOutcome, diceValues: [1, 4, 6] };
+    expect(validateSnapshot({ ...idle, chatId: 7, lastOutcome: threeDice }).ok).toBe(true);
+    expect(issuePaths(validateSnapshot({ ...idle, chatId: 7 }))).toEqual(['lastOutcome.diceValues']);
+    expect(issuePaths(validateSnapshot({ ...idle, lastOutcome: threeDice }))).toEqual(['lastOutcome.diceValues']);
+  });
+});
+
+describe('validateEvent', () => {
+  it.each(Object.entries(events) as [EventKind, Record<string, unknown>][])('accepts a valid %s', (kind, payload) => {
+    expect(validateEvent(kind, payload)).toEqual({ ok: true, value: payload });
+  });
+
+  it.each<[string, EventKind, unknown, string[]]>([
+    ['an array', 'roundCancelled', [], ['']],
+    ['a result without dice', 'roundResult', { ...events.roundResult, diceValues: undefined }, ['diceValues']],
+    ['a result with five dice', 'roundResult', { ...events.roundResult, diceValues: [1, 2, 3, 4, 5] }, ['diceValues']],
+    ['a cancelled (empty) result', 'roundResult', { ...events.roundResult, diceValues: [] }, ['diceValues']],
+    ['a result with a face of 7', 'roundResult', { ...events.roundResult, diceValues: [7, 1, 1, 1, 1, 1] }, ['diceValues[0]']],
+    ['a result with a fractional face', 'roundResult', { ...events.roundResult, diceValues: [1.5, 1, 1, 1, 1, 1] }, ['diceValues[0]']],
+    ['a start without a roundId', 'roundStarted', { ...events.roundStarted, roundId: null }, ['roundId']],
+    ['a schedule with a string endAt', 'roundScheduled', { ...events.roundScheduled, endAt: '5000' }, ['endAt']],
+    ['a schedule with a NaN remainingMs', 'roundScheduled', { ...events.roundScheduled, remainingMs: NaN }, ['remainingMs']],
+    ['a last outcome without updatedAt', 'lastOutcome', { ...events.lastOutcome, updatedAt: undefined }, ['updatedAt']],
+    ['a cancel without a chatId', 'roundCancelled', { serverNow: 3000 }, ['chatId']],
+  ])('rejects %s', (_, kind, payload, paths) => {
+    expect(issuePaths(validateEvent(kind, payload))).toEqual(paths);
+  });
+});
+
+describe('rejection reporting', () => {
+  it('reports invalid JSON and schema failures, and passes valid payloads', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const before = getProtocolRejections().length;
+
+    expect(parseEvent('roundResult', '{"roundId":')).toBeNull();
+    expect(parseEvent('roundResult', JSON.stringify({ ...events.roundResult, diceValues: [1, 2, 3] }))).toBeNull();
+    expect(parseSnapshot({ ...idle, state: 'PAUSED' })).toBeNull();
+    expect(parseEvent('roundCancelled', JSON.stringify(events.roundCancelled))).toEqual(events.roundCancelled);
+    expect(parseSnapshot(idle)).toEqual(idle);
+
+    const reported = getProtocolRejections().slice(before);
+    expect(reported.map(({ source, issues }) => [source, issues[0].path])).toEqual([
+      ['round.result', ''],
+      ['round.result', 'diceValues'],
+      ['snapshot', 'state'],
+    ]);
+    expect(reported[0].issues[0].message).toMatch(/^invalid JSON/);
+    expect(console.warn).toHaveBeenCalledTimes(3);
+  });
+});
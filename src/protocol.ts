@@ -0,0 +1,456 @@
+import { GameConfig } from './config';
+import { getTableVariant } from './variants';
+
+/**
+ * Backend Event Protocol
+ * Typed SSE/snapshot payloads with runtime validation. Anything that fails
+ * validation is rejected (and reported) instead of reaching the game loop.
+ */
+
+// ============================================
+// PROTOCOL VERSIONING
+// ============================================
+export const PROTOCOL_VERSION = 1;
+
+export type EventKind = 'lastOutcome' | 'roundScheduled' | 'roundStarted' | 'roundResult' | 'roundCancelled';
+
+// SSE event names per protocol version
+const EVENT_NAMES: Record<number, Record<EventKind, string>> = {
+  1: {
+    lastOutcome: 'last.outcome',
+    roundScheduled: 'round.scheduled',
+    roundStarted: 'round.started',
+    roundResult: 'round.result',
+    roundCancelled: 'round.cancelled',
+  },
+};
+
+export function getEventName(kind: EventKind, version: number = PROTOCOL_VERSION): string {
+  const names = EVENT_NAMES[version];
+  if (!names) throw new Error(`Unsupported protocol version: ${version}`);
+  return names[kind];
+}
+
+// ============================================
+// PAYLOAD TYPES
+// ============================================
+export interface LastOutcome {
+  diceValues: number[];
+  updatedAt: number;
+  roundId: string | null;
+}
+
+export interface LastOutcomeEvent extends LastOutcome {
+  chatId: number;
+  serverNow: number;
+}
+
+export interface RoundScheduledEvent {
+  chatId: number;
+  startAt: number;
+  endAt: number;
+  totalMs?: number;
+  remainingMs?: number;
+  serverNow: number;
+}
+
+export interface RoundStartedEvent {
+  roundId: string;
+  chatId: number;
+  startAt: number;
+  endAt: number;
+  totalMs?: number;
+  remainingMs?: number;
+  serverNow: number;
+}
+
+export interface RoundResultEvent {
+  roundId: string;
+  chatId: number;
+  diceValues: number[];
+  serverNow: number;
+}
+
+export interface RoundCancelledEvent {
+  chatId: number;
+  serverNow: number;
+}
+
+export interface EventPayloads {
+  lastOutcome: LastOutcomeEvent;
+  roundScheduled: RoundScheduledEvent;
+  roundStarted: RoundStartedEvent;
+  roundResult: RoundResultEvent;
+  roundCancelled: RoundCancelledEvent;
+}
+
+export type SnapshotResponse =
+  | {
+      state: 'SCHEDULED';
+      chatId: number;
+      startAt: number;
+      endAt: number;
+      lastOutcome: LastOutcome;
+      serverNow: number;
+      totalMs?: number;
+      remainingMs?: number;
+    }
+  | {
+      state: 'STARTED_OR_REVEALED';
+      chatId: number;
+      round: {
+        id: string;
+        name: string | null;
+        startAt: number;
+        endAt: number;
+        // Empty array = round was cancelled
+        diceValues: number[] | null;
+        totalMs?: number;
+        remainingMs?: number;
+      };
+      lastOutcome: LastOutcome;
+      serverNow: number;
+    }
+  | {
+      state: 'IDLE';
+      chatId: number;
+      lastOutcome: LastOutcome;
+      serverNow: number;
+    };
+
+// A single finished round, as returned by GET /rounds/:id or a local export
+export interface RoundRecord {
+  id: string;
+  chatId?: number;
+  name: string | null;
+  startAt: number;
+  endAt: number;
+  diceValues: number[];
+}
+
+// ============================================
+// VALIDATION
+// ============================================
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; issues: ValidationIssue[] };
+
+// The helpers below are shared with theme manifests (see theme.ts)
+export type Validator<T> = (value: unknown, path: string, issues: ValidationIssue[]) => T;
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const finiteNumber: Validator<number> = (value, path, issues) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    issues.push({ path, message: `expected a finite number, got ${describe(value)}` });
+  }
+  return value as number;
+};
+
+export const integer: Validator<number> = (value, path, issues) => {
+  if (!Number.isInteger(value)) {
+    issues.push({ path, message: `expected an integer, got ${describe(value)}` });
+  }
+  return value as number;
+};
+
+export const string: Validator<string> = (value, path, issues) => {
+  if (typeof value !== 'string') {
+    issues.push({ path, message: `expected a string, got ${describe(value)}` });
+  }
+  return value as string;
+};
+
+export const boolean: Validator<boolean> = (value, path, issues) => {
+  if (typeof value !== 'boolean') {
+    issues.push({ path, message: `expected a boolean, got ${describe(value)}` });
+  }
+  return value as boolean;
+};
+
+export function nullable<T>(inner: Validator<T>): Validator<T | null> {
+  return (value, path, issues) => (value === null ? null : inner(value, path, issues));
+}
+
+export function optional<T>(inner: Validator<T>): Validator<T | undefined> {
+  return (value, path, issues) => (value === undefined ? undefined : inner(value, path, issues));
+}
+
+function literal<T extends string>(expected: T): Validator<T> {
+  return (value, path, issues) => {
+    if (value !== expected) {
+      issues.push({ path, message: `expected "${expected}", got ${describe(value)}` });
+    }
+    return value as T;
+  };
+}
+
+export function object<T>(shape: { [K in keyof T]: Validator<T[K]> }): Validator<T> {
+  return (value, path, issues) => {
+    if (!isRecord(value)) {
+      issues.push({ path, message: `expected an object, got ${describe(value)}` });
+      return value as T;
+    }
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      shape[key](value[key], path ? `${path}.${key}` : key, issues);
+    }
+    return value as T;
+  };
+}
+
+export function array<T>(item: Validator<T>): Validator<T[]> {
+  return (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ path, message: `expected an array, got ${describe(value)}` });
+      return value as T[];
+    }
+    value.forEach((v, i) => item(v, `${path}[${i}]`, issues));
+    return value;
+  };
+}
+
+/**
+ * Exactly `count` integers in 1-6. `allowEmpty` accepts [] (cancelled round).
+ */
+function diceValues(count: number, allowEmpty = false): Validator<number[]> {
+  return (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ path, message: `expected an array of dice values, got ${describe(value)}` });
+      return value as number[];
+    }
+    if (allowEmpty && value.length === 0) return value;
+    if (value.length !== count) {
+      issues.push({ path, message: `expected ${count} dice values, got ${value.length}` });
+    }
+    value.forEach((v, i) => {
+      if (!Number.isInteger(v) || v < 1 || v > 6) {
+        issues.push({ path: `${path}[${i}]`, message: `expected a face value 1-6, got ${describe(v)}` });
+      }
+    });
+    return value;
+  };
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return `array(${value.length})`;
+  if (typeof value === 'string') return `"${value.length > 20 ? `${value.slice(0, 20)}...` : value}"`;
+  return typeof value === 'number' ? String(value) : typeof value;
+}
+
+type SnapshotOf<S extends SnapshotResponse['state']> = Extract<SnapshotResponse, { state: S }>;
+
+interface PayloadValidators {
+  eventValidators: { [K in EventKind]: Validator<EventPayloads[K]> };
+  snapshotValidators: { [S in SnapshotResponse['state']]: Validator<SnapshotOf<S>> };
+  roundRecord: Validator<RoundRecord>;
+}
+
+/**
+ * The payload schemas for a table whose variant rolls `diceCount` dice.
+ */
+function createValidators(diceCount: number): PayloadValidators {
+  const lastOutcome = object<LastOutcome>({
+    diceValues: diceValues(diceCount),
+    updatedAt: finiteNumber,
+    roundId: nullable(string),
+  });
+
+  const eventValidators: { [K in EventKind]: Validator<EventPayloads[K]> } = {
+    lastOutcome: object<LastOutcomeEvent>({
+      chatId: integer,
+      diceValues: diceValues(diceCount),
+      updatedAt: finiteNumber,
+      roundId: nullable(string),
+      serverNow: finiteNumber,
+    }),
+    roundScheduled: object<RoundScheduledEvent>({
+      chatId: integer,
+      startAt: finiteNumber,
+      endAt: finiteNumber,
+      totalMs: optional(finiteNumber),
+      remainingMs: optional(finiteNumber),
+      serverNow: finiteNumber,
+    }),
+    roundStarted: object<RoundStartedEvent>({
+      roundId: string,
+      chatId: integer,
+      startAt: finiteNumber,
+      endAt: finiteNumber,
+      totalMs: optional(finiteNumber),
+      remainingMs: optional(finiteNumber),
+      serverNow: finiteNumber,
+    }),
+    roundResult: object<RoundResultEvent>({
+      roundId: string,
+      chatId: integer,
+      diceValues: diceValues(diceCount),
+      serverNow: finiteNumber,
+    }),
+    roundCancelled: object<RoundCancelledEvent>({
+      chatId: integer,
+      serverNow: finiteNumber,
+    }),
+  };
+
+  const snapshotValidators: { [S in SnapshotResponse['state']]: Validator<SnapshotOf<S>> } = {
+    SCHEDULED: object<SnapshotOf<'SCHEDULED'>>({
+      state: literal('SCHEDULED'),
+      chatId: integer,
+      startAt: finiteNumber,
+      endAt: finiteNumber,
+      lastOutcome,
+      serverNow: finiteNumber,
+      totalMs: optional(finiteNumber),
+      remainingMs: optional(finiteNumber),
+    }),
+    STARTED_OR_REVEALED: object<SnapshotOf<'STARTED_OR_REVEALED'>>({
+      state: literal('STARTED_OR_REVEALED'),
+      chatId: integer,
+      round: object<SnapshotOf<'STARTED_OR_REVEALED'>['round']>({
+        id: string,
+        name: nullable(string),
+        startAt: finiteNumber,
+        endAt: finiteNumber,
+        diceValues: nullable(diceValues(diceCount, true)),
+        totalMs: optional(finiteNumber),
+        remainingMs: optional(finiteNumber),
+      }),
+      lastOutcome,
+      serverNow: finiteNumber,
+    }),
+    IDLE: object<SnapshotOf<'IDLE'>>({
+      state: literal('IDLE'),
+      chatId: integer,
+      lastOutcome,
+      serverNow: finiteNumber,
+    }),
+  };
+
+  const roundRecord = object<RoundRecord>({
+    id: string,
+    chatId: optional(integer),
+    name: nullable(string),
+    startAt: finiteNumber,
+    endAt: finiteNumber,
+    diceValues: diceValues(diceCount),
+  });
+
+  return { eventValidators, snapshotValidators, roundRecord };
+}
+
+// Built on first use, one set per dice count
+const validatorsByDiceCount = new Map<number, PayloadValidators>();
+
+/**
+ * Validators for the table a payload names; one without a chatId belongs to
+ * `tableChatId` (the table it was requested for).
+ */
+function validatorsFor(value: unknown, tableChatId: number | null = GameConfig.chatId): PayloadValidators {
+  const chatId = isRecord(value) && Number.isInteger(value.chatId) ? (value.chatId as number) : tableChatId;
+  const { diceCount } = getTableVariant(chatId);
+  let validators = validatorsByDiceCount.get(diceCount);
+  if (!validators) {
+    validators = createValidators(diceCount);
+    validatorsByDiceCount.set(diceCount, validators);
+  }
+  return validators;
+}
+
+// `path` names where `value` sits, for nested values checked on their own
+export function validate<T>(validator: Validator<T>, value: unknown, path = ''): ValidationResult<T> {
+  const issues: ValidationIssue[] = [];
+  const result = validator(value, path, issues);
+  return issues.length === 0 ? { ok: true, value: result } : { ok: false, issues };
+}
+
+export function validateEvent<K extends EventKind>(kind: K, value: unknown): ValidationResult<EventPayloads[K]> {
+  return validate(validatorsFor(value).eventValidators[kind], value);
+}
+
+export function validateSnapshot(value: unknown): ValidationResult<SnapshotResponse> {
+  const state = isRecord(value) ? value.state : undefined;
+  if (state !== 'SCHEDULED' && state !== 'STARTED_OR_REVEALED' && state !== 'IDLE') {
+    return { ok: false, issues: [{ path: 'state', message: `unknown snapshot state ${describe(state)}` }] };
+  }
+  return validate<SnapshotResponse>(validatorsFor(value).snapshotValidators[state], value);
+}
+
+// ============================================
+// REJECTION REPORTING
+// ============================================
+export interface ProtocolRejection {
+  source: string;
+  issues: ValidationIssue[];
+  raw: unknown;
+  receivedAt: number;
+}
+
+const MAX_REJECTIONS = 50;
+const rejections: ProtocolRejection[] = [];
+
+function reportRejection(source: string, issues: ValidationIssue[], raw: unknown): void {
+  rejections.push({ source, issues, raw, receivedAt: Date.now() });
+  if (rejections.length > MAX_REJECTIONS) rejections.shift();
+
+  const summary = issues.map((issue) => `${issue.path || '<root>'}: ${issue.message}`).join('; ');
+  console.warn(`[Protocol] Rejected ${source}: ${summary}`, raw);
+}
+
+/**
+ * Most recent rejected payloads, oldest first (for diagnostics).
+ */
+export function getProtocolRejections(): ProtocolRejection[] {
+  return [...rejections];
+}
+
+/**
+ * Parse and validate a raw SSE `data` string. Returns null (after reporting)
+ * when the payload is not valid JSON or does not match the schema.
+ */
+export function parseEvent<K extends EventKind>(kind: K, data: string): EventPayloads[K] | null {
+  const source = getEventName(kind);
+  let raw: unknown;
+  try {
+    raw = JSON.parse(data);
+  } catch (err) {
+    reportRejection(source, [{ path: '', message: `invalid JSON (${(err as Error).message})` }], data);
+    return null;
+  }
+
+  const result = validateEvent(kind, raw);
+  if (!result.ok) {
+    reportRejection(source, result.issues, raw);
+    return null;
+  }
+  return result.value;
+}
+
+/**
+ * Validate an already-decoded /rounds/current response.
+ */
+export function parseSnapshot(raw: unknown): SnapshotResponse | null {
+  const result = validateSnapshot(raw);
+  if (!result.ok) {
+    reportRejection('snapshot', result.issues, raw);
+    return null;
+  }
+  return result.value;
+}
+
+/**
+ * Validate a round record (backend /rounds/:id or a JSON export). A record
+ * without a chatId is taken to be from `tableChatId`.
+ */
+export function parseRoundRecord(raw: unknown, source = 'round record', tableChatId?: number | null): RoundRecord | null {
+  const result = validate(validatorsFor(raw, tableChatId).roundRecord, raw);
+  if (!result.ok) {
+    reportRejection(source, result.issues, raw);
+    return null;
+  }
+  return result.value;
+}
@@ -0,0 +1,173 @@
+// @vitest-environment node
+import { describe, expect, it, vi } from 'vitest';
+import { createRenderLoop, QUALITY_LEVELS, type RenderLoopOptions } from './renderLoop';
+
+/**
+ * A render loop on a fake display: frames only run when `frame()` is called,
+ * `interval` ms after the previous one, and each render takes `renderMs`.
+ */
+function createFakeDisplay(overrides: Partial<RenderLoopOptions> = {}) {
+  let time = 0;
+  let frameTime = 0;
+  let pending: FrameRequestCallback[] = [];
+  let hidden = false;
+  const render = vi.fn(() => {
+    time += display.renderMs;
+  });
+  const onQualityChange = vi.fn();
+  const loop = createRenderLoop({
+    render,
+    frameBudgetMs: 20,
+    windowFrames: 4,
+    upgradeAfterWindows: 2,
+    initialLevel: 0,
+    adaptive: true,
+    onQualityChange,
+    now: () => time,
+    requestFrame: (callback) => pending.push(callback),
+    isHidden: () => hidden,
+    ...overrides,
+  });
+  const display = {
+    loop,
+    render,
+    onQualityChange,
+    renderMs: 2,
+    setHidden: (value: boolean) => {
+      hidden = value;
+    },
+    // Run the frames requested so far; returns how many there were
+    frame: (interval = 16) => {
+      frameTime += interval;
+      time = frameTime;
+      const callbacks = pending;
+      pending = [];
+      callbacks.forEach((callback) => callback(frameTime));
+      return callbacks.length;
+    },
+    frames: (count: number, interval = 16) => {
+      for (let i = 0; i < count; i++) display.frame(interval);
+    },
+  };
+  return display;
+}
+
+vi.spyOn(console, 'log').mockImplementation(() => {});
+vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+describe('on-demand rendering', () => {
+  it('draws one frame however often it is invalidated', () => {
+    const { loop, render, frame } = createFakeDisplay();
+    loop.invalidate();
+    loop.invalidate();
+    loop.invalidate();
+    expect(frame()).toBe(1);
+    expect(render).toHaveBeenCalledOnce();
+    expect(frame()).toBe(0);
+  });
+
+  it('draws every frame while held, and one more after release', () => {
+    const { loop, render, frames } = createFakeDisplay();
+    const release = loop.hold();
+    frames(5);
+    expect(render).toHaveBeenCalledTimes(5);
+
+    release();
+    release();
+    frames(3);
+    expect(render).toHaveBeenCalledTimes(6);
+  });
+
+  it('keeps running until every hold is released', () => {
+    const { loop, render, frames } = createFakeDisplay();
+    const first = loop.hold();
+    const second = loop.hold();
+    first();
+    frames(3);
+    second();
+    frames(3);
+    expect(render).toHaveBeenCalledTimes(4);
+  });
+
+  it('draws nothing while the page is hidden', () => {
+    const { loop, render, frame, setHidden } = createFakeDisplay();
+    setHidden(true);
+    loop.hold();
+    expect(frame()).toBe(1);
+    expect(frame()).toBe(0);
+    expect(render).not.toHaveBeenCalled();
+
+    setHidden(false);
+    loop.invalidate();
+    frame();
+    expect(render).toHaveBeenCalledOnce();
+  });
+});
+
+describe('adaptive quality', () => {
+  it('steps down after a window over budget', () => {
+    const { loop, onQualityChange, frames } = createFakeDisplay();
+    loop.hold();
+    // The first held frame starts the clock; four slow intervals fill the window
+    frames(5, 40);
+    expect(loop.getLevel()).toBe(1);
+    expect(onQualityChange).toHaveBeenCalledWith(1, 0);
+    expect(loop.getReport()).toMatchObject({ fps: 25, avgFrameMs: 40, avgRenderMs: 2, quality: 'medium', overBudgetFrames: 4 });
+  });
+
+  it('does not time the frame after a quality change', () => {
+    const { loop, frames, frame } = createFakeDisplay();
+    loop.hold();
+    frames(5, 40);
+    // A slow rebuild frame, then a window within budget
+    frame(200);
+    frames(4, 16);
+    expect(loop.getLevel()).toBe(1);
+    expect(loop.getReport().avgFrameMs).toBe(16);
+  });
+
+  it('steps down no further than the lowest level', () => {
+    const { loop, frames } = createFakeDisplay({ initialLevel: QUALITY_LEVELS.length - 1 });
+    loop.hold();
+    frames(20, 40);
+    expect(loop.getLevel()).toBe(QUALITY_LEVELS.length - 1);
+  });
+
+  it('steps up after enough good windows, but never back to a level that failed', () => {
+    const { loop, onQualityChange, frames } = createFakeDisplay({ initialLevel: 1 });
+    loop.hold();
+    frames(1 + 4 * 2, 10);
+    expect(loop.getLevel()).toBe(0);
+
+    // Level 0 fails; level 1 does well but stays put
+    frames(1 + 4, 40);
+    expect(loop.getLevel()).toBe(1);
+    frames(1 + 4 * 5, 10);
+    expect(loop.getLevel()).toBe(1);
+    expect(onQualityChange.mock.calls).toEqual([
+      [0, 1],
+      [1, 0],
+    ]);
+  });
+
+  it('needs good windows in a row to step up', () => {
+    const { loop, frames } = createFakeDisplay({ initialLevel: 1 });
+    loop.hold();
+    // Good, within budget but without headroom, good
+    frames(1 + 4, 10);
+    frames(4, 19);
+    frames(4, 10);
+    expect(loop.getLevel()).toBe(1);
+    frames(4, 10);
+    expect(loop.getLevel()).toBe(0);
+  });
+
+  it('holds its level when not adaptive', () => {
+    const { loop, frames, onQualityChange } = createFakeDisplay({ adaptive: false });
+    loop.hold();
+    frames(20, 40);
+    expect(loop.getLevel()).toBe(0);
+    expect(onQualityChange).not.toHaveBeenCalled();
+    expect(loop.getReport().fps).toBe(25);
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * Render Loop
+ * Renders on demand: a frame is drawn when something invalidates the scene,
+ * and every display frame only while an animation holds the loop open (a
+ * roll, a fade). Held frames are timed; a window of frames that misses the
+ * budget steps render quality down, a long run of windows within it steps
+ * back up (never to a level that already failed this session).
+ */
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+export interface QualityLevel {
+  name: string;
+  // Cap on devicePixelRatio
+  maxPixelRatio: number;
+  // Cap on the theme's rounded-corner segments
+  dieSegments: number;
+  antialias: boolean;
+  shadows: boolean;
+}
+
+export interface RenderLoopOptions {
+  render: () => void;
+  // Frames slower than this miss the budget (ms)
+  frameBudgetMs: number;
+  // Held frames per measurement window
+  windowFrames: number;
+  // Windows within budget in a row before stepping quality back up
+  upgradeAfterWindows: number;
+  // Index into QUALITY_LEVELS to start at
+  initialLevel: number;
+  // false pins the initial level
+  adaptive: boolean;
+  onQualityChange: (level: number, previous: number) => void;
+  // Injectable for tests
+  now?: () => number;
+  requestFrame?: (callback: FrameRequestCallback) => number;
+  isHidden?: () => boolean;
+}
+
+export interface FrameReport {
+  // Over the last complete window of held frames (null before the first)
+  fps: number | null;
+  avgFrameMs: number | null;
+  p95FrameMs: number | null;
+  // Time spent inside render() (CPU side only)
+  avgRenderMs: number | null;
+  frameBudgetMs: number;
+  // Totals since start
+  renderedFrames: number;
+  measuredFrames: number;
+  overBudgetFrames: number;
+  quality: string;
+  level: number;
+}
+
+export interface RenderLoop {
+  // Draw one frame soon; calls within the same display frame coalesce
+  invalidate: () => void;
+  // Render every frame until the returned release function is called
+  hold: () => () => void;
+  getLevel: () => number;
+  setLevel: (level: number) => void;
+  getReport: () => FrameReport;
+}
+
+export const QUALITY_LEVELS: QualityLevel[] = [
+  { name: 'high', maxPixelRatio: 1.5, dieSegments: 25, antialias: true, shadows: true },
+  { name: 'medium', maxPixelRatio: 1.25, dieSegments: 10, antialias: true, shadows: true },
+  { name: 'low', maxPixelRatio: 1, dieSegments: 5, antialias: false, shadows: false },
+];
+
+// Frame intervals at least this far inside the budget count as good
+const UPGRADE_HEADROOM = 0.9;
+
+export function findQualityLevel(name: string | null | undefined): number | null {
+  const index = QUALITY_LEVELS.findIndex((level) => level.name === name);
+  return index === -1 ? null : index;
+}
+
+function percentile(sorted: number[], fraction: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * fraction))];
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+// ============================================
+// RENDER LOOP
+// ============================================
+export function createRenderLoop(options: RenderLoopOptions): RenderLoop {
+  const {
+    render,
+    frameBudgetMs,
+    windowFrames,
+    upgradeAfterWindows,
+    adaptive,
+    onQualityChange,
+    now = () => performance.now(),
+    requestFrame = (callback) => requestAnimationFrame(callback),
+    isHidden = () => document.hidden,
+  } = options;
+
+  let level = Math.min(Math.max(options.initialLevel, 0), QUALITY_LEVELS.length - 1);
+  let holds = 0;
+  let scheduled = false;
+  let lastHeldFrameAt: number | null = null;
+
+  const frameTimes: number[] = [];
+  const renderTimes: number[] = [];
+  const failedLevels = new Set<number>();
+  let goodWindows = 0;
+  let renderedFrames = 0;
+  let measuredFrames = 0;
+  let overBudgetFrames = 0;
+  let lastWindow: Pick<FrameReport, 'fps' | 'avgFrameMs' | 'p95FrameMs' | 'avgRenderMs'> = {
+    fps: null,
+    avgFrameMs: null,
+    p95FrameMs: null,
+    avgRenderMs: null,
+  };
+
+  function setLevel(next: number): void {
+    next = Math.min(Math.max(next, 0), QUALITY_LEVELS.length - 1);
+    if (next === level) return;
+    const previous = level;
+    level = next;
+    goodWindows = 0;
+    // The frame after a quality change rebuilds resources; do not time it
+    lastHeldFrameAt = null;
+    frameTimes.length = 0;
+    renderTimes.length = 0;
+    onQualityChange(level, previous);
+    invalidate();
+  }
+
+  function closeWindow(): void {
+    const sorted = [...frameTimes].sort((a, b) => a - b);
+    const avgFrameMs = average(frameTimes);
+    lastWindow = {
+      fps: 1000 / avgFrameMs,
+      avgFrameMs,
+      p95FrameMs: percentile(sorted, 0.95),
+      avgRenderMs: average(renderTimes),
+    };
+    frameTimes.length = 0;
+    renderTimes.length = 0;
+    if (!adaptive) return;
+
+    if (avgFrameMs > frameBudgetMs) {
+      if (level < QUALITY_LEVELS.length - 1) {
+        failedLevels.add(level);
+        console.warn(
+          `[Render] ${avgFrameMs.toFixed(1)}ms per frame over a ${frameBudgetMs}ms budget; ` +
+            `lowering quality to ${QUALITY_LEVELS[level + 1].name}`
+        );
+        setLevel(level + 1);
+      }
+      return;
+    }
+
+    if (avgFrameMs <= frameBudgetMs * UPGRADE_HEADROOM && level > 0 && !failedLevels.has(level - 1)) {
+      goodWindows++;
+      if (goodWindows >= upgradeAfterWindows) {
+        console.log(`[Render] Frames within budget; raising quality to ${QUALITY_LEVELS[level - 1].name}`);
+        setLevel(level - 1);
+      }
+    } else {
+      goodWindows = 0;
+    }
+  }
+
+  function measure(frameMs: number, renderMs: number): void {
+    measuredFrames++;
+    if (frameMs > frameBudgetMs) overBudgetFrames++;
+    frameTimes.push(frameMs);
+    renderTimes.push(renderMs);
+    if (frameTimes.length >= windowFrames) closeWindow();
+  }
+
+  function frame(time: number): void {
+    scheduled = false;
+    // Hidden tabs draw nothing; the page invalidates again when it is shown
+    if (isHidden()) {
+      lastHeldFrameAt = null;
+      return;
+    }
+
+    const start = now();
+    render();
+    renderedFrames++;
+    const renderMs = now() - start;
+
+    if (holds > 0) {
+      const previous = lastHeldFrameAt;
+      lastHeldFrameAt = time;
+      // After the window closes: a quality change clears lastHeldFrameAt
+      if (previous !== null) measure(time - previous, renderMs);
+      schedule();
+    } else {
+      lastHeldFrameAt = null;
+    }
+  }
+
+  function schedule(): void {
+    if (scheduled) return;
+    scheduled = true;
+    requestFrame(frame);
+  }
+
+  function invalidate(): void {
+    schedule();
+  }
+
+  function hold(): () => void {
+    holds++;
+    schedule();
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      holds--;
+      // One more frame shows the final pose
+      schedule();
+    };
+  }
+
+  return {
+    invalidate,
+    hold,
+    getLevel: () => level,
+    setLevel,
+    getReport: () => ({
+      ...lastWindow,
+      frameBudgetMs,
+      renderedFrames,
+      measuredFrames,
+      overBudgetFrames,
+      quality: QUALITY_LEVELS[level].name,
+      level,
+    }),
+  };
+}
@@ -0,0 +1,259 @@
+import { parseRoundRecord, type RoundRecord } from './protocol';
+import { apiFetch } from './transport';
+import { formatNumber, localize, type MessageKey } from './i18n';
+
+/**
+ * Replay Mode
+ * Re-runs a finished round (countdown -> roll -> result) on a virtual clock
+ * that can be paused, stepped and sped up. The player only keeps time and
+ * reports phases; rendering stays with the game (rollAllDice/showResult).
+ */
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+export type ReplayPhase = 'countdown' | 'rolling' | 'result';
+
+export interface ReplayState {
+  round: RoundRecord;
+  phase: ReplayPhase;
+  positionMs: number;
+  durationMs: number;
+  speed: number;
+  paused: boolean;
+}
+
+export interface ReplayCallbacks {
+  onPhase: (phase: ReplayPhase, round: RoundRecord) => void;
+  onCountdown: (remainingMs: number, totalMs: number) => void;
+  onStateChange: (state: ReplayState) => void;
+}
+
+export interface ReplayPlayer {
+  play: () => void;
+  pause: () => void;
+  // Jump to the start of the next phase
+  step: () => void;
+  restart: () => void;
+  setSpeed: (speed: number) => void;
+  stop: () => void;
+  getState: () => ReplayState;
+  // Current playback rate for animations (0 while paused)
+  getRate: () => number;
+}
+
+export const REPLAY_SPEEDS = [1, 2, 4];
+
+// Longest countdown replayed; longer rounds are shortened to their tail
+const MAX_COUNTDOWN_MS = 30000;
+
+// ============================================
+// LOADING
+// ============================================
+export async function fetchRoundRecord(url: string, chatId: number | null): Promise<RoundRecord> {
+  const res = await apiFetch(url, { cache: 'no-store' });
+  if (!res.ok) throw new Error(`Round lookup failed: ${res.status}`);
+  const record = parseRoundRecord(await res.json(), 'replay round', chatId);
+  if (!record) throw new Error('Round data is invalid');
+  return record;
+}
+
+export function parseRoundExport(text: string, chatId: number | null): RoundRecord {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('Replay file is not valid JSON');
+  }
+  const record = parseRoundRecord(raw, 'replay export', chatId);
+  if (!record) throw new Error('Replay file does not describe a finished round');
+  return record;
+}
+
+export function downloadRoundExport(round: RoundRecord): void {
+  const blob = new Blob([JSON.stringify(round, null, 2)], { type: 'application/json' });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = `round-${round.id}.json`;
+  link.click();
+  // Some browsers start the download after click() returns
+  setTimeout(() => URL.revokeObjectURL(link.href), 0);
+}
+
+// ============================================
+// PLAYER
+// ============================================
+export function createReplayPlayer(round: RoundRecord, rollMs: number, callbacks: ReplayCallbacks): ReplayPlayer {
+  const countdownMs = Math.min(Math.max(0, round.endAt - round.startAt), MAX_COUNTDOWN_MS);
+  const durationMs = countdownMs + rollMs;
+
+  let positionMs = 0;
+  let speed = 1;
+  let paused = true;
+  let phase: ReplayPhase | null = null;
+  let frameHandle: number | null = null;
+  let lastFrameTime = 0;
+
+  const phaseAt = (position: number): ReplayPhase => {
+    if (position < countdownMs) return 'countdown';
+    if (position < durationMs) return 'rolling';
+    return 'result';
+  };
+
+  const getState = (): ReplayState => ({
+    round,
+    phase: phase ?? 'countdown',
+    positionMs,
+    durationMs,
+    speed,
+    paused,
+  });
+
+  function update(): void {
+    const nextPhase = phaseAt(positionMs);
+    if (nextPhase !== phase) {
+      phase = nextPhase;
+      callbacks.onPhase(phase, round);
+    }
+    if (phase === 'countdown') {
+      callbacks.onCountdown(countdownMs - positionMs, countdownMs);
+    }
+    if (phase === 'result') {
+      paused = true;
+      cancelFrame();
+    }
+    callbacks.onStateChange(getState());
+  }
+
+  function tick(now: number): void {
+    frameHandle = null;
+    if (paused) return;
+    positionMs = Math.min(durationMs, positionMs + (now - lastFrameTime) * speed);
+    lastFrameTime = now;
+    update();
+    if (!paused) frameHandle = requestAnimationFrame(tick);
+  }
+
+  function cancelFrame(): void {
+    if (frameHandle !== null) {
+      cancelAnimationFrame(frameHandle);
+      frameHandle = null;
+    }
+  }
+
+  return {
+    play() {
+      if (phase === 'result') return;
+      paused = false;
+      lastFrameTime = performance.now();
+      if (phase === null) update();
+      cancelFrame();
+      frameHandle = requestAnimationFrame(tick);
+      callbacks.onStateChange(getState());
+    },
+
+    pause() {
+      paused = true;
+      cancelFrame();
+      callbacks.onStateChange(getState());
+    },
+
+    step() {
+      if (phase === 'result') return;
+      positionMs = phase === 'countdown' || phase === null ? countdownMs : durationMs;
+      lastFrameTime = performance.now();
+      update();
+    },
+
+    restart() {
+      cancelFrame();
+      positionMs = 0;
+      phase = null;
+      paused = true;
+      update();
+    },
+
+    setSpeed(nextSpeed: number) {
+      speed = nextSpeed;
+      callbacks.onStateChange(getState());
+    },
+
+    stop() {
+      paused = true;
+      cancelFrame();
+    },
+
+    getState,
+
+    getRate: () => (paused ? 0 : speed),
+  };
+}
+
+// ============================================
+// REPLAY CONTROLS
+// ============================================
+interface ReplayControlHandlers {
+  onTogglePause: () => void;
+  onStep: () => void;
+  onRestart: () => void;
+  onSpeed: (speed: number) => void;
+  onExport: () => void;
+  onExit: () => void;
+}
+
+export interface ReplayControls {
+  // Show the player's state; null hides the controls
+  render: (state: ReplayState | null) => void;
+}
+
+function createControlButton(label: MessageKey | null, onClick: () => void): HTMLButtonElement {
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.className = 'replay-button';
+  if (label) localize(button, label);
+  button.addEventListener('click', onClick);
+  return button;
+}
+
+export function createReplayControls(container: HTMLElement, handlers: ReplayControlHandlers): ReplayControls {
+  const speedButtons: Map<number, HTMLButtonElement> = new Map();
+  container.innerHTML = '';
+
+  const controlsTitle = document.createElement('span');
+  controlsTitle.className = 'replay-title';
+
+  const pauseButton = createControlButton('replay.pause', handlers.onTogglePause);
+  const stepButton = createControlButton('replay.step', handlers.onStep);
+  const restartButton = createControlButton('replay.restart', handlers.onRestart);
+
+  const speeds = document.createElement('div');
+  speeds.className = 'replay-speeds';
+  REPLAY_SPEEDS.forEach((speed) => {
+    const button = createControlButton(null, () => handlers.onSpeed(speed));
+    button.textContent = `${formatNumber(speed)}×`;
+    speedButtons.set(speed, button);
+    speeds.appendChild(button);
+  });
+
+  const exportButton = createControlButton('replay.export', handlers.onExport);
+  const exitButton = createControlButton('replay.exit', handlers.onExit);
+  exitButton.classList.add('replay-exit');
+
+  container.append(controlsTitle, pauseButton, stepButton, restartButton, speeds, exportButton, exitButton);
+
+  return {
+    render(state) {
+      container.classList.toggle('hidden', !state);
+      if (!state) return;
+
+      const seconds = Math.floor(state.positionMs / 1000);
+      localize(controlsTitle, 'replay.title', { roundId: state.round.id, seconds });
+      localize(pauseButton, state.paused ? 'replay.play' : 'replay.pause');
+      pauseButton.disabled = state.phase === 'result';
+      stepButton.disabled = state.phase === 'result';
+      speedButtons.forEach((button, speed) => {
+        button.classList.toggle('selected', speed === state.speed);
+      });
+    },
+  };
+}
@@ -0,0 +1,185 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRoundMachine, type RoundEvent, type RoundMachine, type RoundPhase } from './roundMachine';
+
+const DICE = [1, 2, 3, 4, 5, 6];
+
+const schedule = (startAt: number): RoundEvent => ({ type: 'schedule', startAt, endAt: startAt + 3000 });
+const start = (roundId: string, startAt: number): RoundEvent => ({ type: 'start', roundId, startAt, endAt: startAt + 3000 });
+const result = (roundId: string): RoundEvent => ({ type: 'result', roundId, diceValues: DICE });
+const reveal = (roundId: string): RoundEvent => ({ type: 'reveal', roundId, diceValues: DICE });
+const idle = (): RoundEvent => ({ type: 'idle' });
+
+/**
+ * Send a script of events and return, per event, whether it was accepted and
+ * the phase it left the machine in.
+ */
+function play(machine: RoundMachine, script: RoundEvent[]): [boolean, RoundPhase][] {
+  return script.map((event) => [machine.send(event), machine.getContext().phase]);
+}
+
+let machine: RoundMachine;
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  machine = createRoundMachine();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('round machine', () => {
+  it('runs a round from schedule to reveal and on to the next', () => {
+    expect(play(machine, [schedule(1000), start('r1', 1000), result('r1'), reveal('r1'), schedule(5000), idle()])).toEqual([
+      [true, 'scheduled'],
+      [true, 'open'],
+      [true, 'rolling'],
+      [true, 'revealed'],
+      [true, 'scheduled'],
+      [true, 'idle'],
+    ]);
+    expect(machine.getContext()).toMatchObject({ roundId: null, diceValues: null, resultRoundId: 'r1' });
+  });
+
+  describe('out of order', () => {
+    it('takes a result that arrives before its start', () => {
+      expect(play(machine, [schedule(1000), result('r1'), reveal('r1')])).toEqual([
+        [true, 'scheduled'],
+        [true, 'rolling'],
+        [true, 'revealed'],
+      ]);
+    });
+
+    it('ignores a reveal for an older round while a newer one is open', () => {
+      play(machine, [start('r1', 1000), result('r1')]);
+      expect(play(machine, [start('r2', 5000), reveal('r1')])).toEqual([
+        [true, 'open'],
+        [false, 'open'],
+      ]);
+      expect(machine.getContext().roundId).toBe('r2');
+    });
+
+    it('ignores a reveal for another round while the dice roll', () => {
+      play(machine, [start('r2', 5000), result('r2')]);
+      expect(play(machine, [reveal('r1'), reveal('r2')])).toEqual([
+        [false, 'rolling'],
+        [true, 'revealed'],
+      ]);
+    });
+
+    it('refuses transitions the table does not allow', () => {
+      play(machine, [start('r1', 1000), result('r1')]);
+      expect(play(machine, [result('r2'), { type: 'cancel' }])).toEqual([
+        [false, 'rolling'],
+        [false, 'rolling'],
+      ]);
+      expect(console.warn).toHaveBeenCalledTimes(2);
+    });
+
+    it('shows a finished round straight from a snapshot', () => {
+      expect(play(machine, [reveal('r1'), schedule(5000)])).toEqual([
+        [true, 'revealed'],
+        [true, 'scheduled'],
+      ]);
+    });
+  });
+
+  describe('duplicates', () => {
+    it('throws the dice once per round', () => {
+      expect(play(machine, [start('r1', 1000), result('r1'), result('r1'), reveal('r1'), result('r1')])).toEqual([
+        [true, 'open'],
+        [true, 'rolling'],
+        [false, 'rolling'],
+        [true, 'revealed'],
+        [false, 'revealed'],
+      ]);
+    });
+
+    it('reveals a round once', () => {
+      expect(play(machine, [reveal('r1'), reveal('r1')])).toEqual([
+        [true, 'revealed'],
+        [false, 'revealed'],
+      ]);
+    });
+
+    it('accepts a repeated schedule or start (SSE and snapshot overlap)', () => {
+      expect(play(machine, [schedule(1000), schedule(1000), start('r1', 1000), start('r1', 1000)])).toEqual([
+        [true, 'scheduled'],
+        [true, 'scheduled'],
+        [true, 'open'],
+        [true, 'open'],
+      ]);
+    });
+
+    it('cancels a round once', () => {
+      play(machine, [start('r1', 1000)]);
+      expect(play(machine, [{ type: 'cancel', roundId: 'r1' }, { type: 'cancel', roundId: 'r1' }])).toEqual([
+        [true, 'cancelled'],
+        [false, 'cancelled'],
+      ]);
+    });
+  });
+
+  describe('late results', () => {
+    it('ignores a reveal timer from a round that has moved on', () => {
+      play(machine, [start('r1', 1000), result('r1'), reveal('r1'), start('r2', 5000), result('r2')]);
+      expect(play(machine, [reveal('r1')])).toEqual([[false, 'rolling']]);
+    });
+
+    it('ignores a result for a round that was cancelled', () => {
+      play(machine, [start('r1', 1000), { type: 'cancel' }]);
+      expect(play(machine, [result('r1'), reveal('r1')])).toEqual([
+        [false, 'cancelled'],
+        [false, 'cancelled'],
+      ]);
+      expect(machine.getContext().diceValues).toBeNull();
+    });
+  });
+
+  describe('cancel', () => {
+    it('remembers the open round and its window', () => {
+      play(machine, [start('r1', 1000), { type: 'cancel' }]);
+      expect(machine.getContext()).toMatchObject({ phase: 'cancelled', cancelledRoundId: 'r1', cancelledStartAt: 1000 });
+      expect(play(machine, [start('r1', 1000), schedule(1000)])).toEqual([
+        [false, 'cancelled'],
+        [false, 'cancelled'],
+      ]);
+    });
+
+    it('blocks a late start for a window cancelled before it opened', () => {
+      play(machine, [schedule(1000), { type: 'cancel' }]);
+      expect(machine.getContext().cancelledRoundId).toBeNull();
+      expect(play(machine, [start('r1', 1000), start('r2', 5000)])).toEqual([
+        [false, 'cancelled'],
+        [true, 'open'],
+      ]);
+    });
+
+    it('lets the next round through', () => {
+      play(machine, [start('r1', 1000), { type: 'cancel' }]);
+      expect(play(machine, [schedule(5000), start('r2', 5000), result('r2'), reveal('r2')])).toEqual([
+        [true, 'scheduled'],
+        [true, 'open'],
+        [true, 'rolling'],
+        [true, 'revealed'],
+      ]);
+    });
+
+    it('is forgotten on reset', () => {
+      play(machine, [start('r1', 1000), { type: 'cancel' }, { type: 'reset' }]);
+      expect(machine.getContext()).toMatchObject({ phase: 'idle', cancelledRoundId: null, cancelledStartAt: null });
+      expect(play(machine, [start('r1', 1000)])).toEqual([[true, 'open']]);
+    });
+  });
+
+  it('tells subscribers about accepted transitions only', () => {
+    const transitions: string[] = [];
+    const unsubscribe = machine.subscribe(({ from, to, event }) => transitions.push(`${from} -> ${to} (${event.type})`));
+    play(machine, [start('r1', 1000), result('r1'), result('r1')]);
+    unsubscribe();
+    play(machine, [reveal('r1')]);
+    expect(transitions).toEqual(['idle -> open (start)', 'open -> rolling (result)']);
+  });
+});
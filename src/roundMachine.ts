@@ -0,0 +1,196 @@
+/**
+ * Round State Machine
+ * Single source of truth for where the current round is. Backend events and
+ * snapshots are translated into machine events; illegal or stale events
+ * (e.g. a late round.started after round.cancelled, or a reveal timer from an
+ * older round) are rejected by the transition guards instead of racing the UI.
+ */
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+export type RoundPhase = 'idle' | 'scheduled' | 'open' | 'rolling' | 'revealed' | 'cancelled';
+
+export type RoundEvent =
+  // A round is announced (round.scheduled) - no roundId yet
+  | { type: 'schedule'; startAt: number; endAt: number; totalMs?: number; remainingMs?: number }
+  // The round is live (round.started)
+  | { type: 'start'; roundId: string; startAt: number; endAt: number; totalMs?: number; remainingMs?: number }
+  // The result arrived and the dice should be thrown (round.result)
+  | { type: 'result'; roundId: string; diceValues: number[] }
+  // The result is on screen (roll finished, or snapshot of a finished round)
+  | { type: 'reveal'; roundId: string; diceValues: number[] }
+  // The round was called off (round.cancelled); roundId only known from snapshots
+  | { type: 'cancel'; roundId?: string }
+  // Nothing running: show the last outcome
+  | { type: 'idle' }
+  // Forget everything (e.g. table switch) without any UI
+  | { type: 'reset' };
+
+export interface RoundContext {
+  phase: RoundPhase;
+  roundId: string | null;
+  startAt: number | null;
+  endAt: number | null;
+  diceValues: number[] | null;
+  // Last round whose result was received, so duplicates and stale reveals are ignored
+  resultRoundId: string | null;
+  // Last cancelled round, so late events for it are ignored
+  cancelledRoundId: string | null;
+  cancelledStartAt: number | null;
+}
+
+export interface RoundTransition {
+  from: RoundPhase;
+  to: RoundPhase;
+  event: RoundEvent;
+  context: Readonly<RoundContext>;
+}
+
+export type TransitionListener = (transition: RoundTransition) => void;
+
+export interface RoundMachine {
+  getContext: () => Readonly<RoundContext>;
+  // Returns false when the event was rejected
+  send: (event: RoundEvent) => boolean;
+  subscribe: (listener: TransitionListener) => () => void;
+}
+
+// ============================================
+// TRANSITION TABLE
+// ============================================
+const TARGET_PHASE: Record<RoundEvent['type'], RoundPhase> = {
+  schedule: 'scheduled',
+  start: 'open',
+  result: 'rolling',
+  reveal: 'revealed',
+  cancel: 'cancelled',
+  idle: 'idle',
+  reset: 'idle',
+};
+
+// Legal source phases for each target phase
+const LEGAL_TRANSITIONS: Record<RoundPhase, RoundPhase[]> = {
+  idle: ['idle', 'scheduled', 'open', 'revealed', 'cancelled'],
+  scheduled: ['idle', 'scheduled', 'revealed', 'cancelled', 'rolling'],
+  open: ['idle', 'scheduled', 'open', 'revealed', 'cancelled', 'rolling'],
+  rolling: ['idle', 'scheduled', 'open', 'revealed', 'cancelled'],
+  revealed: ['idle', 'scheduled', 'open', 'rolling', 'revealed', 'cancelled'],
+  cancelled: ['idle', 'scheduled', 'open', 'cancelled'],
+};
+
+function initialContext(): RoundContext {
+  return {
+    phase: 'idle',
+    roundId: null,
+    startAt: null,
+    endAt: null,
+    diceValues: null,
+    resultRoundId: null,
+    cancelledRoundId: null,
+    cancelledStartAt: null,
+  };
+}
+
+/**
+ * Reason an event is not acceptable in the current context, or null if it is.
+ */
+function checkGuards(context: RoundContext, event: RoundEvent): string | null {
+  switch (event.type) {
+    case 'schedule':
+      if (event.startAt === context.cancelledStartAt) return 'round window was cancelled';
+      return null;
+    case 'start':
+      if (event.roundId === context.cancelledRoundId) return `round ${event.roundId} was cancelled`;
+      if (context.cancelledRoundId === null && event.startAt === context.cancelledStartAt) {
+        return 'round window was cancelled';
+      }
+      return null;
+    case 'result':
+      if (event.roundId === context.cancelledRoundId) return `round ${event.roundId} was cancelled`;
+      if (event.roundId === context.resultRoundId) return `round ${event.roundId} already has a result`;
+      return null;
+    case 'reveal':
+      if (context.phase === 'rolling') {
+        return event.roundId === context.roundId ? null : `stale reveal for round ${event.roundId}`;
+      }
+      if (event.roundId === context.resultRoundId) return `round ${event.roundId} already handled`;
+      if (context.phase === 'open' && event.roundId !== context.roundId) {
+        return `stale reveal for round ${event.roundId} while ${context.roundId} is open`;
+      }
+      if (event.roundId === context.cancelledRoundId) return `round ${event.roundId} was cancelled`;
+      return null;
+    case 'cancel':
+      if (event.roundId && event.roundId === context.cancelledRoundId) return 'already cancelled';
+      return null;
+    default:
+      return null;
+  }
+}
+
+function applyEvent(context: RoundContext, event: RoundEvent, to: RoundPhase): RoundContext {
+  switch (event.type) {
+    case 'schedule':
+      return { ...context, phase: to, roundId: null, startAt: event.startAt, endAt: event.endAt, diceValues: null };
+    case 'start':
+      return { ...context, phase: to, roundId: event.roundId, startAt: event.startAt, endAt: event.endAt, diceValues: null };
+    case 'result':
+    case 'reveal':
+      return { ...context, phase: to, roundId: event.roundId, diceValues: event.diceValues, resultRoundId: event.roundId };
+    case 'cancel':
+      return {
+        ...context,
+        phase: to,
+        cancelledRoundId: event.roundId ?? (context.phase === 'open' ? context.roundId : null),
+        cancelledStartAt: context.startAt,
+        diceValues: null,
+      };
+    case 'idle':
+      return { ...context, phase: to, startAt: null, endAt: null };
+    case 'reset':
+      return initialContext();
+  }
+}
+
+// ============================================
+// MACHINE
+// ============================================
+export function createRoundMachine(): RoundMachine {
+  let context = initialContext();
+  const listeners = new Set<TransitionListener>();
+
+  return {
+    getContext: () => context,
+
+    send(event: RoundEvent): boolean {
+      const from = context.phase;
+      const to = TARGET_PHASE[event.type];
+
+      // A reset is always legal
+      if (event.type !== 'reset') {
+        // Stale/duplicate events are expected (SSE + snapshot overlap), so guards only log
+        const rejection = checkGuards(context, event);
+        if (rejection) {
+          console.log(`[Round] Ignored ${event.type}: ${rejection}`);
+          return false;
+        }
+        if (!LEGAL_TRANSITIONS[to].includes(from)) {
+          console.warn(`[Round] Illegal transition ${from} -> ${to} (${event.type})`);
+          return false;
+        }
+      }
+
+      context = applyEvent(context, event, to);
+      console.log(`[Round] ${from} -> ${to} (${event.type})`);
+      listeners.forEach((listener) => listener({ from, to, event, context }));
+      return true;
+    },
+
+    subscribe(listener: TransitionListener): () => void {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
@@ -0,0 +1,278 @@
+import { createRng } from './physics';
+import { getEventName, type EventKind, type EventPayloads, type LastOutcome, type RoundRecord, type SnapshotResponse } from './protocol';
+import type { LocalBackend, TransportHandlers } from './transport';
+
+/**
+ * Offline Simulator
+ * An in-page backend that runs rounds on a fixed schedule and serves the same
+ * events (last.outcome, round.*) and endpoints (/time, /rounds/current, /rounds/history,
+ * /rounds/:id, /bets) as the live server, so the full UI runs without one.
+ * Dice are drawn from a seeded RNG, so a given seed always plays the same rounds.
+ */
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+export interface SimulatorOptions {
+  // Announcement -> round start
+  leadMs: number;
+  // Round start -> result
+  roundMs: number;
+  // Result -> next announcement
+  idleMs: number;
+  // Share of rounds that get cancelled instead of revealed (0-1)
+  cancelRate: number;
+  seed: number;
+  // Dice per round on a table (its game variant)
+  diceCount: (chatId: number) => number;
+}
+
+export interface Simulator extends LocalBackend {
+  // Stop every table's round schedule
+  stop: () => void;
+}
+
+type TablePhase =
+  | { state: 'IDLE' }
+  | { state: 'SCHEDULED'; startAt: number; endAt: number }
+  | { state: 'STARTED'; round: RoundRecord };
+
+interface SimulatedTable {
+  chatId: number;
+  phase: TablePhase;
+  lastOutcome: LastOutcome;
+  rounds: RoundRecord[];
+  subscribers: Set<TransportHandlers>;
+  roundCount: number;
+  // Recent events, kept so a reconnect with lastEventId can be replayed
+  events: StreamEvent[];
+  nextEventId: number;
+}
+
+interface StreamEvent {
+  id: string;
+  name: string;
+  data: string;
+}
+
+const MAX_ROUNDS_KEPT = 200;
+const MAX_EVENTS_KEPT = 100;
+const DEFAULT_CHAT_ID = 0;
+
+// ============================================
+// SIMULATOR
+// ============================================
+export function createSimulator(options: SimulatorOptions): Simulator {
+  const rng = createRng(options.seed);
+  const tables = new Map<number, SimulatedTable>();
+  const timers = new Set<number>();
+
+  function later(callback: () => void, delayMs: number): void {
+    const timer = window.setTimeout(() => {
+      timers.delete(timer);
+      callback();
+    }, delayMs);
+    timers.add(timer);
+  }
+
+  const rollDice = (chatId: number): number[] =>
+    Array.from({ length: options.diceCount(chatId) }, () => Math.floor(rng() * 6) + 1);
+
+  function getTable(chatId: number): SimulatedTable {
+    let table = tables.get(chatId);
+    if (!table) {
+      table = {
+        chatId,
+        phase: { state: 'IDLE' },
+        lastOutcome: { diceValues: rollDice(chatId), updatedAt: Date.now(), roundId: null },
+        rounds: [],
+        subscribers: new Set(),
+        roundCount: 0,
+        events: [],
+        nextEventId: 1,
+      };
+      tables.set(chatId, table);
+      scheduleNext(table, options.idleMs);
+    }
+    return table;
+  }
+
+  function chatIdFrom(url: URL): number {
+    const chatId = Number(url.searchParams.get('chatId'));
+    return Number.isInteger(chatId) ? chatId : DEFAULT_CHAT_ID;
+  }
+
+  function emit<K extends EventKind>(table: SimulatedTable, kind: K, payload: EventPayloads[K]): void {
+    const event: StreamEvent = { id: String(table.nextEventId++), name: getEventName(kind), data: JSON.stringify(payload) };
+    table.events = [...table.events, event].slice(-MAX_EVENTS_KEPT);
+    table.subscribers.forEach((handlers) => handlers.onEvent(event.name, event.data, event.id));
+  }
+
+  function scheduleNext(table: SimulatedTable, delayMs: number): void {
+    later(() => announceRound(table), delayMs);
+  }
+
+  function announceRound(table: SimulatedTable): void {
+    const now = Date.now();
+    const startAt = now + options.leadMs;
+    const endAt = startAt + options.roundMs;
+    table.phase = { state: 'SCHEDULED', startAt, endAt };
+    emit(table, 'roundScheduled', {
+      chatId: table.chatId,
+      startAt,
+      endAt,
+      totalMs: options.leadMs,
+      remainingMs: options.leadMs,
+      serverNow: now,
+    });
+    later(() => startRound(table, startAt, endAt), options.leadMs);
+  }
+
+  function startRound(table: SimulatedTable, startAt: number, endAt: number): void {
+    table.roundCount++;
+    const round: RoundRecord = {
+      id: `sim-${table.chatId}-${table.roundCount}`,
+      chatId: table.chatId,
+      name: `Simulated round ${table.roundCount}`,
+      startAt,
+      endAt,
+      diceValues: [],
+    };
+    table.phase = { state: 'STARTED', round };
+    emit(table, 'roundStarted', {
+      roundId: round.id,
+      chatId: table.chatId,
+      startAt,
+      endAt,
+      totalMs: options.roundMs,
+      remainingMs: Math.max(0, endAt - Date.now()),
+      serverNow: Date.now(),
+    });
+    later(() => finishRound(table, round), Math.max(0, endAt - Date.now()));
+  }
+
+  function finishRound(table: SimulatedTable, round: RoundRecord): void {
+    const now = Date.now();
+    if (rng() < options.cancelRate) {
+      table.phase = { state: 'IDLE' };
+      emit(table, 'roundCancelled', { chatId: table.chatId, serverNow: now });
+    } else {
+      round.diceValues = rollDice(table.chatId);
+      table.rounds = [round, ...table.rounds].slice(0, MAX_ROUNDS_KEPT);
+      table.lastOutcome = { diceValues: round.diceValues, updatedAt: now, roundId: round.id };
+      emit(table, 'roundResult', {
+        roundId: round.id,
+        chatId: table.chatId,
+        diceValues: round.diceValues,
+        serverNow: now,
+      });
+    }
+    scheduleNext(table, options.idleMs);
+  }
+
+  function snapshot(table: SimulatedTable): SnapshotResponse {
+    const now = Date.now();
+    const { phase } = table;
+    if (phase.state === 'SCHEDULED') {
+      return {
+        state: 'SCHEDULED',
+        chatId: table.chatId,
+        startAt: phase.startAt,
+        endAt: phase.endAt,
+        totalMs: options.leadMs,
+        remainingMs: Math.max(0, phase.startAt - now),
+        lastOutcome: table.lastOutcome,
+        serverNow: now,
+      };
+    }
+    // A revealed round stays STARTED (with its dice) until the next announcement
+    if (phase.state === 'STARTED') {
+      const { round } = phase;
+      return {
+        state: 'STARTED_OR_REVEALED',
+        chatId: table.chatId,
+        round: {
+          id: round.id,
+          name: round.name,
+          startAt: round.startAt,
+          endAt: round.endAt,
+          diceValues: round.diceValues.length > 0 ? round.diceValues : null,
+          totalMs: options.roundMs,
+          remainingMs: Math.max(0, round.endAt - now),
+        },
+        lastOutcome: table.lastOutcome,
+        serverNow: now,
+      };
+    }
+    return { state: 'IDLE', chatId: table.chatId, lastOutcome: table.lastOutcome, serverNow: now };
+  }
+
+  function json(body: unknown, status = 200): Response {
+    return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+  }
+
+  return {
+    async fetch(url: URL, init?: RequestInit): Promise<Response> {
+      const table = getTable(chatIdFrom(url));
+      const path = url.pathname.replace(/\/+$/, '');
+
+      if (path.endsWith('/time')) {
+        return json({ serverNow: Date.now() });
+      }
+      if (path.endsWith('/rounds/current')) {
+        return json(snapshot(table));
+      }
+      if (path.endsWith('/rounds/history')) {
+        const limit = Number(url.searchParams.get('limit')) || 50;
+        return json({ rounds: table.rounds.slice(0, limit) });
+      }
+      if (path.endsWith('/bets') && init?.method === 'POST') {
+        const inFlight = table.phase.state !== 'IDLE';
+        return json({
+          betId: `sim-bet-${Date.now().toString(36)}`,
+          accepted: inFlight,
+          message: inFlight ? undefined : 'No round open',
+        });
+      }
+      const roundMatch = path.match(/\/rounds\/([^/]+)$/);
+      if (roundMatch) {
+        const roundId = decodeURIComponent(roundMatch[1]);
+        const round = table.rounds.find((r) => r.id === roundId);
+        return round ? json(round) : json({ error: 'Round not found' }, 404);
+      }
+      return json({ error: 'Not found' }, 404);
+    },
+
+    subscribe(url: URL, handlers: TransportHandlers): () => void {
+      const table = getTable(chatIdFrom(url));
+      table.subscribers.add(handlers);
+
+      // Behave like the server: open, then replay what a resuming client
+      // missed, or send the last outcome to a fresh one
+      const lastEventId = Number(url.searchParams.get('lastEventId'));
+      const openTimer = window.setTimeout(() => {
+        handlers.onOpen();
+        const missed = table.events.filter((event) => Number(event.id) > lastEventId);
+        if (lastEventId > 0 && missed.length < table.events.length) {
+          missed.forEach((event) => handlers.onEvent(event.name, event.data, event.id));
+          return;
+        }
+        handlers.onEvent(
+          getEventName('lastOutcome'),
+          JSON.stringify({ chatId: table.chatId, ...table.lastOutcome, serverNow: Date.now() }),
+        );
+      }, 0);
+
+      return () => {
+        clearTimeout(openTimer);
+        table.subscribers.delete(handlers);
+      };
+    },
+
+    stop() {
+      timers.forEach((timer) => clearTimeout(timer));
+      timers.clear();
+      tables.clear();
+    },
+  };
+}
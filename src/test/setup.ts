@@ -0,0 +1,38 @@
+/**
+ * Test Setup
+ * jsdom has no media queries, ResizeObserver or 2D canvas, and times its
+ * animation frames on another clock than `performance.now()`; these
+ * stand-ins let the game mount (see lifecycle.test.ts). WebGL is replaced
+ * per test through mount()'s createRenderer option. Tests that run in the
+ * node environment have no window and get none of this.
+ */
+
+if (typeof window !== 'undefined') {
+  window.matchMedia = (query: string) =>
+    ({
+      matches: false,
+      media: query,
+      onchange: null,
+      addEventListener: () => {},
+      removeEventListener: () => {},
+      addListener: () => {},
+      removeListener: () => {},
+      dispatchEvent: () => false,
+    }) as MediaQueryList;
+
+  window.ResizeObserver = class {
+    observe(): void {}
+    unobserve(): void {}
+    disconnect(): void {}
+  };
+
+  window.requestAnimationFrame = (callback) => window.setTimeout(() => callback(performance.now()), 16);
+  window.cancelAnimationFrame = (handle) => window.clearTimeout(handle);
+
+  // Every drawing call is a no-op; property writes (fillStyle, font...) are kept
+  const context2d = new Proxy({} as Record<PropertyKey, unknown>, {
+    get: (target, property) => (property in target ? target[property] : () => {}),
+  });
+  HTMLCanvasElement.prototype.getContext = (() => context2d) as unknown as HTMLCanvasElement['getContext'];
+  HTMLCanvasElement.prototype.toDataURL = () => 'data:image/png;base64,';
+}
@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import midnight from '../public/themes/midnight.json';
+import { DEFAULT_THEME, mergeTheme } from './theme';
+
+const MANIFEST_URL = 'http://localhost/themes/test.json';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('mergeTheme', () => {
+  it('takes a valid manifest as it is, resolving its paths against the manifest', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const theme = mergeTheme('midnight', midnight, MANIFEST_URL);
+    expect(warn).not.toHaveBeenCalled();
+    expect(theme).toMatchObject({
+      name: 'Midnight Felt',
+      die: { ...DEFAULT_THEME.die, ...midnight.die },
+      background: { image: null, color: '#0f2a24' },
+      lighting: midnight.lighting,
+      cssVariables: { ...DEFAULT_THEME.cssVariables, ...midnight.cssVariables },
+    });
+    expect(theme.faces[1]).toBe('http://localhost/Dice_side_1.0.png');
+  });
+
+  it('fills in what a manifest leaves out from the default', () => {
+    expect(mergeTheme('empty', {}, MANIFEST_URL)).toEqual({ ...DEFAULT_THEME, id: 'empty', name: 'empty' });
+  });
+
+  // [invalid path, manifest, field read back, expected value]
+  it.each<[string, Record<string, unknown>, (theme: ReturnType<typeof mergeTheme>) => unknown, unknown]>([
+    ['name', { name: 7 }, (theme) => theme.name, 'broken'],
+    ['faces.2', { faces: { 1: 'one.png', 2: 2 } }, (theme) => theme.faces[2], DEFAULT_THEME.faces[2]],
+    ['die.segments', { die: { segments: 2.5, color: '#000000' } }, (theme) => theme.die.segments, DEFAULT_THEME.die.segments],
+    ['die.numberBadge', { die: { numberBadge: 'yes' } }, (theme) => theme.die.numberBadge, DEFAULT_THEME.die.numberBadge],
+    ['background', { background: 'wood.png' }, (theme) => theme.background, DEFAULT_THEME.background],
+    ['background.color', { background: { color: null } }, (theme) => theme.background.color, DEFAULT_THEME.background.color],
+    [
+      'lighting.directional[0].position',
+      { lighting: { directional: [{ color: '#ffffff', intensity: 1, position: [1, 2] }] } },
+      (theme) => theme.lighting.directional,
+      DEFAULT_THEME.lighting.directional,
+    ],
+    [
+      'cssVariables.--accent',
+      { cssVariables: { '--accent': 3 } },
+      (theme) => theme.cssVariables['--accent'],
+      DEFAULT_THEME.cssVariables['--accent'],
+    ],
+  ])('replaces an invalid %s with the default and reports it', (path, file, read, expected) => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(read(mergeTheme('broken', file, MANIFEST_URL))).toEqual(expected);
+    expect(warn).toHaveBeenCalledOnce();
+    expect(warn.mock.calls[0][0]).toContain(path);
+  });
+
+  it('keeps the valid fields next to an invalid one', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const theme = mergeTheme('broken', { faces: { 1: 'one.png', 2: 2 }, die: { segments: 2.5, color: '#000000' } }, MANIFEST_URL);
+    expect(theme.faces[1]).toBe('http://localhost/themes/one.png');
+    expect(theme.die.color).toBe('#000000');
+  });
+});
@@ -0,0 +1,436 @@
+import * as THREE from 'three';
+import { GameConfig, symbols } from './config';
+import { trackResource } from './lifecycle';
+import {
+  array,
+  boolean,
+  finiteNumber,
+  integer,
+  isRecord,
+  nullable,
+  object,
+  optional,
+  string,
+  validate,
+  type Validator,
+} from './protocol';
+
+/**
+ * Themes
+ * A theme manifest (JSON) brands a table: face images per dice value, die
+ * material, background, lighting rig and CSS variables for the overlays.
+ * Manifests are fetched from `<themes.baseUrl>/<id>.json`; anything a manifest
+ * leaves out or gets wrong comes from the built-in default theme, field by
+ * field, and a manifest that fails to load falls back to the default as a whole. Images are retried and, if
+ * they still fail, replaced by procedural stand-ins rather than blocking play.
+ */
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+export interface DieMaterialOptions {
+  // Corner rounding and smoothness (the die size is fixed by the physics)
+  radius: number;
+  segments: number;
+  color: string;
+  roughness: number;
+  metalness: number;
+  // Draw the dice value in a badge on each face
+  numberBadge: boolean;
+}
+
+export interface ThemeBackground {
+  // Table surface image; null shows the plain colour
+  image: string | null;
+  color: string;
+}
+
+export interface ThemeLight {
+  color: string;
+  intensity: number;
+}
+
+export interface ThemeDirectionalLight extends ThemeLight {
+  position: [number, number, number];
+  castShadow?: boolean;
+}
+
+export interface ThemeLighting {
+  ambient: ThemeLight;
+  directional: ThemeDirectionalLight[];
+}
+
+export interface ThemeManifest {
+  id: string;
+  name: string;
+  // Face image URL per dice value (1-6)
+  faces: Record<number, string>;
+  die: DieMaterialOptions;
+  background: ThemeBackground;
+  lighting: ThemeLighting;
+  // Custom properties set on the game's container, e.g. { "--overlay-background": "rgba(0, 0, 0, 0.85)" }
+  cssVariables: Record<string, string>;
+}
+
+export interface ThemeTextures {
+  faces: Map<number, THREE.Texture>;
+  background: THREE.Texture | null;
+}
+
+export interface LoadedTheme {
+  // The theme as shown: images that failed point at their stand-ins
+  theme: ThemeManifest;
+  textures: ThemeTextures;
+  // Asset URLs that could not be loaded (empty when everything loaded)
+  failed: string[];
+}
+
+// ============================================
+// DEFAULT THEME
+// ============================================
+export const DEFAULT_THEME_ID = 'default';
+
+export const DEFAULT_THEME: ThemeManifest = {
+  id: DEFAULT_THEME_ID,
+  name: 'Classic Wood',
+  faces: {
+    1: '/Dice_side_1.0.png',
+    2: '/Dice_side_2.0.png',
+    3: '/Dice_side_3.0.png',
+    4: '/Dice_side_4.0.png',
+    5: '/Dice_side_5.0.png',
+    6: '/Dice_side_6.0.png',
+  },
+  die: {
+    radius: 0.18,
+    segments: 25,
+    color: '#ffffff',
+    roughness: 0.3,
+    metalness: 0,
+    numberBadge: true,
+  },
+  background: {
+    image: '/woodtexture.png',
+    color: '#3b2a1a',
+  },
+  lighting: {
+    ambient: { color: '#ffffff', intensity: 0.8 },
+    directional: [
+      { color: '#ffffff', intensity: 1.0, position: [5, 10, 8], castShadow: true },
+      { color: '#ffffff', intensity: 0.5, position: [-5, 5, -5] },
+      { color: '#ffffff', intensity: 0.4, position: [0, 0, 10] },
+    ],
+  },
+  cssVariables: {
+    '--overlay-background': 'rgba(0, 0, 0, 0.85)',
+    '--overlay-text': '#ffffff',
+    '--panel-background': 'rgba(0, 0, 0, 0.6)',
+    '--accent': '#4ade80',
+    '--die-face-background': '#ffffff',
+  },
+};
+
+// ============================================
+// LOADING
+// ============================================
+function resolveUrl(path: string, base: string): string {
+  return new URL(path, new URL(base, window.location.href)).href;
+}
+
+const light = object<ThemeLight>({ color: string, intensity: finiteNumber });
+
+const position: Validator<[number, number, number]> = (value, path, issues) => {
+  const coordinates = array(finiteNumber)(value, path, issues);
+  if (Array.isArray(coordinates) && coordinates.length !== 3) {
+    issues.push({ path, message: `expected [x, y, z], got ${coordinates.length} coordinates` });
+  }
+  return coordinates as [number, number, number];
+};
+
+const directionalLights = array(
+  object<ThemeDirectionalLight>({ color: string, intensity: finiteNumber, position, castShadow: optional(boolean) })
+);
+
+/**
+ * Fill in what `file` leaves out from the default theme. Every field is
+ * checked on its own: one that is invalid is reported and replaced by the
+ * default's, so a typo costs that setting rather than the theme. Asset paths
+ * in the manifest are relative to the manifest itself, so a theme folder can
+ * be dropped in as-is.
+ */
+export function mergeTheme(id: string, file: Record<string, unknown>, manifestUrl: string): ThemeManifest {
+  // The manifest's value at `path` if it has a valid one, else `fallback`
+  function pick<T, F>(value: unknown, path: string, validator: Validator<T>, fallback: F): T | F {
+    if (value === undefined) return fallback;
+    const result = validate(validator, value, path);
+    if (result.ok) return result.value;
+    const summary = result.issues.map((issue) => `${issue.path}: ${issue.message}`).join('; ');
+    console.warn(`[Theme] Ignoring ${summary} in ${manifestUrl}`);
+    return fallback;
+  }
+
+  function section(name: string): Record<string, unknown> {
+    return pick(file[name], name, object<Record<string, unknown>>({}), {});
+  }
+
+  const faces: Record<number, string> = { ...DEFAULT_THEME.faces };
+  const facesFile = section('faces');
+  Object.keys(DEFAULT_THEME.faces).forEach((value) => {
+    const path = pick(facesFile[value], `faces.${value}`, string, null);
+    if (path !== null) faces[Number(value)] = resolveUrl(path, manifestUrl);
+  });
+
+  const die = section('die');
+  const background = section('background');
+  const image = pick(background.image, 'background.image', nullable(string), undefined);
+  const lighting = section('lighting');
+
+  const cssVariables: Record<string, string> = { ...DEFAULT_THEME.cssVariables };
+  Object.entries(section('cssVariables')).forEach(([name, value]) => {
+    const cssValue = pick(value, `cssVariables.${name}`, string, null);
+    if (cssValue !== null) cssVariables[name] = cssValue;
+  });
+
+  return {
+    id,
+    name: pick(file.name, 'name', string, id),
+    faces,
+    die: {
+      radius: pick(die.radius, 'die.radius', finiteNumber, DEFAULT_THEME.die.radius),
+      segments: pick(die.segments, 'die.segments', integer, DEFAULT_THEME.die.segments),
+      color: pick(die.color, 'die.color', string, DEFAULT_THEME.die.color),
+      roughness: pick(die.roughness, 'die.roughness', finiteNumber, DEFAULT_THEME.die.roughness),
+      metalness: pick(die.metalness, 'die.metalness', finiteNumber, DEFAULT_THEME.die.metalness),
+      numberBadge: pick(die.numberBadge, 'die.numberBadge', boolean, DEFAULT_THEME.die.numberBadge),
+    },
+    background: {
+      image: image ? resolveUrl(image, manifestUrl) : image === null ? null : DEFAULT_THEME.background.image,
+      color: pick(background.color, 'background.color', string, DEFAULT_THEME.background.color),
+    },
+    lighting: {
+      ambient: pick(lighting.ambient, 'lighting.ambient', light, DEFAULT_THEME.lighting.ambient),
+      directional: pick(lighting.directional, 'lighting.directional', directionalLights, DEFAULT_THEME.lighting.directional),
+    },
+    cssVariables,
+  };
+}
+
+export async function fetchTheme(id: string): Promise<ThemeManifest> {
+  if (id === DEFAULT_THEME_ID) return DEFAULT_THEME;
+  if (!/^[\w-]+$/.test(id)) throw new Error(`Invalid theme id "${id}"`);
+
+  const url = `${GameConfig.themes.baseUrl}/${id}.json`;
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`HTTP ${response.status} for ${url}`);
+  const file: unknown = await response.json();
+  if (!isRecord(file)) throw new Error(`Malformed theme manifest ${url}`);
+  return mergeTheme(id, file, url);
+}
+
+// ============================================
+// ASSET LOADING
+// ============================================
+function loadImage(url: string, timeoutMs: number): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    const timer = window.setTimeout(() => {
+      img.onload = img.onerror = null;
+      img.src = '';
+      reject(new Error(`Timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+    img.onload = () => {
+      clearTimeout(timer);
+      resolve(img);
+    };
+    img.onerror = () => {
+      clearTimeout(timer);
+      reject(new Error('Network or decode error'));
+    };
+    img.src = url;
+  });
+}
+
+/**
+ * Load an image, retrying with a doubling pause (see GameConfig.assets).
+ * Resolves null once the retries are used up.
+ */
+export async function loadImageWithRetry(url: string): Promise<HTMLImageElement | null> {
+  const { retries, timeoutMs, retryDelayMs } = GameConfig.assets;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await loadImage(url, timeoutMs);
+    } catch (error) {
+      if (attempt >= retries) {
+        console.warn(`[Theme] Giving up on ${url}:`, error);
+        return null;
+      }
+      console.warn(`[Theme] Failed to load ${url} (attempt ${attempt + 1}), retrying:`, error);
+      await new Promise((resolve) => setTimeout(resolve, retryDelayMs * 2 ** attempt));
+    }
+  }
+}
+
+function createTexture(image: HTMLImageElement | HTMLCanvasElement): THREE.Texture {
+  const texture = trackResource(new THREE.Texture(image));
+  texture.colorSpace = THREE.SRGBColorSpace;
+  texture.generateMipmaps = true;
+  texture.minFilter = THREE.LinearMipmapLinearFilter;
+  texture.magFilter = THREE.LinearFilter;
+  texture.needsUpdate = true;
+  return texture;
+}
+
+/**
+ * Stand-in for a face image that would not load: the symbol's character in
+ * its colour (from `symbols` in config.ts) on a plain face.
+ */
+export function drawFallbackFace(value: number): HTMLCanvasElement {
+  const size = 512;
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d')!;
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, size, size);
+
+  const symbol = symbols[value];
+  ctx.fillStyle = symbol?.color ?? '#1a1a1a';
+  ctx.font = symbol?.isEmoji
+    ? "260px 'Apple Color Emoji', 'Segoe UI Emoji', 'Noto Color Emoji', sans-serif"
+    : "bold 300px 'Segoe UI Symbol', system-ui, sans-serif";
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(symbol?.char ?? String(value), size / 2, size / 2 + 10);
+
+  return canvas;
+}
+
+/**
+ * Load every texture the theme needs. Never rejects: a face image that
+ * fails after its retries is drawn by `drawFallbackFace`, a background
+ * image is replaced by the theme's plain colour. The returned theme points
+ * at the stand-ins (as data URLs), so page images show them too.
+ */
+export async function loadThemeTextures(theme: ThemeManifest, onLoaded: () => void = () => {}): Promise<LoadedTheme> {
+  const failed: string[] = [];
+  const faceUrls: Record<number, string> = { ...theme.faces };
+  const faces = new Map<number, THREE.Texture>();
+  let background: THREE.Texture | null = null;
+  let backgroundImage = theme.background.image;
+
+  const loadFace = async (value: number) => {
+    const url = theme.faces[value];
+    const image = await loadImageWithRetry(url);
+    if (image) {
+      faces.set(value, createTexture(image));
+    } else {
+      failed.push(url);
+      const canvas = drawFallbackFace(value);
+      faces.set(value, createTexture(canvas));
+      faceUrls[value] = canvas.toDataURL();
+    }
+    onLoaded();
+  };
+
+  const loadBackground = async (url: string) => {
+    const image = await loadImageWithRetry(url);
+    if (image) {
+      background = createTexture(image);
+    } else {
+      failed.push(url);
+      backgroundImage = null;
+    }
+    onLoaded();
+  };
+
+  await Promise.all([
+    ...Object.keys(theme.faces).map((value) => loadFace(Number(value))),
+    theme.background.image ? loadBackground(theme.background.image) : Promise.resolve(),
+  ]);
+
+  if (failed.length > 0) {
+    theme = { ...theme, faces: faceUrls, background: { ...theme.background, image: backgroundImage } };
+  }
+  return { theme, textures: { faces, background }, failed };
+}
+
+/**
+ * Number of textures `loadThemeTextures` will load (for progress bars).
+ */
+export function countThemeAssets(theme: ThemeManifest): number {
+  return Object.keys(theme.faces).length + (theme.background.image ? 1 : 0);
+}
+
+/**
+ * Fetch a theme and its textures, falling back to the default theme when the
+ * manifest cannot be loaded. `onProgress` counts textures of whichever theme
+ * is loading.
+ */
+export async function loadTheme(
+  id: string,
+  onProgress: (loaded: number, total: number) => void = () => {}
+): Promise<LoadedTheme> {
+  let theme: ThemeManifest;
+  try {
+    theme = await fetchTheme(id);
+  } catch (error) {
+    console.warn(`[Theme] Could not load theme "${id}", using ${DEFAULT_THEME_ID}:`, error);
+    theme = DEFAULT_THEME;
+  }
+
+  const total = countThemeAssets(theme);
+  let loaded = 0;
+  onProgress(loaded, total);
+  return loadThemeTextures(theme, () => onProgress(++loaded, total));
+}
+
+// ============================================
+// DOM
+// ============================================
+// Each game themes its own container, so tables on one page can differ
+export function faceImageUrl(theme: ThemeManifest, value: number): string {
+  return theme.faces[value] ?? DEFAULT_THEME.faces[value] ?? '';
+}
+
+/**
+ * Show a dice face image and remember the value, so switching theme swaps
+ * the picture.
+ */
+export function setFaceImage(img: HTMLImageElement, value: number, theme: ThemeManifest): void {
+  img.dataset.face = String(value);
+  img.src = faceImageUrl(theme, value);
+}
+
+function applyCssVariables(root: HTMLElement, theme: ThemeManifest, previous: ThemeManifest): void {
+  const style = root.style;
+  Object.keys(previous.cssVariables).forEach((name) => style.removeProperty(name));
+  Object.entries(theme.cssVariables).forEach(([name, value]) => style.setProperty(name, value));
+  const { image, color } = theme.background;
+  style.setProperty('--table-background', image ? `url("${image}") center center / cover no-repeat, ${color}` : color);
+}
+
+/**
+ * Remove what `applyTheme` set on `root` (used when the game is unmounted).
+ */
+export function resetTheme(root: HTMLElement, theme: ThemeManifest): void {
+  Object.keys(theme.cssVariables).forEach((name) => root.style.removeProperty(name));
+  root.style.removeProperty('--table-background');
+  delete root.dataset.theme;
+}
+
+/**
+ * Switch the game in `root` from `previous` to `theme`: CSS variables and
+ * face images tagged through `setFaceImage` (or data-face in the markup).
+ * The 3D scene (textures, materials, lights) is main.ts's to update.
+ */
+export function applyTheme(root: HTMLElement, theme: ThemeManifest, previous: ThemeManifest): void {
+  root.dataset.theme = theme.id;
+  applyCssVariables(root, theme, previous);
+  root.querySelectorAll<HTMLImageElement>('img[data-face]').forEach((img) => {
+    img.src = faceImageUrl(theme, Number(img.dataset.face));
+  });
+
+  if (theme !== previous) console.log(`[Theme] Applied "${theme.name}" (${theme.id})`);
+}
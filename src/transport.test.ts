@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { getReconnectDelay, type ReconnectOptions } from './transport';
+
+const options: ReconnectOptions = {
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  jitter: 0.5,
+  tailAfterAttempts: 10,
+  tailDelayMs: 60000,
+  maxAttempts: null,
+};
+
+const lowest = () => 0;
+const highest = () => 1 - Number.EPSILON;
+
+describe('getReconnectDelay', () => {
+  // [attempt, full delay]: doubling, capped at maxDelayMs, then the tail
+  it.each([
+    [1, 1000],
+    [2, 2000],
+    [3, 4000],
+    [5, 16000],
+    [6, 30000],
+    [10, 30000],
+    [11, 60000],
+    [500, 60000],
+  ])('waits up to %i -> %i ms, at least half of it', (attempt, delay) => {
+    expect(getReconnectDelay(attempt, options, highest)).toBe(delay);
+    expect(getReconnectDelay(attempt, options, lowest)).toBe(delay / 2);
+  });
+
+  it('spreads delays across the jitter range', () => {
+    const delays = Array.from({ length: 200 }, () => getReconnectDelay(3, options)!);
+    expect(Math.min(...delays)).toBeGreaterThanOrEqual(2000);
+    expect(Math.max(...delays)).toBeLessThanOrEqual(4000);
+    expect(new Set(delays).size).toBeGreaterThan(1);
+  });
+
+  // [jitter, shortest, longest] at attempt 2 (2000ms)
+  it.each([
+    [0, 2000, 2000],
+    [1, 0, 2000],
+    [-1, 2000, 2000],
+    [2, 0, 2000],
+  ])('clamps a jitter of %d to %i-%i ms', (jitter, shortest, longest) => {
+    expect(getReconnectDelay(2, { ...options, jitter }, lowest)).toBe(shortest);
+    expect(getReconnectDelay(2, { ...options, jitter }, highest)).toBe(longest);
+  });
+
+  it('gives up after maxAttempts', () => {
+    const limited = { ...options, maxAttempts: 3 };
+    expect(getReconnectDelay(3, limited, lowest)).toBe(2000);
+    expect(getReconnectDelay(4, limited, lowest)).toBeNull();
+  });
+});
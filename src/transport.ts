@@ -0,0 +1,461 @@
+import { GameConfig } from './config';
+import { expireSession, getAuthToken, refreshSession } from './auth';
+import { getEventName, parseSnapshot, type EventKind, type SnapshotResponse } from './protocol';
+
+/**
+ * Backend Transport
+ * How the game talks to the backend: the event stream and plain HTTP
+ * requests. The stream is SSE, WebSocket or snapshot polling, negotiated in
+ * order with fallback; all three deliver the same (event name, JSON data)
+ * pairs. When a local backend (the offline simulator) is installed, both
+ * are served in-page instead.
+ */
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+export interface TransportHandlers {
+  onOpen: () => void;
+  // `closed` = the transport gave up and needs a reconnect
+  onError: (error: unknown, closed: boolean) => void;
+  // `id` = stream event id (SSE `id:` / WebSocket frame `id`), used to resume
+  onEvent: (name: string, data: string, id?: string) => void;
+}
+
+export interface Transport {
+  readonly name: string;
+  connect: (handlers: TransportHandlers) => void;
+  close: () => void;
+}
+
+/**
+ * An in-page stand-in for the backend (see simulator.ts).
+ */
+export interface LocalBackend {
+  fetch: (url: URL, init?: RequestInit) => Promise<Response>;
+  // Subscribe to the event stream that would be served at `url`
+  subscribe: (url: URL, handlers: TransportHandlers) => () => void;
+}
+
+let localBackend: LocalBackend | null = null;
+
+export function setLocalBackend(backend: LocalBackend | null): void {
+  localBackend = backend;
+}
+
+export function isUsingLocalBackend(): boolean {
+  return localBackend !== null;
+}
+
+// ============================================
+// HTTP
+// ============================================
+
+function withAuthorization(init: RequestInit | undefined, token: string | null): RequestInit | undefined {
+  if (!token) return init;
+  const headers = new Headers(init?.headers);
+  headers.set('Authorization', `Bearer ${token}`);
+  return { ...init, headers };
+}
+
+/**
+ * fetch() for backend endpoints; routed to the local backend when installed.
+ * Sends the session token, and on a 401 refreshes it once and retries; a
+ * second 401 expires the session.
+ */
+export async function apiFetch(url: string, init?: RequestInit): Promise<Response> {
+  if (localBackend) {
+    return localBackend.fetch(new URL(url), init);
+  }
+
+  const token = getAuthToken();
+  const res = await fetch(url, withAuthorization(init, token));
+  if (res.status !== 401 || !token) return res;
+
+  if (!(await refreshSession())) return res;
+  const retried = await fetch(url, withAuthorization(init, getAuthToken()));
+  if (retried.status === 401) expireSession();
+  return retried;
+}
+
+/**
+ * Stream URL with the session token as a query parameter (EventSource and
+ * WebSocket cannot send an Authorization header).
+ */
+function withAuthQuery(url: string): string {
+  const token = getAuthToken();
+  if (!token) return url;
+  const authorized = new URL(url);
+  authorized.searchParams.set(GameConfig.auth.tokenParam, token);
+  return authorized.toString();
+}
+
+// ============================================
+// EVENT STREAM TRANSPORTS
+// ============================================
+export type TransportKind = 'sse' | 'websocket' | 'poll';
+
+// Where each transport connects (all carry the same chatId query)
+export interface TransportEndpoints {
+  sse: string;
+  websocket: string;
+  poll: string;
+}
+
+export interface TransportOptions {
+  // Transports to try, most preferred first
+  order: TransportKind[];
+  // Give up on a transport that has not opened within this time (ms)
+  openTimeoutMs: number;
+  pollIntervalMs: number;
+}
+
+export function createSseTransport(url: string, eventNames: string[]): Transport {
+  let eventSource: EventSource | null = null;
+
+  return {
+    name: 'sse',
+
+    connect(handlers: TransportHandlers) {
+      eventSource = new EventSource(withAuthQuery(url));
+      eventSource.onopen = () => handlers.onOpen();
+      eventSource.onerror = (error) => {
+        handlers.onError(error, eventSource?.readyState === EventSource.CLOSED);
+      };
+      eventNames.forEach((name) => {
+        eventSource!.addEventListener(name, (event: MessageEvent) => {
+          handlers.onEvent(name, event.data, event.lastEventId || undefined);
+        });
+      });
+    },
+
+    close() {
+      eventSource?.close();
+      eventSource = null;
+    },
+  };
+}
+
+/**
+ * WebSocket transport. The server sends one JSON frame per event:
+ * `{ "event": "round.started", "data": { ...payload }, "id": "42" }` (data may
+ * also be a JSON string, as on the SSE stream; id is optional).
+ */
+export function createWebSocketTransport(url: string): Transport {
+  let socket: WebSocket | null = null;
+
+  return {
+    name: 'websocket',
+
+    connect(handlers: TransportHandlers) {
+      const wsUrl = new URL(withAuthQuery(url));
+      wsUrl.protocol = wsUrl.protocol === 'https:' ? 'wss:' : 'ws:';
+      socket = new WebSocket(wsUrl);
+
+      socket.onopen = () => handlers.onOpen();
+      // Every close is final for a WebSocket; onerror is always followed by onclose
+      socket.onclose = (event) => {
+        if (socket) handlers.onError(event, true);
+        socket = null;
+      };
+      socket.onmessage = (message: MessageEvent) => {
+        let frame: { event?: unknown; data?: unknown; id?: unknown };
+        try {
+          frame = JSON.parse(String(message.data));
+        } catch {
+          console.warn('[Transport] Ignoring non-JSON WebSocket frame');
+          return;
+        }
+        if (typeof frame.event !== 'string') return;
+        const data = typeof frame.data === 'string' ? frame.data : JSON.stringify(frame.data);
+        const id = typeof frame.id === 'string' || typeof frame.id === 'number' ? String(frame.id) : undefined;
+        handlers.onEvent(frame.event, data, id);
+      };
+    },
+
+    close() {
+      const closing = socket;
+      socket = null;
+      closing?.close();
+    },
+  };
+}
+
+/**
+ * Last-resort transport: polls the /rounds/current snapshot and turns state
+ * changes into the same events the streaming transports deliver. The first
+ * snapshot only establishes a baseline (the game syncs from the snapshot on
+ * open); later changes emit round.scheduled/started/result/cancelled.
+ */
+export function createPollingTransport(url: string, intervalMs: number): Transport {
+  let timer: number | null = null;
+  let active = false;
+  let lastKey: string | null = null;
+
+  function emit(handlers: TransportHandlers, kind: EventKind, payload: object): void {
+    handlers.onEvent(getEventName(kind), JSON.stringify(payload));
+  }
+
+  function emitChanges(handlers: TransportHandlers, snapshot: SnapshotResponse): void {
+    const { chatId, serverNow } = snapshot;
+    if (snapshot.state === 'SCHEDULED') {
+      const { startAt, endAt, totalMs, remainingMs } = snapshot;
+      emit(handlers, 'roundScheduled', { chatId, startAt, endAt, totalMs, remainingMs, serverNow });
+      return;
+    }
+    if (snapshot.state === 'IDLE') return;
+
+    const { round } = snapshot;
+    if (round.diceValues === null) {
+      const { startAt, endAt, totalMs, remainingMs } = round;
+      emit(handlers, 'roundStarted', { roundId: round.id, chatId, startAt, endAt, totalMs, remainingMs, serverNow });
+    } else if (round.diceValues.length === 0) {
+      emit(handlers, 'roundCancelled', { chatId, serverNow });
+    } else {
+      // Missed the start between polls: start first so the result can roll
+      if (lastKey !== `started:${round.id}`) {
+        emit(handlers, 'roundStarted', {
+          roundId: round.id,
+          chatId,
+          startAt: round.startAt,
+          endAt: round.endAt,
+          serverNow,
+        });
+      }
+      emit(handlers, 'roundResult', { roundId: round.id, chatId, diceValues: round.diceValues, serverNow });
+    }
+  }
+
+  async function poll(handlers: TransportHandlers): Promise<void> {
+    timer = null;
+    let snapshot: SnapshotResponse | null;
+    try {
+      const res = await apiFetch(url, { cache: 'no-store' });
+      if (!res.ok) throw new Error(`Snapshot failed: ${res.status}`);
+      snapshot = parseSnapshot(await res.json());
+    } catch (err) {
+      if (active) {
+        active = false;
+        handlers.onError(err, true);
+      }
+      return;
+    }
+    if (!active) return;
+
+    if (snapshot) {
+      const key = snapshotKey(snapshot);
+      if (lastKey === null) {
+        handlers.onOpen();
+        emit(handlers, 'lastOutcome', {
+          chatId: snapshot.chatId,
+          ...snapshot.lastOutcome,
+          serverNow: snapshot.serverNow,
+        });
+      } else if (key !== lastKey) {
+        emitChanges(handlers, snapshot);
+      }
+      lastKey = key;
+    }
+    timer = window.setTimeout(() => poll(handlers), intervalMs);
+  }
+
+  return {
+    name: 'poll',
+
+    connect(handlers: TransportHandlers) {
+      active = true;
+      lastKey = null;
+      poll(handlers);
+    },
+
+    close() {
+      active = false;
+      if (timer !== null) {
+        clearTimeout(timer);
+        timer = null;
+      }
+    },
+  };
+}
+
+function snapshotKey(snapshot: SnapshotResponse): string {
+  if (snapshot.state === 'SCHEDULED') return `scheduled:${snapshot.startAt}`;
+  if (snapshot.state === 'IDLE') return 'idle';
+  const { round } = snapshot;
+  if (round.diceValues === null) return `started:${round.id}`;
+  return round.diceValues.length === 0 ? `cancelled:${round.id}` : `result:${round.id}`;
+}
+
+export function createLocalTransport(url: string): Transport {
+  let unsubscribe: (() => void) | null = null;
+
+  return {
+    name: 'local',
+
+    connect(handlers: TransportHandlers) {
+      if (!localBackend) {
+        handlers.onError(new Error('No local backend installed'), true);
+        return;
+      }
+      unsubscribe = localBackend.subscribe(new URL(url), handlers);
+    },
+
+    close() {
+      unsubscribe?.();
+      unsubscribe = null;
+    },
+  };
+}
+
+// ============================================
+// NEGOTIATION
+// ============================================
+
+// Transport that last opened successfully; reconnects try it first for a while,
+// then negotiate in the configured order again so a fallback is not kept for good
+let preferred: { kind: TransportKind; until: number } | null = null;
+const PREFERENCE_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Tries each transport in order until one opens. A transport that errors or
+ * times out before opening is closed and the next one is tried; once one has
+ * opened, its errors are passed straight through.
+ */
+function createNegotiatedTransport(candidates: { kind: TransportKind; transport: Transport }[], openTimeoutMs: number): Transport {
+  let current: Transport | null = null;
+  let openTimer: number | null = null;
+  let closed = false;
+
+  const clearOpenTimer = () => {
+    if (openTimer !== null) {
+      clearTimeout(openTimer);
+      openTimer = null;
+    }
+  };
+
+  return {
+    name: candidates.map((c) => c.kind).join('>'),
+
+    connect(handlers: TransportHandlers) {
+      closed = false;
+
+      const attempt = (index: number): void => {
+        if (closed) return;
+        if (index >= candidates.length) {
+          current = null;
+          handlers.onError(new Error('No transport could connect'), true);
+          return;
+        }
+
+        const { kind, transport } = candidates[index];
+        let opened = false;
+        let failed = false;
+        const fallBack = (reason: unknown) => {
+          if (failed || closed) return;
+          failed = true;
+          clearOpenTimer();
+          transport.close();
+          console.warn(`[Transport] ${kind} failed before opening, trying next`, reason);
+          attempt(index + 1);
+        };
+
+        current = transport;
+        openTimer = window.setTimeout(() => fallBack(new Error(`Timed out after ${openTimeoutMs}ms`)), openTimeoutMs);
+        const connectHandlers: TransportHandlers = {
+          onOpen: () => {
+            if (failed) return;
+            opened = true;
+            clearOpenTimer();
+            preferred = { kind, until: Date.now() + PREFERENCE_TTL_MS };
+            console.log(`[Transport] Connected via ${kind}`);
+            handlers.onOpen();
+          },
+          onError: (error, isClosed) => {
+            if (failed) return;
+            if (!opened) {
+              fallBack(error);
+              return;
+            }
+            handlers.onError(error, isClosed);
+          },
+          onEvent: (name, data, id) => {
+            if (!failed) handlers.onEvent(name, data, id);
+          },
+        };
+        try {
+          transport.connect(connectHandlers);
+        } catch (err) {
+          // e.g. WebSocket constructor rejecting the URL, or blocked by policy
+          fallBack(err);
+        }
+      };
+
+      attempt(0);
+    },
+
+    close() {
+      closed = true;
+      clearOpenTimer();
+      current?.close();
+      current = null;
+    },
+  };
+}
+
+/**
+ * Event stream transport: in-page when a local backend is installed,
+ * otherwise negotiated from `options.order` with automatic fallback.
+ */
+export function createTransport(endpoints: TransportEndpoints, eventNames: string[], options: TransportOptions): Transport {
+  if (localBackend) return createLocalTransport(endpoints.sse);
+
+  const factories: Record<TransportKind, () => Transport> = {
+    sse: () => createSseTransport(endpoints.sse, eventNames),
+    websocket: () => createWebSocketTransport(endpoints.websocket),
+    poll: () => createPollingTransport(endpoints.poll, options.pollIntervalMs),
+  };
+
+  const order = [...new Set(options.order)];
+  if (preferred && Date.now() >= preferred.until) preferred = null;
+  if (preferred && order.includes(preferred.kind)) {
+    order.splice(order.indexOf(preferred.kind), 1);
+    order.unshift(preferred.kind);
+  }
+  return createNegotiatedTransport(
+    order.map((kind) => ({ kind, transport: factories[kind]() })),
+    options.openTimeoutMs,
+  );
+}
+
+// ============================================
+// RECONNECTION
+// ============================================
+export interface ReconnectOptions {
+  // First retry delay; doubles per attempt (ms)
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Share of each delay that is randomised (0 = fixed, 1 = full jitter)
+  jitter: number;
+  // After this many attempts, retry every tailDelayMs instead
+  tailAfterAttempts: number;
+  tailDelayMs: number;
+  // Give up after this many attempts (null = never)
+  maxAttempts: number | null;
+}
+
+/**
+ * Delay before reconnect attempt `attempt` (1-based): exponential with
+ * jitter, then a slow fixed tail so long outages do not hammer the server.
+ * Returns null once maxAttempts is exhausted.
+ */
+export function getReconnectDelay(attempt: number, options: ReconnectOptions, random: () => number = Math.random): number | null {
+  if (options.maxAttempts !== null && attempt > options.maxAttempts) return null;
+
+  const delay =
+    attempt > options.tailAfterAttempts
+      ? options.tailDelayMs
+      : Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+  // Spread clients that dropped together so they do not reconnect in lockstep
+  const jitter = Math.min(Math.max(options.jitter, 0), 1);
+  return Math.round(delay * (1 - jitter + jitter * random()));
+}
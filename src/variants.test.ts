@@ -0,0 +1,86 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { GameConfig } from './config';
+import { VARIANTS, defaultDiceValues, getTableVariant, groupResult, layoutDice, type GameVariant } from './variants';
+
+const LANDSCAPE = 16 / 9;
+const PORTRAIT = 9 / 16;
+
+const distinct = (values: number[]) => new Set(values.map((value) => value.toFixed(3))).size;
+
+afterEach(() => {
+  Object.assign(GameConfig.variants, { variant: 'jhandi-munda', tableVariants: {}, variantOverride: null });
+  vi.restoreAllMocks();
+});
+
+describe('getTableVariant', () => {
+  it.each<[string, Partial<typeof GameConfig.variants>, number | null, string]>([
+    ['the deployment default', {}, 1, 'jhandi-munda'],
+    ['the deployment default without a table', { tableVariants: { 1: 'sic-bo-2' } }, null, 'jhandi-munda'],
+    ["the table's entry", { tableVariants: { 1: 'crown-anchor' } }, 1, 'crown-anchor'],
+    ['a changed deployment default', { variant: 'sic-bo-2', tableVariants: { 2: 'crown-anchor' } }, 1, 'sic-bo-2'],
+    ['?variant= over everything', { variantOverride: 'sic-bo-2', tableVariants: { 1: 'crown-anchor' } }, 1, 'sic-bo-2'],
+  ])('picks %s', (_, config, chatId, expected) => {
+    Object.assign(GameConfig.variants, config);
+    expect(getTableVariant(chatId).id).toBe(expected);
+  });
+
+  it('falls back to the default for an unknown variant', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    GameConfig.variants.tableVariants = { 1: 'roulette' };
+    expect(getTableVariant(1).id).toBe('jhandi-munda');
+    expect(console.warn).toHaveBeenCalledOnce();
+  });
+
+  it('rests on one of each symbol in turn', () => {
+    expect(defaultDiceValues(VARIANTS['crown-anchor'])).toEqual([1, 2, 3]);
+    expect(defaultDiceValues({ ...VARIANTS['jhandi-munda'], diceCount: 8 })).toEqual([1, 2, 3, 4, 5, 6, 1, 2]);
+  });
+});
+
+describe('layoutDice', () => {
+  // [variant, aspect, columns, rows]
+  it.each<[string, number, number, number]>([
+    ['jhandi-munda', LANDSCAPE, 3, 2],
+    ['jhandi-munda', PORTRAIT, 2, 3],
+    ['crown-anchor', LANDSCAPE, 3, 1],
+    ['crown-anchor', PORTRAIT, 1, 3],
+    ['sic-bo-2', LANDSCAPE, 2, 1],
+    ['sic-bo-2', PORTRAIT, 1, 2],
+  ])('lays out %s at aspect %d as %i x %i', (id, aspect, columns, rows) => {
+    const slots = layoutDice(VARIANTS[id], aspect, 2);
+    expect(slots).toHaveLength(VARIANTS[id].diceCount);
+    expect(distinct(slots.map(({ x }) => x))).toBe(columns);
+    expect(distinct(slots.map(({ y }) => y))).toBe(rows);
+  });
+
+  it('centres the block on the origin, rows top to bottom', () => {
+    const slots = layoutDice(VARIANTS['jhandi-munda'], LANDSCAPE, 2);
+    expect(slots).toEqual([
+      { x: -2, y: 1 },
+      { x: 0, y: 1 },
+      { x: 2, y: 1 },
+      { x: -2, y: -1 },
+      { x: 0, y: -1 },
+      { x: 2, y: -1 },
+    ]);
+  });
+
+  it('centres a short last row', () => {
+    const five: GameVariant = { ...VARIANTS['jhandi-munda'], diceCount: 5 };
+    expect(layoutDice(five, LANDSCAPE, 2).slice(3)).toEqual([
+      { x: -1, y: -1 },
+      { x: 1, y: -1 },
+    ]);
+  });
+});
+
+describe('groupResult', () => {
+  it.each<[string, number[], [number, number, boolean][]]>([
+    ['jhandi-munda', [4, 1, 4, 6, 1, 4], [[4, 3, true], [1, 2, true], [6, 1, false]]],
+    ['jhandi-munda', [6, 5, 4, 3, 2, 1], [[1, 1, false], [2, 1, false], [3, 1, false], [4, 1, false], [5, 1, false], [6, 1, false]]],
+    ['crown-anchor', [5, 2, 5], [[5, 2, true], [2, 1, true]]],
+    ['sic-bo-2', [3, 3], [[3, 2, true]]],
+  ])('%s: groups %j by count, then value', (id, dice, expected) => {
+    expect(groupResult(VARIANTS[id], dice)).toEqual(expected.map(([value, count, winning]) => ({ value, count, winning })));
+  });
+});
@@ -0,0 +1,152 @@
+import { GameConfig } from './config';
+
+/**
+ * Game Variants
+ * A variant is one dice game the table can run: how many dice are thrown, how
+ * they rest on the table and how a result pays. Every variant throws the same
+ * six-sided symbol dice (themes restyle the faces). Tables pick their variant
+ * like their clock zone: ?variant=, then VITE_TABLE_VARIANTS, then the
+ * deployment default.
+ */
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+// 'grid': a block shaped to the screen; 'row': side by side, stacked on portrait screens
+export type DiceLayout = 'grid' | 'row';
+
+export interface PayoutRule {
+  // A symbol must show on at least this many dice to pay out; it then pays stake x matches
+  minMatches: number;
+}
+
+export interface GameVariant {
+  id: string;
+  name: string;
+  diceCount: number;
+  layout: DiceLayout;
+  payout: PayoutRule;
+}
+
+export interface DieSlot {
+  x: number;
+  y: number;
+}
+
+// One symbol of a result and how many dice show it
+export interface SymbolGroup {
+  value: number;
+  count: number;
+  // Shows on enough dice to pay out
+  winning: boolean;
+}
+
+export const DEFAULT_VARIANT_ID = 'jhandi-munda';
+
+export const VARIANTS: Record<string, GameVariant> = {
+  'jhandi-munda': {
+    id: 'jhandi-munda',
+    name: 'Jhandi Munda',
+    diceCount: 6,
+    layout: 'grid',
+    payout: { minMatches: 2 },
+  },
+  'crown-anchor': {
+    id: 'crown-anchor',
+    name: 'Crown & Anchor',
+    diceCount: 3,
+    layout: 'row',
+    payout: { minMatches: 1 },
+  },
+  'sic-bo-2': {
+    id: 'sic-bo-2',
+    name: 'Two-Dice Sic Bo',
+    diceCount: 2,
+    layout: 'row',
+    payout: { minMatches: 1 },
+  },
+};
+
+// ============================================
+// SELECTION
+// ============================================
+
+/**
+ * Variant for a table: ?variant= in the URL, then the table's entry in
+ * VITE_TABLE_VARIANTS, then the deployment default.
+ */
+export function getTableVariant(chatId: number | null): GameVariant {
+  const { variantOverride, tableVariants, variant } = GameConfig.variants;
+  const candidate = variantOverride ?? (chatId !== null ? tableVariants[chatId] : undefined) ?? variant;
+  if (VARIANTS[candidate]) return VARIANTS[candidate];
+  console.warn(`[Variant] Unknown game variant "${candidate}", using ${DEFAULT_VARIANT_ID}`);
+  return VARIANTS[DEFAULT_VARIANT_ID];
+}
+
+// Resting faces before the first result: one of each symbol in turn
+export function defaultDiceValues(variant: GameVariant): number[] {
+  return Array.from({ length: variant.diceCount }, (_, i) => (i % 6) + 1);
+}
+
+// ============================================
+// RESULT EVALUATION
+// ============================================
+
+/**
+ * Group a result by symbol, most frequent first (ties by value), marking the
+ * symbols the variant's payout rule pays on.
+ */
+export function groupResult(variant: GameVariant, diceValues: number[]): SymbolGroup[] {
+  const counts = new Map<number, number>();
+  diceValues.forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0] - b[0])
+    .map(([value, count]) => ({ value, count, winning: count >= variant.payout.minMatches }));
+}
+
+// ============================================
+// LAYOUT
+// ============================================
+
+// Columns for a 'grid' layout: the block whose shape best matches the screen,
+// preferring full rows
+function gridColumns(count: number, aspect: number): number {
+  let best = 1;
+  let bestScore = Infinity;
+  for (let columns = 1; columns <= count; columns++) {
+    const rows = Math.ceil(count / columns);
+    const emptySlots = rows * columns - count;
+    const score = Math.abs(Math.log(columns / rows / aspect)) + emptySlots * 0.25;
+    if (score < bestScore) {
+      best = columns;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Resting positions for the variant's dice, `spacing` apart and centred on the
+ * origin, for a screen of `aspect` (width / height). Rows run top to bottom;
+ * a short last row is centred.
+ */
+export function layoutDice(variant: GameVariant, aspect: number, spacing: number): DieSlot[] {
+  const count = variant.diceCount;
+  let columns: number;
+  if (variant.layout === 'row') {
+    columns = aspect >= 1 ? count : 1;
+  } else {
+    columns = gridColumns(count, aspect);
+  }
+  const rows = Math.ceil(count / columns);
+
+  return Array.from({ length: count }, (_, i) => {
+    const row = Math.floor(i / columns);
+    const inRow = row === rows - 1 ? count - row * columns : columns;
+    const column = i % columns;
+    return {
+      x: (column - (inRow - 1) / 2) * spacing,
+      y: ((rows - 1) / 2 - row) * spacing,
+    };
+  });
+}
@@ -2,6 +2,18 @@
 
 interface ImportMetaEnv {
   readonly VITE_BACKEND_URL: string;
+  readonly VITE_CHAT_ID?: string;
+  readonly VITE_BET_API_URL?: string;
+  readonly VITE_SIMULATOR?: string;
+  readonly VITE_TRANSPORTS?: string;
+  readonly VITE_TIME_ENDPOINT?: string;
+  readonly VITE_AUTH_REQUIRED?: string;
+  readonly VITE_EMBED_ORIGINS?: string;
+  readonly VITE_CLOCK_TIMEZONE?: string;
+  readonly VITE_TABLE_TIMEZONES?: string;
+  readonly VITE_THEME_BASE_URL?: string;
+  readonly VITE_GAME_VARIANT?: string;
+  readonly VITE_TABLE_VARIANTS?: string;
 }
 
 interface ImportMeta {
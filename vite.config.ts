@@ -8,6 +8,23 @@ dotenv.config();
 export default defineConfig(({ mode }) => {
   // Load env file based on `mode` in the current working directory.
   const env = loadEnv(mode, process.cwd(), '');
+
+  // `vite build --mode embed`: the host-page SDK as an ES module library
+  if (mode === 'embed') {
+    return {
+      // The SDK ships no game assets
+      publicDir: false,
+      build: {
+        outDir: 'dist/embed',
+        sourcemap: true,
+        lib: {
+          entry: resolve(__dirname, 'src/embed.ts'),
+          formats: ['es'],
+          fileName: 'jhandi-munda-embed',
+        },
+      },
+    };
+  }
   
   return {
     resolve: {
@@ -19,7 +36,7 @@ export default defineConfig(({ mode }) => {
       // Make env variables available in the app via import.meta.env
       'import.meta.env.VITE_APP_TITLE': JSON.stringify(env.VITE_APP_TITLE || 'Jhandi Munda'),
       'import.meta.env.VITE_BACKEND_URL': JSON.stringify(env.VITE_BACKEND_URL || 'http://localhost:3000'),
-      'import.meta.env.VITE_CHAT_ID': JSON.stringify(env.VITE_CHAT_ID || '123'),
+      'import.meta.env.VITE_CHAT_ID': JSON.stringify(env.VITE_CHAT_ID || ''),
       'import.meta.env.VITE_ROLL_DURATION': JSON.stringify(env.VITE_ROLL_DURATION || '2500'),
       'import.meta.env.VITE_RESULT_DISPLAY_DURATION': JSON.stringify(env.VITE_RESULT_DISPLAY_DURATION || '5'),
     },
@@ -0,0 +1,12 @@
+import { defineConfig, mergeConfig } from 'vitest/config';
+import viteConfig from './vite.config';
+
+// Tests run in jsdom on the app's Vite config (see src/test/setup.ts)
+export default defineConfig((env) =>
+  mergeConfig(viteConfig(env), {
+    test: {
+      environment: 'jsdom',
+      setupFiles: ['src/test/setup.ts'],
+    },
+  })
+);